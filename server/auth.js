@@ -0,0 +1,181 @@
+// Signed session tokens and role checks.
+//
+// Both login paths (Telegram OTP and Google) issue a pair of HS256 JWTs:
+//   access  — 15 minutes, sent as `Authorization: Bearer <token>`
+//   refresh — 7 days, exchanged at POST /auth/refresh for a new pair (single use)
+// Roles, lowest to highest: customer, kitchen, manager, admin. A route that needs
+// "kitchen" also accepts managers and admins.
+//
+// Staff are configured with STAFF_ROLES, a comma-separated list of phone-or-email:role,
+// e.g. STAFF_ROLES=919876543210:kitchen,owner@example.com:admin. Everyone else is a customer.
+
+const crypto = require("crypto");
+
+const ROLES = ["customer", "kitchen", "manager", "admin"];
+const STAFF_ROLES = ["kitchen", "manager", "admin"];
+const ACCESS_TTL_SECONDS = 15 * 60;
+const REFRESH_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString("hex");
+if (!process.env.JWT_SECRET) console.warn("JWT_SECRET not set; using a random secret, so sign-ins end when the server restarts");
+
+// Refresh tokens already exchanged or logged out (in memory; a restart forgets them, but the secret changes too unless set)
+const revokedRefreshIds = new Set();
+
+const base64url = (input) => Buffer.from(input).toString("base64url");
+const hmac = (data) => crypto.createHmac("sha256", SECRET).update(data).digest("base64url");
+
+function sign(claims, ttlSeconds) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({ ...claims, iat: now, exp: now + ttlSeconds }));
+  return `${header}.${payload}.${hmac(`${header}.${payload}`)}`;
+}
+
+// Returns { claims } for a valid, unexpired token of the given type, or { error }
+function verify(token, type = "access") {
+  const parts = String(token || "").split(".");
+  if (parts.length !== 3) return { error: "Malformed token" };
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(hmac(`${header}.${payload}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return { error: "Invalid token" };
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch (e) {
+    return { error: "Malformed token" };
+  }
+  if (claims.typ !== type) return { error: "Wrong token type" };
+  if (!claims.exp || claims.exp <= Math.floor(Date.now() / 1000)) return { error: "Token expired" };
+  return { claims };
+}
+
+const parseStaffRoles = (value) =>
+  new Map(
+    String(value || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const at = entry.lastIndexOf(":");
+        return [entry.slice(0, at).trim().toLowerCase(), entry.slice(at + 1).trim()];
+      })
+      .filter(([who, role]) => who && ROLES.includes(role))
+  );
+
+// Role for a signed-in user, looked up by phone then email
+function roleFor(user) {
+  const staffRoles = parseStaffRoles(process.env.STAFF_ROLES);
+  const keys = [user.phone, user.email].filter(Boolean).map((k) => String(k).toLowerCase());
+  for (const key of keys) {
+    if (staffRoles.has(key)) return staffRoles.get(key);
+  }
+  return "customer";
+}
+
+// The user object returned to clients and carried in tokens
+function sessionUser(user, role = roleFor(user)) {
+  return {
+    id: String(user.id || user.phone || user.email),
+    name: user.name || null,
+    email: user.email || null,
+    phone: user.phone || null,
+    authMethod: user.authMethod,
+    role,
+  };
+}
+
+// New access + refresh pair for a session user
+function issueTokens(user) {
+  const claims = { sub: user.id, name: user.name, phone: user.phone, email: user.email, role: user.role, authMethod: user.authMethod };
+  return {
+    token: sign({ ...claims, typ: "access" }, ACCESS_TTL_SECONDS),
+    refreshToken: sign({ ...claims, typ: "refresh", jti: crypto.randomUUID() }, REFRESH_TTL_SECONDS),
+    expiresAt: Date.now() + ACCESS_TTL_SECONDS * 1000,
+    user,
+  };
+}
+
+// Role for a refreshed session: looked up again so STAFF_ROLES changes apply.
+// Dev sign-ins pick their role explicitly and have no phone or email to look up.
+const currentRole = (claims) => (claims.authMethod === "dev" ? claims.role : roleFor({ phone: claims.phone, email: claims.email }));
+
+// Exchange a refresh token for a new pair; the old one cannot be used again.
+// resolveRole(claims) returns the account's role now, or null when it may no longer sign in.
+function refreshTokens(refreshToken, resolveRole = currentRole) {
+  const { claims, error } = verify(refreshToken, "refresh");
+  if (error) return { error };
+  if (revokedRefreshIds.has(claims.jti)) return { error: "Token has been revoked" };
+  revokedRefreshIds.add(claims.jti);
+  const role = resolveRole(claims);
+  if (!role) return { error: "Account is no longer active" };
+  const user = { id: claims.sub, name: claims.name, phone: claims.phone, email: claims.email, authMethod: claims.authMethod };
+  return { session: issueTokens(sessionUser(user, role)) };
+}
+
+function revokeRefreshToken(refreshToken) {
+  const { claims } = verify(refreshToken, "refresh");
+  if (claims) revokedRefreshIds.add(claims.jti);
+}
+
+const bearerToken = (req) => {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : null;
+};
+
+const userFromToken = (token) => {
+  const { claims } = verify(token);
+  return claims ? { id: claims.sub, name: claims.name, phone: claims.phone, email: claims.email, role: claims.role, authMethod: claims.authMethod } : null;
+};
+
+// Sets req.user from a valid bearer token; requests without one carry on as anonymous
+function authenticate(req, res, next) {
+  const token = bearerToken(req);
+  if (token) {
+    const user = userFromToken(token);
+    if (user) req.user = user;
+  }
+  next();
+}
+
+// EventSource can't send headers, so the event stream takes the access token as ?token=
+function authenticateQuery(req, res, next) {
+  if (!req.user && typeof req.query.token === "string") {
+    const user = userFromToken(req.query.token);
+    if (user) req.user = user;
+  }
+  next();
+}
+
+const hasRole = (user, minRole) => !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(minRole);
+
+// Route guard: 401 without a valid token, 403 when the role is below minRole
+function requireRole(minRole) {
+  return (req, res, next) => {
+    if (!req.user) return res.status(401).json({ success: false, message: "Sign in required" });
+    if (!hasRole(req.user, minRole)) {
+      return res.status(403).json({ success: false, message: `This action needs the ${minRole} role` });
+    }
+    next();
+  };
+}
+
+// Status-history actor for the signed-in user; falls back to what the client sent
+const actorFor = (req, fallback) =>
+  req.user ? { id: req.user.id, name: req.user.name || req.user.email || req.user.phone, role: req.user.role } : fallback;
+
+module.exports = {
+  ROLES,
+  STAFF_ROLES,
+  sessionUser,
+  issueTokens,
+  currentRole,
+  refreshTokens,
+  revokeRefreshToken,
+  authenticate,
+  authenticateQuery,
+  requireRole,
+  hasRole,
+  actorFor,
+};
@@ -0,0 +1,222 @@
+// Bill arithmetic: totals for a list of items under the configured tax rules,
+// and splitting a bill into child bills. Amounts are rupees with paise; the maths
+// runs in integer paise and splits use largest-remainder allocation so child
+// subtotals, tax lines, service charges and totals add up exactly to the parent.
+
+const { rateForCategory } = require("./taxConfig");
+
+// Thrown for invalid split requests; routes turn it into a 400
+class BillingError extends Error {}
+
+// Shared by every module that does money maths; missing amounts count as zero
+const toPaise = (rupees) => Math.round(Number(rupees || 0) * 100);
+const toRupees = (paise) => paise / 100;
+const linePaise = (it) => toPaise(it.price) * (it.quantity || 1);
+const sum = (values) => values.reduce((s, v) => s + v, 0);
+
+// What a bill keeps of an order line. Kitchen state (station, bumps, voids, rounds, stock draws and
+// the staff who made them) stays on the order, since diners can read their bill.
+const billLine = ({ id, name, price, basePrice, quantity, modifiers, notes }) =>
+  ({ id, name, price, basePrice, quantity: quantity || 1, modifiers: modifiers || [], notes: notes || null });
+
+// One GST line per rate, or CGST + SGST halves (paise in, paise out)
+function taxLinesFor(breakdown, splitGst) {
+  return breakdown
+    .filter((g) => g.tax > 0)
+    .flatMap((g) => {
+      if (!splitGst) return [{ label: `GST ${g.rate}%`, kind: "GST", rate: g.rate, groupRate: g.rate, amount: g.tax }];
+      const sgst = Math.floor(g.tax / 2);
+      return [
+        { label: `CGST ${g.rate / 2}%`, kind: "CGST", rate: g.rate / 2, groupRate: g.rate, amount: g.tax - sgst },
+        { label: `SGST ${g.rate / 2}%`, kind: "SGST", rate: g.rate / 2, groupRate: g.rate, amount: sgst },
+      ];
+    });
+}
+
+// Totals for `items` under `config` (see taxConfig.js). Items come back tagged
+// with their category's GST rate so later splits can regroup them.
+function computeTotals(items, config, { declineService = false } = {}) {
+  const taggedItems = items.map((it) => ({ ...it, gstRate: rateForCategory(config, it.category) }));
+  const groups = new Map();
+  taggedItems.forEach((it) => groups.set(it.gstRate, (groups.get(it.gstRate) || 0) + linePaise(it)));
+
+  const breakdown = Array.from(groups.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([rate, gross]) => {
+      // inclusive prices already contain the tax, so back it out of the line amount
+      const taxable = config.pricesIncludeTax ? Math.round((gross * 100) / (100 + rate)) : gross;
+      const tax = config.pricesIncludeTax ? gross - taxable : Math.round((gross * rate) / 100);
+      return { rate, taxable, tax };
+    });
+  const subtotal = sum(breakdown.map((g) => g.taxable));
+  const tax = sum(breakdown.map((g) => g.tax));
+
+  const sc = config.serviceCharge;
+  const serviceDeclined = !!(sc.enabled && sc.declinable && declineService);
+  const serviceRate = sc.enabled && !serviceDeclined ? sc.rate : 0;
+  const service = Math.round((subtotal * serviceRate) / 100);
+
+  return {
+    items: taggedItems,
+    subtotal: toRupees(subtotal),
+    tax: toRupees(tax),
+    service: toRupees(service),
+    total: toRupees(subtotal + tax + service),
+    taxBreakdown: breakdown.map((g) => ({ rate: g.rate, taxable: toRupees(g.taxable), tax: toRupees(g.tax) })),
+    taxLines: taxLinesFor(breakdown, config.splitGst).map((l) => ({ ...l, amount: toRupees(l.amount) })),
+    serviceRate,
+    serviceDeclined,
+    pricesIncludeTax: !!config.pricesIncludeTax,
+  };
+}
+
+// Split integer `amount` in proportion to `weights` so the parts sum to `amount` exactly
+function allocate(amount, weights) {
+  const weightSum = sum(weights);
+  if (weightSum <= 0) return weights.map((_, i) => (i === 0 ? amount : 0));
+  const raw = weights.map((w) => (amount * w) / weightSum);
+  const parts = raw.map(Math.floor);
+  let remainder = amount - sum(parts);
+  // hand out leftover paise to the largest fractional parts (earlier shares win ties)
+  const order = raw.map((r, i) => ({ i, frac: r - Math.floor(r) })).sort((a, b) => b.frac - a.frac || a.i - b.i);
+  for (let k = 0; remainder > 0; k = (k + 1) % order.length, remainder--) parts[order[k].i] += 1;
+  return parts;
+}
+
+// Bills created before tax lines existed carry a single tax figure
+const billTaxLines = (bill) =>
+  bill.taxLines || (bill.tax ? [{ label: "Tax", kind: "GST", rate: null, groupRate: null, amount: bill.tax }] : []);
+
+// Give each child its share of every tax line; `weightsFor(line)` returns per-child weights (paise)
+function allocateTaxLines(bill, childCount, weightsFor) {
+  const perChild = Array.from({ length: childCount }, () => []);
+  billTaxLines(bill).forEach((line) => {
+    allocate(toPaise(line.amount), weightsFor(line)).forEach((amount, i) => perChild[i].push({ ...line, amount }));
+  });
+  return perChild;
+}
+
+const finishLines = (lines) => lines.filter((l) => l.amount > 0).map((l) => ({ ...l, amount: toRupees(l.amount) }));
+
+// Shares whose totals are fixed up front (even and custom-amount splits): tax lines
+// and service follow the share of the total, subtotal is whatever is left
+function sharesFromTotals(bill, totals, labels) {
+  const lines = allocateTaxLines(bill, totals.length, () => totals);
+  const service = allocate(toPaise(bill.service), totals);
+  return totals.map((total, i) => {
+    const tax = sum(lines[i].map((l) => l.amount));
+    return {
+      label: labels[i],
+      items: [],
+      subtotal: toRupees(total - tax - service[i]),
+      tax: toRupees(tax),
+      service: toRupees(service[i]),
+      total: toRupees(total),
+      taxLines: finishLines(lines[i]),
+    };
+  });
+}
+
+function splitEven(bill, ways) {
+  const n = parseInt(ways, 10);
+  if (!n || n < 2 || n > 20) throw new BillingError("Number of ways must be between 2 and 20");
+  const totals = allocate(toPaise(bill.total), Array(n).fill(1));
+  return sharesFromTotals(bill, totals, totals.map((_, i) => `Share ${i + 1} of ${n}`));
+}
+
+const isObject = (value) => value !== null && typeof value === "object" && !Array.isArray(value);
+
+// assignments: [{ diner, lines: [{ index, quantity }] }] — every unit of every line must be assigned once
+function splitByItems(bill, assignments) {
+  if (!Array.isArray(assignments) || assignments.length < 2) throw new BillingError("Assign items to at least two diners");
+  const assigned = bill.items.map(() => 0);
+  const children = assignments.map((a, i) => {
+    if (!isObject(a)) throw new BillingError(`Invalid assignment for diner ${i + 1}`);
+    if (a.lines !== undefined && !Array.isArray(a.lines)) throw new BillingError(`Invalid lines for ${a.diner || `diner ${i + 1}`}`);
+    const items = (a.lines || []).map((line) => {
+      const valid = isObject(line) && Number.isInteger(line.index) && line.index >= 0 && line.index < bill.items.length;
+      const quantity = valid ? parseInt(line.quantity, 10) || 0 : 0;
+      if (quantity <= 0) throw new BillingError(`Invalid line assignment for ${a.diner || `diner ${i + 1}`}`);
+      const source = bill.items[line.index];
+      assigned[line.index] += quantity;
+      return { ...source, quantity };
+    });
+    return { label: a.diner || `Diner ${i + 1}`, items };
+  });
+  bill.items.forEach((it, idx) => {
+    if (assigned[idx] !== (it.quantity || 1)) {
+      throw new BillingError(`${it.name}: ${assigned[idx]} of ${it.quantity || 1} assigned`);
+    }
+  });
+
+  // Each child's gross amount within one GST rate (null = every rate)
+  const grossIn = (rate) =>
+    children.map((c) => sum(c.items.filter((it) => rate === null || it.gstRate === rate).map(linePaise)));
+  const groups = bill.taxBreakdown || [{ rate: null, taxable: bill.subtotal }];
+  const taxable = groups.map((g) => allocate(toPaise(g.taxable), grossIn(g.rate)));
+  const subtotals = children.map((_, i) => sum(taxable.map((parts) => parts[i])));
+  const lines = allocateTaxLines(bill, children.length, (line) => grossIn(line.groupRate));
+  const service = allocate(toPaise(bill.service), subtotals);
+
+  return children.map((c, i) => {
+    const tax = sum(lines[i].map((l) => l.amount));
+    const taxBreakdown = bill.taxBreakdown
+      ? groups
+          .map((g, gi) => ({
+            rate: g.rate,
+            taxable: toRupees(taxable[gi][i]),
+            tax: toRupees(sum(lines[i].filter((l) => l.groupRate === g.rate).map((l) => l.amount))),
+          }))
+          .filter((g) => g.taxable > 0 || g.tax > 0)
+      : undefined;
+    return {
+      ...c,
+      subtotal: toRupees(subtotals[i]),
+      tax: toRupees(tax),
+      service: toRupees(service[i]),
+      total: toRupees(subtotals[i] + tax + service[i]),
+      taxLines: finishLines(lines[i]),
+      taxBreakdown,
+    };
+  });
+}
+
+// amounts: [{ diner, amount }] in rupees — must add up to the bill total
+function splitByAmounts(bill, amounts) {
+  if (!Array.isArray(amounts) || amounts.length < 2) throw new BillingError("Provide at least two amounts");
+  if (!amounts.every(isObject)) throw new BillingError("Each amount must be an object with an amount");
+  const totals = amounts.map((a) => toPaise(Number(a.amount)));
+  if (totals.some((t) => !Number.isFinite(t) || t <= 0)) throw new BillingError("Amounts must be positive");
+  const allocated = sum(totals);
+  if (allocated !== toPaise(bill.total)) {
+    throw new BillingError(`Amounts add up to ₹${toRupees(allocated)} but the bill total is ₹${bill.total}`);
+  }
+  const shares = sharesFromTotals(bill, totals, amounts.map((a, i) => a.diner || `Diner ${i + 1}`));
+  if (shares.some((s) => s.subtotal < 0)) throw new BillingError("An amount is too small to cover its share of tax and service");
+  return shares;
+}
+
+// Indian financial year (April-March) a timestamp falls in, e.g. "2026-27"
+function financialYear(at) {
+  const d = new Date(at);
+  const start = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+// Invoice numbers restart each financial year: INV/2026-27/000042
+const formatInvoiceNumber = (prefix, at, seq) => `${prefix}/${financialYear(at)}/${String(seq).padStart(6, "0")}`;
+
+function splitBill(bill, body) {
+  switch (body && body.mode) {
+    case "even":
+      return splitEven(bill, body.ways);
+    case "items":
+      return splitByItems(bill, body.assignments);
+    case "amounts":
+      return splitByAmounts(bill, body.amounts);
+    default:
+      throw new BillingError("Split mode must be one of: even, items, amounts");
+  }
+}
+
+module.exports = { BillingError, toPaise, toRupees, billLine, computeTotals, allocate, splitBill, financialYear, formatInvoiceNumber };
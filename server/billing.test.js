@@ -0,0 +1,139 @@
+// Split bills must add up to the bill they came from to the paisa: subtotals, every tax line,
+// service and totals.
+//
+//   npm test
+
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const billing = require("./billing");
+const { DEFAULT_TAX_CONFIG } = require("./taxConfig");
+
+const { toPaise, splitBill, computeTotals, allocate } = billing;
+
+const config = (overrides = {}) => ({ ...DEFAULT_TAX_CONFIG, ...overrides });
+
+// A bill as POST /bills builds it: 5% food, 18% drinks, CGST + SGST and a 2% service charge
+function mixedBill() {
+  const rules = config({ categoryRates: { Drinks: 18 } });
+  const items = [
+    { id: "snack-1", name: "Samosa", price: 17.5, quantity: 3, category: "Snacks" },
+    { id: "main-1", name: "Paneer Tikka", price: 233.33, quantity: 1, category: "Mains" },
+    { id: "drink-1", name: "Cold Coffee", price: 89.99, quantity: 2, category: "Drinks" },
+  ];
+  return { id: "BILL-1", ...computeTotals(items, rules) };
+}
+
+// ₹100 with tax already in the price and no service charge
+function hundredRupeeBill() {
+  const rules = config({ pricesIncludeTax: true, serviceCharge: { enabled: false, rate: 0, declinable: false } });
+  return { id: "BILL-2", ...computeTotals([{ id: "thali-1", name: "Thali", price: 100, quantity: 1, category: "Mains" }], rules) };
+}
+
+const paiseOf = (list, key) => list.reduce((s, x) => s + toPaise(x[key]), 0);
+
+const linesByLabel = (bills) => {
+  const totals = {};
+  bills.flatMap((b) => b.taxLines).forEach((l) => (totals[l.label] = (totals[l.label] || 0) + toPaise(l.amount)));
+  return totals;
+};
+
+function assertAddsUp(parent, shares) {
+  for (const key of ["subtotal", "tax", "service", "total"]) {
+    assert.equal(paiseOf(shares, key), toPaise(parent[key]), key);
+  }
+  assert.deepEqual(linesByLabel(shares), linesByLabel([parent]));
+  shares.forEach((s) => {
+    assert.equal(toPaise(s.subtotal) + toPaise(s.tax) + toPaise(s.service), toPaise(s.total), s.label);
+    assert.equal(paiseOf(s.taxLines, "amount"), toPaise(s.tax), s.label);
+  });
+}
+
+describe("allocate", () => {
+  it("hands leftover paise to the largest remainders, earlier shares first on ties", () => {
+    assert.deepEqual(allocate(10000, [1, 1, 1]), [3334, 3333, 3333]);
+    assert.deepEqual(allocate(5, [1, 2]), [2, 3]);
+    assert.deepEqual(allocate(7, [0, 0]), [7, 0]);
+  });
+});
+
+describe("splitBill", () => {
+  it("splits ₹100 three ways as 33.34 + 33.33 + 33.33", () => {
+    const bill = hundredRupeeBill();
+    const shares = splitBill(bill, { mode: "even", ways: 3 });
+    assert.deepEqual(shares.map((s) => s.total), [33.34, 33.33, 33.33]);
+    assert.deepEqual(shares.map((s) => s.label), ["Share 1 of 3", "Share 2 of 3", "Share 3 of 3"]);
+    assertAddsUp(bill, shares);
+  });
+
+  it("adds up evenly split bills with several tax rates and a service charge", () => {
+    const bill = mixedBill();
+    assert.ok(bill.taxLines.length >= 4 && bill.service > 0);
+    for (const ways of [2, 3, 7]) assertAddsUp(bill, splitBill(bill, { mode: "even", ways }));
+  });
+
+  it("adds up a split by items, per rate as well as in total", () => {
+    const bill = mixedBill();
+    const shares = splitBill(bill, {
+      mode: "items",
+      assignments: [
+        { diner: "Meera", lines: [{ index: 0, quantity: 1 }, { index: 2, quantity: 1 }] },
+        { diner: "Arjun", lines: [{ index: 0, quantity: 2 }, { index: 1, quantity: 1 }] },
+        { diner: "Zoya", lines: [{ index: 2, quantity: 1 }] },
+      ],
+    });
+    assert.deepEqual(shares.map((s) => s.label), ["Meera", "Arjun", "Zoya"]);
+    assertAddsUp(bill, shares);
+    for (const group of bill.taxBreakdown) {
+      const parts = shares.map((s) => s.taxBreakdown.find((g) => g.rate === group.rate) || { taxable: 0, tax: 0 });
+      assert.equal(paiseOf(parts, "taxable"), toPaise(group.taxable), `${group.rate}% taxable`);
+      assert.equal(paiseOf(parts, "tax"), toPaise(group.tax), `${group.rate}% tax`);
+    }
+    assert.ok(!shares[2].taxLines.some((l) => l.groupRate === 5), "Zoya only had a drink");
+  });
+
+  it("adds up a split by amounts", () => {
+    const bill = mixedBill();
+    const first = 100.01;
+    const second = 150;
+    const third = (toPaise(bill.total) - toPaise(first) - toPaise(second)) / 100;
+    const shares = splitBill(bill, { mode: "amounts", amounts: [{ diner: "Meera", amount: first }, { amount: second }, { amount: third }] });
+    assert.deepEqual(shares.map((s) => s.total), [first, second, third]);
+    assert.equal(shares[1].label, "Diner 2");
+    assertAddsUp(bill, shares);
+
+    const hundred = hundredRupeeBill();
+    assertAddsUp(hundred, splitBill(hundred, { mode: "amounts", amounts: [{ amount: 33.33 }, { amount: 33.33 }, { amount: 33.34 }] }));
+  });
+
+  it("rejects splits that would not add up", () => {
+    const bill = mixedBill();
+    assert.throws(() => splitBill(bill, { mode: "even", ways: 1 }), billing.BillingError);
+    assert.throws(() => splitBill(bill, { mode: "amounts", amounts: [{ amount: 1 }, { amount: 1 }] }), /add up to ₹2/);
+    assert.throws(
+      () => splitBill(bill, { mode: "items", assignments: [{ lines: [{ index: 0, quantity: 3 }] }, { lines: [{ index: 1, quantity: 1 }] }] }),
+      /Cold Coffee: 0 of 2 assigned/
+    );
+    assert.throws(() => splitBill(bill, { mode: "thirds" }), /Split mode/);
+  });
+
+  it("rejects malformed assignments, lines and amounts with a BillingError", () => {
+    const bill = mixedBill();
+    const items = (assignments) => () => splitBill(bill, { mode: "items", assignments });
+    const ok = { lines: [{ index: 0, quantity: 3 }] };
+    for (const bad of [
+      [null, ok],
+      [ok, "Meera"],
+      [{ lines: [null] }, ok],
+      [{ lines: "0" }, ok],
+      [{ lines: [{ index: "constructor", quantity: 1 }] }, ok],
+      [{ lines: [{ index: "0", quantity: 1 }] }, ok],
+      [{ lines: [{ index: 1.5, quantity: 1 }] }, ok],
+      [{ lines: [{ index: -1, quantity: 1 }] }, ok],
+      [{ lines: [{ index: bill.items.length, quantity: 1 }] }, ok],
+    ]) {
+      assert.throws(items(bad), billing.BillingError, JSON.stringify(bad));
+    }
+    assert.throws(() => splitBill(bill, { mode: "amounts", amounts: [null, { amount: 1 }] }), billing.BillingError);
+    assert.throws(() => splitBill(bill, { mode: "amounts", amounts: [5, 5] }), billing.BillingError);
+  });
+});
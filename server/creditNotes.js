@@ -0,0 +1,84 @@
+// Credit notes and re-opening completed orders.
+//
+// A bill is never edited once issued. A manager corrects it with a credit note: a document in its
+// own number series (CN/2026-27/000001) that reverses the whole bill, kept alongside the bills
+// with kind CREDIT_NOTE and subtracted in the daily report on the day it was issued. The bill
+// records which note reversed it:
+//   bill.creditNote: { id, invoiceNumber, reason, note, at, actor }
+// Re-opening a completed order credits its bill (if not done already) and moves every order on
+// that bill back to READY, unbilled, so lines can be fixed and the table billed again.
+
+const CREDIT_NOTE = "CREDIT_NOTE";
+const CREDIT_NOTE_PREFIX = "CN";
+const CREDIT_REASONS = ["BILLING_ERROR", "CUSTOMER_COMPLAINT", "ORDER_REOPENED"];
+const MAX_CREDIT_NOTE_LENGTH = 200;
+
+const isCreditNote = (bill) => bill.kind === CREDIT_NOTE;
+
+// Validate { reason, note } from a credit-note or re-open request. Returns { reason, note } or { error }.
+function normalizeCredit(body) {
+  const { reason, note } = body || {};
+  if (!CREDIT_REASONS.includes(reason)) return { error: `Reason must be one of ${CREDIT_REASONS.join(", ")}` };
+  const trimmed = note ? String(note).trim() : "";
+  if (trimmed.length > MAX_CREDIT_NOTE_LENGTH) return { error: `Note must be at most ${MAX_CREDIT_NOTE_LENGTH} characters` };
+  return { reason, note: trimmed || null };
+}
+
+// Returns null when `bill` may be credited, otherwise { error, status }
+function creditError(bill) {
+  if (isCreditNote(bill)) return { error: "A credit note cannot be credited", status: 400 };
+  if (bill.parentBillId) return { error: "Split shares can't be credited; credit the parent bill instead", status: 400 };
+  if (bill.creditNote) return { error: `Bill was already credited by ${bill.creditNote.invoiceNumber}`, status: 409 };
+  return null;
+}
+
+// The credit note reversing `bill`, and the bill marked as credited by it
+function creditBill(bill, { reason, note }, actor, { id, invoiceNumber, createdAt }) {
+  const creditNote = {
+    id,
+    kind: CREDIT_NOTE,
+    invoiceNumber,
+    creditedBillId: bill.id,
+    creditedInvoiceNumber: bill.invoiceNumber || null,
+    orderId: bill.orderId,
+    sessionId: bill.sessionId,
+    orderIds: bill.orderIds,
+    tableNumber: bill.tableNumber,
+    customerName: bill.customerName,
+    items: bill.items,
+    subtotal: bill.subtotal,
+    tax: bill.tax,
+    service: bill.service,
+    total: bill.total,
+    taxLines: bill.taxLines,
+    taxBreakdown: bill.taxBreakdown,
+    taxConfig: bill.taxConfig,
+    serviceRate: bill.serviceRate,
+    serviceDeclined: bill.serviceDeclined,
+    pricesIncludeTax: bill.pricesIncludeTax,
+    credit: { reason, note: note || null, actor },
+    parentBillId: null,
+    splitMode: null,
+    splitIds: [],
+    createdAt,
+  };
+  bill.creditNote = { id, invoiceNumber, reason, note: note || null, at: createdAt, actor };
+  return creditNote;
+}
+
+// Returns null when the order may be re-opened, otherwise why not
+function reopenError(order) {
+  if (order.status !== "COMPLETED") return `Only completed orders can be re-opened; this one is ${order.status.toLowerCase()}`;
+  return null;
+}
+
+module.exports = {
+  CREDIT_NOTE,
+  CREDIT_NOTE_PREFIX,
+  CREDIT_REASONS,
+  isCreditNote,
+  normalizeCredit,
+  creditError,
+  creditBill,
+  reopenError,
+};
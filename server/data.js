@@ -1,10 +1,20 @@
 // Minimal shared data for the backend (mirrors frontend mock data)
+
+const teaOptions = [
+  { id: "grp-size", name: "Size", required: true, min: 1, max: 1, options: [{ id: "opt-regular", name: "Regular", priceDelta: 0 }, { id: "opt-large", name: "Large", priceDelta: 15 }] },
+  { id: "grp-sugar", name: "Sugar", required: false, min: 0, max: 1, options: [{ id: "opt-less-sugar", name: "Less sugar", priceDelta: 0 }, { id: "opt-no-sugar", name: "No sugar", priceDelta: 0 }] }
+];
+
+const parathaAddOns = [
+  { id: "grp-addons", name: "Add-ons", required: false, min: 0, max: 3, options: [{ id: "opt-butter", name: "Extra butter", priceDelta: 10 }, { id: "opt-curd", name: "Curd", priceDelta: 15 }, { id: "opt-pickle", name: "Pickle", priceDelta: 5 }] }
+];
+
 const menuData = {
   Tea: [
-    { id: "tea-1", name: "Masala Chai", price: 30, description: "Spiced Indian tea with milk", image: "https://images.unsplash.com/photo-1544787219-7f47ccb76574?w=800&q=80" },
-    { id: "tea-2", name: "Ginger Tea", price: 30, description: "Refreshing tea infused with ginger", image: "https://images.unsplash.com/photo-1576092768241-dec231879fc3?w=800&q=80" },
-    { id: "tea-3", name: "Green Tea", price: 40, description: "Healthy antioxidant-rich tea", image: "https://images.unsplash.com/photo-1627435601361-ec25f5b1d0e5?w=800&q=80" },
-    { id: "tea-4", name: "Black Tea", price: 25, description: "Strong black tea without milk", image: "https://images.unsplash.com/photo-1594631252845-29fc4cc8cde9?w=800&q=80" }
+    { id: "tea-1", name: "Masala Chai", price: 30, description: "Spiced Indian tea with milk", image: "https://images.unsplash.com/photo-1544787219-7f47ccb76574?w=800&q=80", modifierGroups: teaOptions },
+    { id: "tea-2", name: "Ginger Tea", price: 30, description: "Refreshing tea infused with ginger", image: "https://images.unsplash.com/photo-1576092768241-dec231879fc3?w=800&q=80", modifierGroups: teaOptions },
+    { id: "tea-3", name: "Green Tea", price: 40, description: "Healthy antioxidant-rich tea", image: "https://images.unsplash.com/photo-1627435601361-ec25f5b1d0e5?w=800&q=80", modifierGroups: teaOptions },
+    { id: "tea-4", name: "Black Tea", price: 25, description: "Strong black tea without milk", image: "https://images.unsplash.com/photo-1594631252845-29fc4cc8cde9?w=800&q=80", modifierGroups: teaOptions }
   ],
   Snacks: [
     { id: "snack-1", name: "Samosa", price: 20, description: "Crispy pastry filled with spiced potatoes", image: "https://images.unsplash.com/photo-1601050690597-df0568f70950?w=800&q=80" },
@@ -13,10 +23,10 @@ const menuData = {
     { id: "snack-4", name: "Sandwich", price: 50, description: "Grilled vegetable sandwich", image: "https://images.unsplash.com/photo-1528735602780-2552fd46c7af?w=800&q=80" }
   ],
   Paratha: [
-    { id: "paratha-1", name: "Aloo Paratha", price: 60, description: "Flatbread stuffed with spiced potatoes", image: "https://images.unsplash.com/photo-1626074353765-517a681e40be?w=800&q=80" },
-    { id: "paratha-2", name: "Paneer Paratha", price: 80, description: "Flatbread stuffed with cottage cheese", image: "https://images.unsplash.com/photo-1645177628172-a94c1f96e6db?w=800&q=80" },
-    { id: "paratha-3", name: "Gobi Paratha", price: 70, description: "Flatbread stuffed with cauliflower", image: "https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=800&q=80" },
-    { id: "paratha-4", name: "Mix Paratha", price: 90, description: "Flatbread with mixed vegetables", image: "https://images.unsplash.com/photo-1606491956689-2ea28c674675?w=800&q=80" }
+    { id: "paratha-1", name: "Aloo Paratha", price: 60, description: "Flatbread stuffed with spiced potatoes", image: "https://images.unsplash.com/photo-1626074353765-517a681e40be?w=800&q=80", modifierGroups: parathaAddOns },
+    { id: "paratha-2", name: "Paneer Paratha", price: 80, description: "Flatbread stuffed with cottage cheese", image: "https://images.unsplash.com/photo-1645177628172-a94c1f96e6db?w=800&q=80", modifierGroups: parathaAddOns },
+    { id: "paratha-3", name: "Gobi Paratha", price: 70, description: "Flatbread stuffed with cauliflower", image: "https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=800&q=80", modifierGroups: parathaAddOns },
+    { id: "paratha-4", name: "Mix Paratha", price: 90, description: "Flatbread with mixed vegetables", image: "https://images.unsplash.com/photo-1606491956689-2ea28c674675?w=800&q=80", modifierGroups: parathaAddOns }
   ]
 };
 
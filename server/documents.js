@@ -0,0 +1,407 @@
+// Printable documents: the GST tax invoice for a bill and the kitchen order
+// ticket (KOT) for an order. Each renders as HTML (browser printing), plain
+// text laid out for 58mm/80mm thermal rolls, ESC/POS bytes for those printers,
+// or a receipt-sized PDF of the same text.
+
+const { describeModifiers } = require("./modifiers");
+const { describeAllergens } = require("./orderNotes");
+
+// Characters per line on common thermal rolls (Font A)
+const PAPER_COLUMNS = { 58: 32, 80: 48 };
+const PAPER_WIDTH_PT = { 58: 164, 80: 227 };
+
+const FORMATS = ["html", "pdf", "text", "escpos"];
+
+const paperColumns = (width) => PAPER_COLUMNS[width] || PAPER_COLUMNS[80];
+
+// Thermal printers and the PDF base font only cover ASCII
+const ascii = (s) =>
+  String(s == null ? "" : s)
+    .normalize("NFKD")
+    .replace(/₹/g, "Rs")
+    .replace(/[^\x20-\x7e]/g, "");
+
+const money = (n) => (Number(n) || 0).toFixed(2);
+
+const formatDateTime = (at) => {
+  const d = new Date(at || Date.now());
+  const pad = (n) => String(n).padStart(2, "0");
+  return `${pad(d.getDate())}/${pad(d.getMonth() + 1)}/${d.getFullYear()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const escapeHtml = (s) =>
+  String(s == null ? "" : s).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+
+// ---- Plain-text layout helpers ----
+
+const center = (s, cols) => {
+  const text = ascii(s).slice(0, cols);
+  return " ".repeat(Math.floor((cols - text.length) / 2)) + text;
+};
+
+const rule = (cols, ch = "-") => ch.repeat(cols);
+
+// Left text and right-aligned value on one line; long left text wraps above
+function columns(left, right, cols) {
+  const r = ascii(right);
+  const room = cols - r.length - 1;
+  const words = ascii(left);
+  const lines = [];
+  let rest = words;
+  while (rest.length > room) {
+    lines.push(rest.slice(0, room));
+    rest = rest.slice(room);
+  }
+  lines.push(rest.padEnd(room) + " " + r);
+  return lines;
+}
+
+function wrap(text, cols) {
+  const lines = [];
+  ascii(text)
+    .split(/\r?\n/)
+    .forEach((para) => {
+      let line = "";
+      para.split(/\s+/).filter(Boolean).forEach((word) => {
+        if (line && line.length + 1 + word.length > cols) {
+          lines.push(line);
+          line = "";
+        }
+        line = line ? `${line} ${word}` : word.slice(0, cols);
+      });
+      if (line) lines.push(line);
+    });
+  return lines;
+}
+
+const lineAmount = (it) => (it.price || 0) * (it.quantity || 1);
+
+// Item name with its chosen modifiers, e.g. "Masala Chai (Large, Less sugar)"
+const lineName = (it) => {
+  const extras = describeModifiers(it.modifiers);
+  return extras ? `${it.name} (${extras})` : it.name;
+};
+
+// Notes on an order or line, if the order carries any
+const orderNotes = (order) => [order.notes, order.note].filter(Boolean);
+// Notes sent with later rounds, on a full reprint
+const roundNotes = (order) => (order.round ? [] : (order.rounds || []).filter((r) => r.notes).map((r) => `ROUND ${r.number}: ${r.notes}`));
+const itemNotes = (it) => [it.notes, it.note].filter(Boolean);
+
+// ---- Tax invoice ----
+
+const invoiceTitle = (bill) => {
+  if (bill.kind === "CREDIT_NOTE") return "CREDIT NOTE";
+  return bill.parentBillId ? `SPLIT SHARE ${bill.splitIndex || ""}`.trim() : "TAX INVOICE";
+};
+
+// "Against invoice INV/2026-27/000042" on a credit note; empty for anything else
+const creditedRef = (bill) =>
+  bill.kind === "CREDIT_NOTE" ? `Against invoice ${bill.creditedInvoiceNumber || bill.creditedBillId}` : "";
+
+function invoiceText(bill, { width = 80 } = {}) {
+  const cols = paperColumns(width);
+  const rules = bill.taxConfig || {};
+  const business = rules.business || {};
+  const out = [];
+
+  out.push(center(business.name || "Tax Invoice", cols));
+  wrap(business.address, cols).forEach((l) => out.push(center(l, cols)));
+  if (business.gstin) out.push(center(`GSTIN: ${business.gstin}`, cols));
+  out.push(center(invoiceTitle(bill), cols));
+  out.push(rule(cols));
+  if (bill.invoiceNumber) out.push(`${bill.kind === "CREDIT_NOTE" ? "Credit note" : "Invoice"}: ${bill.invoiceNumber}`);
+  if (creditedRef(bill)) out.push(creditedRef(bill));
+  // Bills from before invoice numbering are only known by their id
+  if (!bill.invoiceNumber) out.push(`Bill: ${bill.id}`);
+  out.push(`Date: ${formatDateTime(bill.createdAt)}`);
+  if (bill.tableNumber) out.push(`Table: ${bill.tableNumber}`);
+  out.push(...wrap(`Customer: ${bill.customerName || "Guest"}`, cols));
+  out.push(rule(cols));
+
+  if ((bill.items || []).length) {
+    out.push(...columns("Item", "Amount", cols));
+    bill.items.forEach((it) => {
+      out.push(...columns(`${lineName(it)} x${it.quantity || 1}`, money(lineAmount(it)), cols));
+      const hsn = it.hsn || rules.defaultHsn;
+      const detail = [`@ ${money(it.price)}`, hsn ? `HSN ${hsn}` : null, it.gstRate != null ? `GST ${it.gstRate}%` : null];
+      out.push(...wrap(detail.filter(Boolean).join("  "), cols - 2).map((l) => `  ${l}`));
+    });
+    out.push(rule(cols));
+  }
+
+  out.push(...columns(bill.pricesIncludeTax ? "Taxable value" : "Subtotal", money(bill.subtotal), cols));
+  (bill.taxLines || [{ label: "Tax", amount: bill.tax }]).forEach((l) => out.push(...columns(l.label, money(l.amount), cols)));
+  if (bill.service) out.push(...columns(`Service charge (${bill.serviceRate}%)`, money(bill.service), cols));
+  if (bill.serviceDeclined) out.push(...columns("Service charge", "declined", cols));
+  out.push(rule(cols, "="));
+  out.push(...columns("TOTAL (Rs)", money(bill.total), cols));
+  out.push(rule(cols, "="));
+
+  if ((bill.taxBreakdown || []).length) {
+    out.push("GST summary");
+    out.push(...columns("Rate    Taxable", "Tax", cols));
+    bill.taxBreakdown.forEach((g) => {
+      out.push(...columns(`${`${g.rate}%`.padEnd(7)} ${money(g.taxable)}`, money(g.tax), cols));
+    });
+    out.push(rule(cols));
+  }
+  if (bill.pricesIncludeTax) out.push(...wrap("Prices are inclusive of GST", cols));
+  out.push(center("Thank you for visiting!", cols));
+  return out.map(ascii).join("\n") + "\n";
+}
+
+function invoiceHtml(bill, { autoPrint = false } = {}) {
+  const rules = bill.taxConfig || {};
+  const business = rules.business || {};
+  const itemRows = (bill.items || [])
+    .map(
+      (it) => `<tr>
+        <td>${escapeHtml(lineName(it))}</td>
+        <td>${escapeHtml(it.hsn || rules.defaultHsn || "")}</td>
+        <td class="num">${it.quantity || 1}</td>
+        <td class="num">${money(it.price)}</td>
+        <td class="num">${it.gstRate != null ? `${it.gstRate}%` : ""}</td>
+        <td class="num">${money(lineAmount(it))}</td>
+      </tr>`
+    )
+    .join("");
+  const taxRows = (bill.taxLines || [{ label: "Tax", amount: bill.tax }])
+    .map((l) => `<tr><td>${escapeHtml(l.label)}</td><td class="num">${money(l.amount)}</td></tr>`)
+    .join("");
+  const breakdownRows = (bill.taxBreakdown || [])
+    .map((g) => `<tr><td>${g.rate}%</td><td class="num">${money(g.taxable)}</td><td class="num">${money(g.tax)}</td></tr>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(bill.invoiceNumber || bill.id)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 24px auto; color: #111; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 14px; letter-spacing: 0.1em; margin: 16px 0 8px; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #ddd; text-align: left; font-size: 13px; }
+  .num { text-align: right; }
+  .meta { display: flex; justify-content: space-between; font-size: 13px; }
+  .totals { width: 50%; margin-left: auto; }
+  .grand td { font-weight: bold; font-size: 15px; border-top: 2px solid #111; }
+  .muted { color: #666; font-size: 12px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(business.name || "")}</h1>
+  ${business.address ? `<div class="muted">${escapeHtml(business.address)}</div>` : ""}
+  ${business.gstin ? `<div>GSTIN: <strong>${escapeHtml(business.gstin)}</strong></div>` : ""}
+  <h2>${escapeHtml(invoiceTitle(bill))}</h2>
+  <div class="meta">
+    <div>
+      ${bill.invoiceNumber ? `<div>${bill.kind === "CREDIT_NOTE" ? "Credit Note No" : "Invoice No"}: <strong>${escapeHtml(bill.invoiceNumber)}</strong></div>` : ""}
+      ${creditedRef(bill) ? `<div>${escapeHtml(creditedRef(bill))}</div>` : ""}
+      ${bill.invoiceNumber ? "" : `<div>Bill: ${escapeHtml(bill.id)}</div>`}
+      <div>Date: ${escapeHtml(formatDateTime(bill.createdAt))}</div>
+    </div>
+    <div>
+      ${bill.tableNumber ? `<div>Table: ${escapeHtml(bill.tableNumber)}</div>` : ""}
+      <div>Customer: ${escapeHtml(bill.customerName || "Guest")}</div>
+    </div>
+  </div>
+  ${itemRows
+    ? `<table>
+    <thead><tr><th>Item</th><th>HSN/SAC</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">GST</th><th class="num">Amount</th></tr></thead>
+    <tbody>${itemRows}</tbody>
+  </table>`
+    : ""}
+  <table class="totals">
+    <tr><td>${bill.pricesIncludeTax ? "Taxable value" : "Subtotal"}</td><td class="num">${money(bill.subtotal)}</td></tr>
+    ${taxRows}
+    ${bill.service ? `<tr><td>Service charge (${bill.serviceRate}%)</td><td class="num">${money(bill.service)}</td></tr>` : ""}
+    ${bill.serviceDeclined ? `<tr><td>Service charge</td><td class="num">declined</td></tr>` : ""}
+    <tr class="grand"><td>Total (₹)</td><td class="num">${money(bill.total)}</td></tr>
+  </table>
+  ${breakdownRows
+    ? `<h2>GST SUMMARY</h2>
+  <table>
+    <thead><tr><th>Rate</th><th class="num">Taxable value</th><th class="num">GST</th></tr></thead>
+    <tbody>${breakdownRows}</tbody>
+  </table>`
+    : ""}
+  ${bill.pricesIncludeTax ? `<p class="muted">Prices are inclusive of GST.</p>` : ""}
+  ${autoPrint ? "<script>window.onload = () => window.print();</script>" : ""}
+</body>
+</html>`;
+}
+
+// ---- Kitchen order ticket ----
+
+// The daily number cooks call out (#042); orders from before numbering only have their id
+const orderLabel = (order) => order.displayNumber || order.id;
+
+// On a full reprint of an order with added rounds, whether line `idx` starts a new round
+const startsRound = (order, items, idx) =>
+  !order.round && !!(order.rounds || []).length && (items[idx].round || 1) !== ((items[idx - 1] || {}).round || 1);
+
+function kotText(order, { width = 80 } = {}) {
+  const cols = paperColumns(width);
+  const out = [];
+  out.push(center("KITCHEN ORDER TICKET", cols));
+  out.push(rule(cols, "="));
+  out.push(center(`TABLE ${order.tableNumber ?? "-"}`, cols));
+  out.push(rule(cols, "="));
+  out.push(`Order: ${orderLabel(order)}`);
+  if (order.round > 1) out.push(center(`*** ROUND ${order.round} - ADDED ITEMS ***`, cols));
+  out.push(`Time: ${formatDateTime(order.createdAt)}`);
+  out.push(...wrap(`Customer: ${order.customerName || "Guest"}`, cols));
+  const allergens = describeAllergens(order.allergens);
+  if (allergens) {
+    out.push(rule(cols, "*"));
+    out.push(...wrap(`!! ALLERGY: ${allergens.toUpperCase()} !!`, cols).map((l) => center(l, cols)));
+    out.push(rule(cols, "*"));
+  }
+  out.push(rule(cols));
+  if (order.voided) out.push(center("*** ORDER VOIDED - DO NOT MAKE ***", cols), rule(cols));
+  (order.items || []).forEach((it, idx, items) => {
+    if (startsRound(order, items, idx)) out.push(`-- ROUND ${it.round || 1} --`);
+    // Voided lines stay on reprints so the cook knows to stop
+    if (it.voided) return out.push(...wrap(`VOID ${it.quantity || 1} x ${it.name}`, cols));
+    out.push(...wrap(`${String(it.quantity || 1).padStart(2)} x ${it.name}`, cols));
+    (it.modifiers || []).forEach((m) => wrap(`+ ${m.name}`, cols - 5).forEach((l) => out.push(`     ${l}`)));
+    itemNotes(it).forEach((n) => wrap(`>> ${n}`, cols - 5).forEach((l) => out.push(`     ${l}`)));
+  });
+  out.push(rule(cols));
+  [...orderNotes(order), ...roundNotes(order)].forEach((n) => out.push(...wrap(`NOTE: ${n}`, cols)));
+  return out.map(ascii).join("\n") + "\n";
+}
+
+function kotHtml(order, { autoPrint = false } = {}) {
+  const itemRows = (order.items || [])
+    .map(
+      (it, idx, items) => (startsRound(order, items, idx)
+        ? `<li class="round">Round ${it.round || 1}</li>`
+        : "") + (it.voided
+        ? `<li class="voided"><s>${it.quantity || 1} × ${escapeHtml(it.name)}</s> VOID</li>`
+        : `<li><strong>${it.quantity || 1} ×</strong> ${escapeHtml(it.name)}${(it.modifiers || [])
+        .map((m) => `<div class="modifier">+ ${escapeHtml(m.name)}</div>`)
+        .join("")}${itemNotes(it)
+        .map((n) => `<div class="note">${escapeHtml(n)}</div>`)
+        .join("")}</li>`)
+    )
+    .join("");
+  const allergens = describeAllergens(order.allergens);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>KOT ${escapeHtml(orderLabel(order))}</title>
+<style>
+  body { font-family: ui-monospace, monospace; max-width: 320px; margin: 16px auto; color: #000; }
+  h1 { font-size: 16px; text-align: center; margin: 0 0 8px; }
+  .table { font-size: 28px; font-weight: bold; text-align: center; border: 2px solid #000; padding: 4px; }
+  .meta { font-size: 12px; margin: 8px 0; }
+  ul { list-style: none; padding: 0; font-size: 16px; }
+  li { padding: 4px 0; border-bottom: 1px dashed #000; }
+  .modifier { font-size: 14px; font-weight: bold; padding-left: 24px; }
+  .note { font-size: 13px; font-style: italic; padding-left: 24px; }
+  .order-note { font-weight: bold; border: 1px solid #000; padding: 4px; }
+  .voided { color: #555; }
+  .round { font-weight: bold; text-align: center; border-bottom: 2px solid #000; }
+  .round-banner { font-size: 18px; font-weight: bold; text-align: center; background: #000; color: #fff; padding: 4px; margin: 8px 0; }
+  .voided-order { font-size: 18px; font-weight: bold; text-align: center; border: 2px dashed #000; padding: 6px; margin: 8px 0; }
+  .allergy { font-size: 18px; font-weight: bold; text-align: center; background: #000; color: #fff; padding: 6px; margin: 8px 0; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>KITCHEN ORDER TICKET</h1>
+  <div class="table">TABLE ${escapeHtml(order.tableNumber ?? "-")}</div>
+  <div class="meta">
+    <div>Order: <strong>${escapeHtml(orderLabel(order))}</strong></div>
+    <div>Time: ${escapeHtml(formatDateTime(order.createdAt))}</div>
+    <div>Customer: ${escapeHtml(order.customerName || "Guest")}</div>
+  </div>
+  ${order.round > 1 ? `<div class="round-banner">ROUND ${escapeHtml(order.round)} — ADDED ITEMS</div>` : ""}
+  ${allergens ? `<div class="allergy">ALLERGY: ${escapeHtml(allergens)}</div>` : ""}
+  ${order.voided ? `<div class="voided-order">ORDER VOIDED — DO NOT MAKE</div>` : ""}
+  <ul>${itemRows}</ul>
+  ${[...orderNotes(order), ...roundNotes(order)]
+    .map((n) => `<div class="order-note">NOTE: ${escapeHtml(n)}</div>`)
+    .join("")}
+  ${autoPrint ? "<script>window.onload = () => window.print();</script>" : ""}
+</body>
+</html>`;
+}
+
+// ---- Output encodings ----
+
+// ESC @ (initialise), the text, feed and partial cut
+function toEscPos(text) {
+  return Buffer.concat([
+    Buffer.from([0x1b, 0x40]),
+    Buffer.from(`${text}\n\n\n`, "ascii"),
+    Buffer.from([0x1d, 0x56, 0x42, 0x00]),
+  ]);
+}
+
+// Single-page PDF in Courier sized like the thermal roll
+function toPdf(text, { width = 80 } = {}) {
+  const lines = text.replace(/\n$/, "").split("\n");
+  const cols = paperColumns(width);
+  const pageWidth = PAPER_WIDTH_PT[width] || PAPER_WIDTH_PT[80];
+  const margin = 8;
+  // Courier glyphs are 0.6em wide
+  const fontSize = Math.floor(((pageWidth - margin * 2) / (cols * 0.6)) * 10) / 10;
+  const leading = Math.round(fontSize * 1.25 * 10) / 10;
+  const pageHeight = Math.ceil(lines.length * leading + margin * 2);
+  const escapePdf = (s) => ascii(s).replace(/[\\()]/g, (c) => `\\${c}`);
+
+  const content = [
+    "BT",
+    `/F1 ${fontSize} Tf`,
+    `${leading} TL`,
+    `${margin} ${pageHeight - margin - fontSize} Td`,
+    ...lines.map((l) => `(${escapePdf(l)}) Tj T*`),
+    "ET",
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "ascii")} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = Buffer.byteLength(pdf, "ascii");
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf, "ascii");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "ascii");
+}
+
+// Send a document in the requested format; `renderText` and `renderHtml` build the content
+function sendDocument(res, { format = "html", width = 80, filename, autoPrint = false }, renderText, renderHtml) {
+  const paper = Number(width) === 58 ? 58 : 80;
+  switch (format) {
+    case "text":
+      return res.type("text/plain; charset=utf-8").send(renderText({ width: paper }));
+    case "escpos":
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.bin"`);
+      return res.type("application/octet-stream").send(toEscPos(renderText({ width: paper })));
+    case "pdf":
+      res.setHeader("Content-Disposition", `inline; filename="${filename}.pdf"`);
+      return res.type("application/pdf").send(toPdf(renderText({ width: paper }), { width: paper }));
+    default:
+      return res.type("html").send(renderHtml({ autoPrint }));
+  }
+}
+
+module.exports = { FORMATS, invoiceText, invoiceHtml, kotText, kotHtml, toEscPos, toPdf, sendDocument };
@@ -0,0 +1,104 @@
+// Server-Sent Events hub used to push order/bill changes to connected clients
+// (kitchen dashboard, customer app) instead of having them poll the REST API.
+//
+// Each subscriber has a view: (type, payload) => payload to send, or null to skip the event.
+// Staff see everything; a diner's view only passes their own orders and table session.
+
+const { dinerSession } = require("./sessions");
+
+const clients = new Set();
+let nextEventId = 1;
+
+// Keep idle connections alive through proxies that drop silent streams
+const HEARTBEAT_MS = 25000;
+
+// Diner streams follow at most this many orders
+const MAX_DINER_ORDERS = 20;
+
+const everything = (type, payload) => payload;
+
+// Drops who did it from a history entry, bump, void or round
+const withoutActor = (record) => {
+  if (!record) return record;
+  const { actor, ...rest } = record;
+  return rest;
+};
+
+// An order as a diner sees it: no phone number and no staff names in the history, on bumped or
+// voided lines, on the order's void or on its rounds
+const dinerOrder = (order) => ({
+  ...order,
+  phone: undefined,
+  statusHistory: (order.statusHistory || []).map(withoutActor),
+  voided: withoutActor(order.voided),
+  items: (order.items || []).map((it) => ({ ...it, bumped: withoutActor(it.bumped), voided: withoutActor(it.voided) })),
+  rounds: order.rounds && order.rounds.map(withoutActor),
+});
+
+// A bill as a diner sees it: no staff names on its payments, its credit note, the tax rules it
+// was priced under or lines bumped before bills stopped copying that
+const dinerBill = (bill) => ({
+  ...bill,
+  items: (bill.items || []).map((it) => ({ ...it, bumped: withoutActor(it.bumped) })),
+  taxConfig: bill.taxConfig && { ...bill.taxConfig, updatedBy: undefined },
+  payments: (bill.payments || []).map(withoutActor),
+  creditNote: withoutActor(bill.creditNote),
+  credit: withoutActor(bill.credit),
+});
+
+// View for a diner following `orderIds`: their orders' status, line and round changes, and
+// the running total of the table session they belong to (without the other diners' orders)
+function dinerView(orderIds) {
+  const own = new Set(orderIds);
+  return (type, payload) => {
+    if (type === "order.status_changed" || type === "order.updated" || type === "order.round_added") {
+      return own.has(payload.order.id) ? { ...payload, order: dinerOrder(payload.order) } : null;
+    }
+    if (type === "session.updated") {
+      const session = dinerSession(payload.session, orderIds);
+      return session.orderIds.length ? { session } : null;
+    }
+    return null;
+  };
+}
+
+// Holds the response open and registers it as a subscriber with the given view
+function subscribe(req, res, view = everything) {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+  // Tell EventSource how long to wait before its own reconnect attempt
+  res.write("retry: 3000\n\n");
+
+  const client = { res, view };
+  clients.add(client);
+
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+}
+
+// Send an event to every connected client whose view lets it through. `type` is used as the SSE event name.
+function broadcast(type, payload) {
+  const id = nextEventId++;
+  const emittedAt = Date.now();
+  clients.forEach(({ res, view }) => {
+    const shown = view(type, payload);
+    if (!shown) return;
+    try {
+      res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify({ type, ...shown, emittedAt })}\n\n`);
+    } catch (e) {
+      console.warn("Failed to write SSE event:", e && e.message ? e.message : e);
+    }
+  });
+}
+
+module.exports = { MAX_DINER_ORDERS, dinerOrder, dinerBill, dinerView, subscribe, broadcast };
@@ -0,0 +1,112 @@
+// The diner stream and the bills diners read must not leak staff identity or other diners' details.
+//
+//   npm test
+
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const events = require("./events");
+const orderStatus = require("./orderStatus");
+const stations = require("./stations");
+const voids = require("./voids");
+const rounds = require("./rounds");
+const sessions = require("./sessions");
+const payments = require("./payments");
+
+const chef = { id: "staff-1", name: "Asha", role: "kitchen" };
+const manager = { id: "staff-2", name: "Ravi", role: "manager" };
+
+// A PREPARING order with one bumped line, one voided line and a second round, all done by staff
+function workedOrder() {
+  const order = {
+    id: "ORD-1",
+    status: "PENDING",
+    phone: "919876543210",
+    customerName: "Meera",
+    items: [
+      { id: "snack-1", name: "Samosa", price: 20, quantity: 1, station: "kitchen" },
+      { id: "tea-1", name: "Masala Chai", price: 20, quantity: 1, station: "beverage" },
+    ],
+    totalAmount: 40,
+    createdAt: Date.now(),
+  };
+  orderStatus.initHistory(order, { name: "Meera", role: "customer" });
+  orderStatus.applyTransition(order, "PREPARING", chef);
+  assert.ok(stations.bumpLine(order, 0, chef).item);
+  assert.ok(voids.voidLine(order, 1, { reason: "OUT_OF_STOCK" }, manager).item);
+  rounds.addRound(order, { items: [{ id: "snack-2", name: "Vada Pav", price: 30, quantity: 1, station: "kitchen" }], totalAmount: 30 }, chef);
+  return order;
+}
+
+// Every `actor` anywhere in a payload
+const actorsIn = (value) =>
+  value && typeof value === "object"
+    ? Object.entries(value).flatMap(([key, v]) => (key === "actor" && v !== undefined ? [v] : actorsIn(v)))
+    : [];
+
+describe("diner view", () => {
+  const view = events.dinerView(["ORD-1"]);
+
+  it("passes the diner's own order without staff names or the phone number", () => {
+    const order = workedOrder();
+    assert.ok(actorsIn(order).length > 0);
+
+    for (const type of ["order.status_changed", "order.updated", "order.round_added"]) {
+      const shown = JSON.parse(JSON.stringify(view(type, { orderId: order.id, order })));
+      assert.deepEqual(actorsIn(shown), [], type);
+      assert.ok(!("phone" in shown.order), type);
+      assert.ok(!JSON.stringify(shown).includes("Asha") && !JSON.stringify(shown).includes("Ravi"), type);
+    }
+  });
+
+  it("keeps what the diner needs to follow the order", () => {
+    const order = workedOrder();
+    const { order: shown } = view("order.updated", { orderId: order.id, order });
+    assert.equal(shown.status, "PREPARING");
+    assert.ok(shown.items[0].bumped.at);
+    assert.equal(shown.items[1].voided.reason, "OUT_OF_STOCK");
+    assert.deepEqual(shown.rounds.map((r) => r.number), [2]);
+    assert.equal(order.items[0].bumped.actor, chef);
+  });
+
+  it("skips other diners' orders", () => {
+    const order = { ...workedOrder(), id: "ORD-2" };
+    assert.equal(view("order.updated", { orderId: order.id, order }), null);
+  });
+
+  it("shows the table session without the other orders", () => {
+    const session = { id: "SES-1", tableNumber: 4, status: "OPEN", billId: null, orderIds: ["ORD-1", "ORD-2"], orders: [workedOrder()], orderCount: 2, runningTotal: 90 };
+    const shown = view("session.updated", { session });
+    assert.deepEqual(shown.session.orderIds, ["ORD-1"]);
+    assert.deepEqual(shown.session.orders, []);
+    assert.equal(shown.session.runningTotal, 90);
+    assert.equal(view("session.updated", { session: { ...session, orderIds: ["ORD-2"] } }), null);
+  });
+});
+
+describe("diner bill", () => {
+  it("builds bill lines without the kitchen's bumps and stations", () => {
+    const lines = sessions.mergeLineItems([workedOrder()]);
+    assert.deepEqual(lines.map((it) => it.name), ["Samosa", "Vada Pav"]);
+    assert.deepEqual(actorsIn(lines), []);
+    lines.forEach((it) => assert.deepEqual(Object.keys(it).sort(), ["basePrice", "id", "modifiers", "name", "notes", "price", "quantity"]));
+  });
+
+  it("drops staff names from payments, the credit note and the tax rules", () => {
+    const bill = {
+      id: "BILL-1",
+      total: 50,
+      items: [{ id: "snack-1", name: "Samosa", price: 20, quantity: 1, bumped: { at: 1, actor: chef } }],
+      taxConfig: { defaultGstRate: 5, updatedBy: manager },
+      payments: [{ id: "PAY-1", tender: "CASH", amount: 50, status: "CAPTURED", actor: chef }],
+      creditNote: { id: "CN-1", reason: "BILLING_ERROR", at: 2, actor: manager },
+    };
+    payments.updatePaymentStatus(bill);
+    const shown = JSON.parse(JSON.stringify(events.dinerBill(bill)));
+    assert.deepEqual(actorsIn(shown), []);
+    assert.ok(!JSON.stringify(shown).includes("Asha") && !JSON.stringify(shown).includes("Ravi"));
+    assert.equal(shown.payments[0].amount, 50);
+    assert.equal(shown.creditNote.reason, "BILLING_ERROR");
+    assert.equal(shown.taxConfig.defaultGstRate, 5);
+    assert.equal(bill.payments[0].actor, chef);
+  });
+});
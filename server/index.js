@@ -1,11 +1,8 @@
-const express = require("express");
-const cors = require("cors");
-const { v4: uuidv4 } = require("uuid");
-const { menuData } = require("./data");
 const path = require("path");
 const fs = require("fs");
 
-// Load .env from server/.env when present (local dev convenience)
+// Load .env from server/.env when present (local dev convenience), before the modules
+// below read their settings from process.env
 try {
   const dotenv = require("dotenv");
   const envPath = path.join(__dirname, ".env");
@@ -17,6 +14,35 @@ try {
   // ignore if dotenv not installed — handled by package.json
 }
 
+const express = require("express");
+const cors = require("cors");
+const { v4: uuidv4 } = require("uuid");
+const { menuData } = require("./data");
+const events = require("./events");
+const orderStatus = require("./orderStatus");
+const tableSessions = require("./sessions");
+const billing = require("./billing");
+const taxConfig = require("./taxConfig");
+const prepTimes = require("./prepTimes");
+const orderHistory = require("./orderHistory");
+const creditNotes = require("./creditNotes");
+const payments = require("./payments");
+const documents = require("./documents");
+const modifiers = require("./modifiers");
+const orderNotes = require("./orderNotes");
+const pricing = require("./pricing");
+const voids = require("./voids");
+const rounds = require("./rounds");
+const stations = require("./stations");
+const inventory = require("./inventory");
+const repositories = require("./repositories");
+const sequences = require("./sequences");
+const auth = require("./auth");
+const staffDirectory = require("./staff");
+const tableRegistry = require("./tables");
+const tableLinks = require("./tableLinks");
+const QRCode = require("qrcode");
+
 const app = express();
 const PORT = process.env.PORT || 4001;
 
@@ -25,6 +51,7 @@ app.use(cors({
   credentials: true
 }));
 app.use(express.json());
+app.use(auth.authenticate);
 
 // Session setup for OAuth
 const session = require('express-session');
@@ -73,9 +100,25 @@ if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
   console.warn("GOOGLE_CLIENT_ID or GOOGLE_CLIENT_SECRET not found. Google OAuth disabled.");
 }
 
-// In-memory stores (reset on restart)
+// Working copies of the stored orders, bills and sessions; loaded from `store` at startup and
+// written back through saveOrder / saveBill / saveSession on every change
 const orders = [];
 const bills = [];
+const sessions = [];
+let store = null;
+let numbering = null;
+let currentTaxConfig = { ...taxConfig.DEFAULT_TAX_CONFIG };
+let taxConfigLoaded = false;
+let currentPrepTargets = { ...prepTimes.DEFAULT_PREP_TARGETS };
+let prepTargetsLoaded = false;
+let staffMembers = [];
+let staffLoaded = false;
+let tables = [];
+let retiredTables = []; // tombstones of deleted tables, see tables.js
+let tablesLoaded = false;
+let ingredients = [];
+let recipes = [];
+let inventoryLoaded = false;
 
 // MongoDB integration (enabled when USE_MONGO=true)
 let useMongo = false;
@@ -107,24 +150,324 @@ try {
   console.warn("MongoDB init error, falling back to in-memory:", e && e.message ? e.message : e);
 }
 
-// GET /menu - return available menu
-app.get("/menu", async (req, res) => {
-  // If using Mongo, read menu items from DB and group by category
-  if (useMongo && mongoDb) {
+// Persist a table session and push its running total to connected clients
+async function saveSession(tableSession) {
+  try { await store.sessions.save(tableSession); } catch (e) { console.warn("Failed to persist session:", e && e.message ? e.message : e); }
+  events.broadcast("session.updated", { session: tableSessions.summarizeSession(tableSession, orders) });
+}
+
+// Tax rules are the "tax" document in the store's "settings" collection; read once, then cached
+async function getTaxConfig() {
+  if (!taxConfigLoaded && store) {
     try {
-      const items = await mongoDb.collection("menu").find({}).toArray();
-      const grouped = {};
-      (items || []).forEach((it) => {
-        const category = it.category || "Uncategorized";
-        if (!grouped[category]) grouped[category] = [];
-        grouped[category].push({ id: it._id || it.id, name: it.name, price: it.price, available: typeof it.available === 'boolean' ? it.available : true, category });
-      });
-      return res.json(grouped);
+      const doc = await store.settings.get("tax");
+      if (doc) {
+        const { id, ...stored } = doc;
+        const { config } = taxConfig.normalizeTaxConfig(stored);
+        if (config) currentTaxConfig = { ...config, updatedAt: stored.updatedAt || null, updatedBy: stored.updatedBy || null };
+      }
+      taxConfigLoaded = true;
     } catch (e) {
-      console.warn("Failed to load menu from MongoDB, falling back to in-memory", e);
+      console.warn("Failed to load tax settings:", e && e.message ? e.message : e);
+    }
+  }
+  return currentTaxConfig;
+}
+
+// Prep-time targets sit next to the tax rules as the "prep-times" settings document; read once, then cached
+async function getPrepTargets() {
+  if (!prepTargetsLoaded && store) {
+    try {
+      const doc = await store.settings.get("prep-times");
+      if (doc) {
+        const { id, ...stored } = doc;
+        const { config } = prepTimes.normalizePrepTargets(stored);
+        if (config) currentPrepTargets = { ...config, updatedAt: stored.updatedAt || null, updatedBy: stored.updatedBy || null };
+      }
+      prepTargetsLoaded = true;
+    } catch (e) {
+      console.warn("Failed to load prep-time targets:", e && e.message ? e.message : e);
+    }
+  }
+  return currentPrepTargets;
+}
+
+// Staff directory lives in the store's "staff" collection; read once, then kept in memory
+async function getStaff() {
+  if (!staffLoaded && store) {
+    try {
+      staffMembers = await store.staff.all();
+      staffLoaded = true;
+    } catch (e) {
+      console.warn("Failed to load staff:", e && e.message ? e.message : e);
+    }
+  }
+  return staffMembers;
+}
+
+async function saveStaffMember(member) {
+  const idx = staffMembers.findIndex((m) => m.id === member.id);
+  if (idx === -1) staffMembers.push(member);
+  else staffMembers[idx] = member;
+  try { await store.staff.save(member); } catch (e) { console.warn("Failed to persist staff member:", e && e.message ? e.message : e); }
+}
+
+// Table registry lives in the store's "tables" collection, keyed by tableNumber; read once, then kept
+// in memory. The registry carries each table's QR link version, so rotated links stay rejected
+// after a restart; deleted tables stay behind as tombstones so their links stay rejected too.
+// An empty registry starts as tables 1..TABLE_COUNT (default 40).
+async function getTables() {
+  if (!tablesLoaded && store) {
+    try {
+      const docs = (await store.tables.all()).map(({ id, ...doc }) => doc);
+      retiredTables = docs.filter((doc) => doc.deleted);
+      // Tables saved before the registry only had their QR link details
+      tables = docs
+        .filter((doc) => !doc.deleted)
+        .map((table) => ({ label: `Table ${table.tableNumber}`, area: "indoor", seats: 4, active: true, ...table }))
+        .sort((a, b) => a.tableNumber - b.tableNumber);
+      if (tables.length === 0) {
+        tables = tableRegistry.defaultTables(parseInt(process.env.TABLE_COUNT, 10) || undefined, retiredTables);
+        for (const table of tables) await store.tables.save({ ...table, id: table.tableNumber });
+      }
+      tablesLoaded = true;
+    } catch (e) {
+      console.warn("Failed to load tables:", e && e.message ? e.message : e);
+    }
+  }
+  if (tables.length === 0) tables = tableRegistry.defaultTables(parseInt(process.env.TABLE_COUNT, 10) || undefined, retiredTables);
+  return tables;
+}
+
+async function saveTable(table) {
+  const idx = tables.findIndex((t) => t.tableNumber === table.tableNumber);
+  if (idx === -1) tables = [...tables, table].sort((a, b) => a.tableNumber - b.tableNumber);
+  else tables[idx] = table;
+  // A re-added table replaces its tombstone; it already starts above the tombstone's link version
+  retiredTables = retiredTables.filter((t) => t.tableNumber !== table.tableNumber);
+  try { await store.tables.save({ ...table, id: table.tableNumber }); } catch (e) { console.warn("Failed to persist table:", e && e.message ? e.message : e); }
+}
+
+// The table's document is replaced by a tombstone that remembers its last QR link version
+async function deleteTable(tableNumber) {
+  const table = tables.find((t) => t.tableNumber === tableNumber);
+  tables = tables.filter((t) => t.tableNumber !== tableNumber);
+  if (!table) return;
+  const retired = tableRegistry.tombstone(table);
+  retiredTables = [...retiredTables, retired];
+  try { await store.tables.save({ ...retired, id: tableNumber }); } catch (e) { console.warn("Failed to delete table:", e && e.message ? e.message : e); }
+}
+
+// Ingredients and recipes live in the store's "ingredients" and "recipes" collections; read once,
+// then kept in memory. Recipes are keyed by their menu item.
+async function getInventory() {
+  if (!inventoryLoaded && store) {
+    try {
+      const [ingredientDocs, recipeDocs] = await Promise.all([store.ingredients.all(), store.recipes.all()]);
+      ingredients = ingredientDocs;
+      recipes = recipeDocs.map(({ id, ...recipe }) => ({ ...recipe, menuItemId: recipe.menuItemId || id }));
+      inventoryLoaded = true;
+    } catch (e) {
+      console.warn("Failed to load inventory:", e && e.message ? e.message : e);
+    }
+  }
+  return { ingredients, recipes };
+}
+
+async function saveIngredient(ingredient) {
+  const idx = ingredients.findIndex((i) => i.id === ingredient.id);
+  if (idx === -1) ingredients.push(ingredient);
+  else ingredients[idx] = ingredient;
+  try { await store.ingredients.save(ingredient); } catch (e) { console.warn("Failed to persist ingredient:", e && e.message ? e.message : e); }
+}
+
+// An empty recipe is removed
+async function saveRecipe(recipe) {
+  recipes = recipes.filter((r) => r.menuItemId !== recipe.menuItemId);
+  if (recipe.lines.length) recipes.push(recipe);
+  try {
+    if (recipe.lines.length) await store.recipes.save({ ...recipe, id: recipe.menuItemId });
+    else await store.recipes.remove(recipe.menuItemId);
+  } catch (e) {
+    console.warn("Failed to persist recipe:", e && e.message ? e.message : e);
+  }
+}
+
+// Switch menu items with a recipe off when they can't be made and back on once restocked.
+// Returns the changes as [{ id, name, available }].
+async function syncMenuAvailability() {
+  const { ingredients: stock, recipes: allRecipes } = await getInventory();
+  const menuItems = Array.from((await loadMenuIndex()).values());
+  const changes = inventory.availabilityChanges(menuItems, allRecipes, stock);
+  for (const { id, available } of changes) {
+    const pos = findMenuItem(id);
+    if (!pos) continue;
+    menuData[pos.category][pos.index] = { ...menuData[pos.category][pos.index], available, autoUnavailable: !available };
+    await saveMenuItem(menuData[pos.category][pos.index], pos.category);
+  }
+  return changes.map((c) => ({ ...c, name: (menuItems.find((it) => it.id === c.id) || {}).name || c.id }));
+}
+
+// Run a stock change (`change(ingredients, recipes)` returns the ingredients it touched), persist it,
+// re-check menu availability and tell the kitchen what ran low or out
+async function updateStock(change) {
+  const { ingredients: stock, recipes: allRecipes } = await getInventory();
+  const wasLow = new Set(stock.filter(inventory.isLow).map((i) => i.id));
+  const changed = change(stock, allRecipes) || [];
+  for (const ingredient of changed) await saveIngredient(ingredient);
+  const menuChanges = await syncMenuAvailability();
+  if (changed.length || menuChanges.length) {
+    events.broadcast("inventory.updated", {
+      ingredients: changed.map(inventory.publicIngredient),
+      lowStock: changed.filter((i) => inventory.isLow(i) && !wasLow.has(i.id)).map(inventory.publicIngredient),
+      menuChanges,
+    });
+  }
+  return changed;
+}
+
+// Base URL of the customer app for QR links: the manager page sends its own origin
+const appBaseUrl = (req) => {
+  const candidate = req.query.baseUrl || process.env.PUBLIC_APP_URL || "http://localhost:5173";
+  return /^https?:\/\/[^\s]+$/.test(candidate) ? candidate : null;
+};
+
+// Whether the request carries the current QR link token of table `tableNumber` (body.tableToken)
+async function holdsTableLink(req, tableNumber) {
+  const link = tableLinks.verifyTableToken(req.body && req.body.tableToken, await getTables());
+  return !link.error && link.tableNumber === Number(tableNumber);
+}
+
+// Whether the caller may act for the diner who placed `order`: staff, the signed-in customer whose
+// phone is on it, or, for diners who didn't sign in, whoever holds the QR link of its table
+async function actsForDiner(req, order) {
+  if (auth.hasRole(req.user, "kitchen")) return true;
+  if (order.phone) return !!req.user && req.user.phone === order.phone;
+  return !!order.tableNumber && (await holdsTableLink(req, order.tableNumber));
+}
+
+// Bill line with the category and HSN code it has on the menu (the line's own values win)
+function withMenuDetails(item) {
+  const pos = findMenuItem(item.id);
+  const menuItem = pos ? menuData[pos.category][pos.index] : {};
+  return { ...item, category: item.category || (pos && pos.category) || null, hsn: item.hsn || menuItem.hsn || null };
+}
+
+// Current menu as a Map of id -> item
+async function loadMenuIndex() {
+  return new Map(Object.entries(menuData).flatMap(([category, items]) => items.map((it) => [it.id, { ...it, category }])));
+}
+
+// 400 with one entry per rejected line, so the customer app can mark each cart row
+const pricingError = (res, errors) =>
+  res.status(400).json({ success: false, message: errors.length === 1 ? errors[0].message : `${errors.length} items could not be ordered`, errors });
+
+async function saveBill(bill) {
+  try { await store.bills.save(bill); } catch (e) { console.warn("Failed to persist bill:", e && e.message ? e.message : e); }
+}
+
+// Bills and credit notes that took an invoice number must reach the store before anyone sees them,
+// so unlike saveBill the error is passed on and the request fails; the skipped number is logged
+async function saveNumberedBill(bill) {
+  try {
+    await store.bills.save(bill);
+  } catch (e) {
+    console.error(`Failed to persist ${bill.invoiceNumber}; that number is skipped:`, e && e.message ? e.message : e);
+    throw e;
+  }
+}
+
+async function saveOrder(order) {
+  try { await store.orders.save(order); } catch (e) { console.warn("Failed to persist order:", e && e.message ? e.message : e); }
+}
+
+// Menu items are stored flat, each with its category
+async function saveMenuItem(item, category) {
+  try { await store.menu.save({ ...item, category }); } catch (e) { console.warn("Failed to persist menu item:", e && e.message ? e.message : e); }
+}
+
+async function removeMenuItem(id) {
+  try { await store.menu.remove(id); } catch (e) { console.warn("Failed to delete menu item:", e && e.message ? e.message : e); }
+}
+
+async function findOrder(id) {
+  return orders.find((o) => o.id === id) || null;
+}
+
+async function findBill(id) {
+  return bills.find((b) => b.id === id) || null;
+}
+
+// Reverse `bill` with a credit note from its own number series, refund what was paid on it and
+// tell connected clients. The bill and its shares are only changed once the credit note is saved;
+// throws (leaving them as they were) when it can't be.
+async function issueCreditNote(bill, credit, actor) {
+  const createdAt = Date.now();
+  const shares = bills.filter((b) => (bill.splitIds || []).includes(b.id));
+  const [billDraft, ...shareDrafts] = structuredClone([bill, ...shares]);
+  const creditNote = creditNotes.creditBill(billDraft, credit, orderStatus.normalizeActor(actor), {
+    id: sequences.newId("CN"),
+    invoiceNumber: await numbering.nextInvoiceNumber(creditNotes.CREDIT_NOTE_PREFIX, createdAt),
+    createdAt,
+  });
+  creditNote.payments = payments.refundPayments([billDraft, ...shareDrafts], creditNote.credit.actor, createdAt);
+  await saveNumberedBill(creditNote);
+  Object.assign(bill, billDraft);
+  shares.forEach((share, i) => Object.assign(share, shareDrafts[i]));
+  bills.push(creditNote);
+  await saveBill(bill);
+  for (const share of shares) await saveBill(share);
+  events.broadcast("bill.credited", { bill, creditNote });
+  return creditNote;
+}
+
+// Save a bill after a payment changed, roll a split share up into its parent, and close the
+// table session once the bill it owes is fully paid
+async function settleBill(bill, payment) {
+  payments.updatePaymentStatus(bill);
+  await saveBill(bill);
+  const parent = bill.parentBillId ? await findBill(bill.parentBillId) : null;
+  if (parent) {
+    payments.updatePaymentStatus(parent, bills.filter((b) => (parent.splitIds || []).includes(b.id)));
+    await saveBill(parent);
+  }
+  const owing = parent || bill;
+  const tableSession = owing.sessionId ? sessions.find((x) => x.id === owing.sessionId) : null;
+  if (owing.paymentStatus === "PAID" && tableSession && tableSession.status === "BILLED" && tableSession.billId === owing.id) {
+    tableSession.status = "CLOSED";
+    tableSession.closedAt = Date.now();
+    await saveSession(tableSession);
+  }
+  events.broadcast("bill.payment", { bill, payment });
+}
+
+// Load everything from the store into the working copies. An empty menu is seeded from data.js.
+async function openStore() {
+  store = repositories.createStore({ mongoDb: useMongo ? mongoDb : null, dataDir: process.env.DATA_DIR || undefined });
+  const [storedMenu, storedOrders, storedBills, storedSessions] = await Promise.all(
+    [store.menu, store.orders, store.bills, store.sessions].map((repo) => repo.all())
+  );
+  numbering = sequences.createSequences(store.counters);
+  orders.push(...storedOrders.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0)));
+  bills.push(...storedBills.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0)));
+  sessions.push(...storedSessions.sort((a, b) => (a.openedAt || 0) - (b.openedAt || 0)));
+  if (storedMenu.length) {
+    Object.keys(menuData).forEach((category) => delete menuData[category]);
+    storedMenu.forEach((item) => {
+      const category = item.category || "Uncategorized";
+      if (!menuData[category]) menuData[category] = [];
+      menuData[category].push(item);
+    });
+  } else {
+    for (const [category, items] of Object.entries(menuData)) {
+      for (const item of items) await store.menu.save({ ...item, category });
     }
   }
+  console.log(`Loaded ${orders.length} orders, ${bills.length} bills and ${sessions.length} sessions from the ${store.kind} store (${store.location})`);
+}
 
+// GET /menu - return available menu
+app.get("/menu", async (req, res) => {
   // Ensure each item includes an 'available' flag (default true) for clients
   const normalized = {};
   Object.entries(menuData).forEach(([cat, items]) => {
@@ -133,7 +476,7 @@ app.get("/menu", async (req, res) => {
   res.json(normalized);
 });
 
-// Menu management endpoints (in-memory, optional MongoDB persistence)
+// Menu management endpoints (written through to the store)
 const findMenuItem = (id) => {
   for (const cat of Object.keys(menuData)) {
     const idx = menuData[cat].findIndex((i) => i.id === id);
@@ -142,136 +485,461 @@ const findMenuItem = (id) => {
   return null;
 };
 
-app.post("/menu", async (req, res) => {
-  const { id, name, category, price, available } = req.body;
+const isHsnCode = (code) => /^[0-9]{4,8}$/.test(String(code));
+
+app.post("/menu", auth.requireRole("manager"), async (req, res) => {
+  const { id, name, category, price, available, hsn } = req.body;
   if (!name || !category || typeof price !== "number") return res.status(400).json({ success: false, message: "Invalid item" });
+  if (hsn && !isHsnCode(hsn)) return res.status(400).json({ success: false, message: "HSN/SAC code must be 4 to 8 digits" });
+  const { groups: modifierGroups, error } = modifiers.normalizeModifierGroups(req.body.modifierGroups);
+  if (error) return res.status(400).json({ success: false, message: error });
   const newId = id || `item-${Date.now()}`;
   if (!menuData[category]) menuData[category] = [];
-  const item = { id: newId, name, category, price, available: available ?? true };
+  const item = { id: newId, name, category, price, available: available ?? true, hsn: hsn || null, modifierGroups };
   menuData[category].push(item);
-  if (useMongo && mongoDb) {
-    try {
-      await mongoDb.collection("menu").updateOne({ _id: item.id }, { $set: { ...item, _id: item.id } }, { upsert: true });
-    } catch (e) {
-      console.warn("Failed to persist menu item to MongoDB:", e && e.message ? e.message : e);
-    }
-  }
+  await saveMenuItem(item, category);
   res.json({ success: true, item });
 });
 
-app.put("/menu/:id", async (req, res) => {
+app.put("/menu/:id", auth.requireRole("manager"), async (req, res) => {
   const { id } = req.params;
   const pos = findMenuItem(id);
   if (!pos) return res.status(404).json({ success: false, message: "Item not found" });
-  const { name, category, price, available } = req.body;
+  const { name, category, price, available, hsn } = req.body;
+  if (hsn && !isHsnCode(hsn)) return res.status(400).json({ success: false, message: "HSN/SAC code must be 4 to 8 digits" });
   const old = menuData[pos.category][pos.index];
+  const { groups: modifierGroups, error } = req.body.modifierGroups !== undefined
+    ? modifiers.normalizeModifierGroups(req.body.modifierGroups)
+    : { groups: old.modifierGroups || [] };
+  if (error) return res.status(400).json({ success: false, message: error });
+  // Toggling availability by hand takes the item out of automatic stock control until it runs out again
+  const autoUnavailable = available !== undefined && available !== old.available ? false : !!old.autoUnavailable;
   // remove from old category if category changed
   if (category && category !== pos.category) {
     menuData[pos.category].splice(pos.index, 1);
     if (!menuData[category]) menuData[category] = [];
-    const updated = { id, name: name ?? old.name, category, price: typeof price === 'number' ? price : old.price, available: available ?? old.available };
+    const updated = { id, name: name ?? old.name, category, price: typeof price === 'number' ? price : old.price, available: available ?? old.available, autoUnavailable, hsn: hsn !== undefined ? hsn || null : old.hsn || null, modifierGroups };
     menuData[category].push(updated);
-
+    await saveMenuItem(updated, category);
     return res.json({ success: true, item: updated });
   }
   // update in-place
-  const updated = { ...old, name: name ?? old.name, price: typeof price === 'number' ? price : old.price, available: available ?? old.available };
+  const updated = { ...old, name: name ?? old.name, price: typeof price === 'number' ? price : old.price, available: available ?? old.available, autoUnavailable, hsn: hsn !== undefined ? hsn || null : old.hsn || null, modifierGroups };
   menuData[pos.category][pos.index] = updated;
-
+  await saveMenuItem(updated, pos.category);
   res.json({ success: true, item: updated });
 });
 
-app.delete("/menu/:id", async (req, res) => {
+app.delete("/menu/:id", auth.requireRole("manager"), async (req, res) => {
   const { id } = req.params;
   const pos = findMenuItem(id);
   if (!pos) return res.status(404).json({ success: false, message: "Item not found" });
   const removed = menuData[pos.category].splice(pos.index, 1)[0];
-  if (useMongo && mongoDb) {
-    try { await mongoDb.collection("menu").deleteOne({ _id: id }); } catch (e) { console.warn("Failed to delete menu item in MongoDB:", e && e.message ? e.message : e); }
-  }
+  await removeMenuItem(id);
   res.json({ success: true, item: removed });
 });
 
-// GET /orders - list orders
-app.get("/orders", async (req, res) => {
-  if (useMongo && mongoDb) {
-    try {
-      const docs = await mongoDb.collection("orders").find({}).toArray();
-      const mapped = (docs || []).map((d) => ({ id: d._id || d.id, tableNumber: d.tableNumber, customerName: d.customerName, items: d.items, totalAmount: d.totalAmount, status: d.status, createdAt: d.createdAt || d.timestamp || Date.now() }));
-      return res.json(mapped);
-    } catch (e) {
-      console.warn("Failed to load orders from MongoDB, falling back to in-memory", e);
-    }
+// GET /orders - list orders (?scope=open leaves out completed and cancelled ones)
+app.get("/orders", auth.requireRole("kitchen"), async (req, res) => {
+  res.json(req.query.scope === "open" ? orders.filter(orderHistory.isOpen) : orders);
+});
+
+// GET /orders/history - newest-first page of orders (?from&to&status&table&q&limit&cursor)
+app.get("/orders/history", auth.requireRole("kitchen"), (req, res) => {
+  const parsed = orderHistory.parseHistoryQuery(req.query);
+  if (parsed.error) return res.status(400).json({ success: false, message: parsed.error });
+  res.json(orderHistory.searchOrders(orders, parsed.filters));
+});
+
+// GET /events?token=<access token> - kitchen: Server-Sent Events stream of every order/bill change
+app.get("/events", auth.authenticateQuery, auth.requireRole("kitchen"), (req, res) => events.subscribe(req, res));
+
+// Order ids a diner names in `?orders=ORD-1,ORD-2`
+const followedOrderIds = (req) => String(req.query.orders || "").split(",").map((id) => id.trim()).filter(Boolean);
+
+// A session for the caller: staff get every order at the table, anyone else only the diner view
+// for the orders they name in `?orders=`, and a 404 unless one of those orders is in the session
+function sessionFor(req, res, tableSession) {
+  const summary = tableSessions.summarizeSession(tableSession, orders);
+  if (auth.hasRole(req.user, "kitchen")) return res.json(summary);
+  const session = tableSessions.dinerSession(summary, followedOrderIds(req));
+  if (!session.orderIds.length) return res.status(404).json({ success: false, message: "Session not found" });
+  res.json(session);
+}
+
+// GET /events/diner?orders=ORD-1,ORD-2 - a diner's stream, limited to their own orders and table session
+app.get("/events/diner", (req, res) => {
+  const orderIds = followedOrderIds(req);
+  if (!orderIds.length) return res.status(400).json({ success: false, message: "orders is required" });
+  if (orderIds.length > events.MAX_DINER_ORDERS) {
+    return res.status(400).json({ success: false, message: `At most ${events.MAX_DINER_ORDERS} orders can be followed` });
   }
-  res.json(orders);
+  events.subscribe(req, res, events.dinerView(orderIds));
 });
 
 // Diagnostic endpoint removed — use MongoDB health checks instead if needed
 
-// GET /orders/:id - get single order
-app.get("/orders/:id", (req, res) => {
-  (async () => {
-    const id = req.params.id;
-    if (useMongo && mongoDb) {
-      try {
-        const doc = await mongoDb.collection("orders").findOne({ _id: id });
-        if (!doc) return res.status(404).json({ success: false, message: "Order not found" });
-        return res.json({ id: doc._id || doc.id, ...doc });
-      } catch (e) {
-        console.warn("Failed to load order from MongoDB:", e);
-      }
-    }
-    const order = orders.find((o) => o.id === id);
-    if (!order) return res.status(404).json({ success: false, message: "Order not found" });
-    res.json(order);
-  })();
+// GET /orders/:id - get single order (diners get it without the phone number or staff names)
+app.get("/orders/:id", async (req, res) => {
+  const order = await findOrder(req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  res.json(auth.hasRole(req.user, "kitchen") ? order : events.dinerOrder(order));
+});
+
+// GET /orders/:id/kot - printable kitchen order ticket (?format=html|pdf|text|escpos&width=58|80&round=N)
+app.get("/orders/:id/kot", async (req, res) => {
+  const order = await findOrder(req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  const { format = "html", width, print, round } = req.query;
+  if (!documents.FORMATS.includes(format)) return res.status(400).json({ success: false, message: `Format must be one of: ${documents.FORMATS.join(", ")}` });
+  // ?round=N prints only the lines added in that round
+  const ticket = round ? rounds.roundTicket(order, parseInt(round, 10)) : order;
+  if (!ticket) return res.status(404).json({ success: false, message: `Order ${order.id} has no round ${round}` });
+  documents.sendDocument(
+    res,
+    { format, width, filename: round ? `KOT-${order.id}-R${ticket.round}` : `KOT-${order.id}`, autoPrint: print === "1" },
+    (opts) => documents.kotText(ticket, opts),
+    (opts) => documents.kotHtml(ticket, opts)
+  );
 });
 
 // POST /orders - create an order
 app.post("/orders", async (req, res) => {
-  const { tableNumber, customerName, items, totalAmount, phone } = req.body;
-  if (!items || !Array.isArray(items) || items.length === 0) {
+  const { customerName, phone, actor, tableToken } = req.body;
+  let { tableNumber } = req.body;
+  // Orders from a table's QR link are bound to that table; a forged or rotated link is refused.
+  // Diners can only order through a table's link; staff may give the number directly or leave it out.
+  if (tableToken) {
+    const link = tableLinks.verifyTableToken(tableToken, await getTables());
+    if (link.error) return res.status(403).json({ success: false, code: "INVALID_TABLE_TOKEN", message: link.error });
+    tableNumber = link.tableNumber;
+  } else if (!auth.hasRole(req.user, "kitchen")) {
+    return res.status(403).json({ success: false, code: "TABLE_TOKEN_REQUIRED", message: "Scan the QR code on your table to order" });
+  } else if (tableNumber) {
+    const { error } = tableRegistry.findOrderableTable(await getTables(), tableNumber);
+    if (error) return res.status(400).json({ success: false, code: "INVALID_TABLE", message: error });
+  }
+  if (!req.body.items || !Array.isArray(req.body.items) || req.body.items.length === 0) {
     return res.status(400).json({ success: false, message: "No items in order" });
   }
-
+  const instructions = orderNotes.normalizeOrderNotes(req.body);
+  if (instructions.error) return res.status(400).json({ success: false, message: instructions.error });
+  if (instructions.errors) return pricingError(res, instructions.errors);
+  // Client prices and totals are ignored; every line is priced from the menu
+  const menuIndex = await loadMenuIndex();
+  const priced = pricing.priceItems(instructions.items, menuIndex);
+  if (priced.errors) return pricingError(res, priced.errors);
+  const items = stations.assignStations(priced.items, menuIndex);
+
+  const createdAt = Date.now();
   const order = {
-    id: `ORD-${Date.now()}`,
+    id: sequences.newId("ORD"),
+    displayNumber: await numbering.nextDisplayNumber(createdAt),
     tableNumber: tableNumber || null,
     customerName: customerName || "Guest",
-    phone: phone || null, // Store phone for bill notification
+    // Phone for the bill notification and for telling whose order it is: only a signed-in diner's
+    // own phone counts, so a typed number can't lock out the table link or receive someone's bill
+    phone: (auth.hasRole(req.user, "kitchen") ? phone : req.user && req.user.phone) || null,
     items,
-    totalAmount: totalAmount || items.reduce((s, it) => s + (it.price || 0) * (it.quantity || 1), 0),
+    notes: instructions.notes,
+    allergens: instructions.allergens,
+    totalAmount: priced.totalAmount,
+    prepTargetMinutes: prepTimes.targetFor(items, menuIndex, await getPrepTargets()),
+    kds: stations.KDS_MODE,
     status: "PENDING",
+    sessionId: null,
     billId: null, // Will be set when bill is generated
-    createdAt: Date.now()
+    createdAt
   };
+  order.cancellableUntil = voids.cancellableUntil(order.createdAt);
+  orderStatus.initHistory(order, auth.actorFor(req, actor || { name: order.customerName, role: "customer" }));
 
   orders.push(order);
-  // persist to MongoDB when available
-  if (useMongo && mongoDb) {
-    try { await mongoDb.collection("orders").updateOne({ _id: order.id }, { $set: { ...order, _id: order.id } }, { upsert: true }); } catch (e) { console.warn("Failed to persist order to MongoDB:", e && e.message ? e.message : e); }
+  // Join the table's open session (or start one) so the table gets a single bill
+  let tableSession = null;
+  if (order.tableNumber) {
+    tableSession = tableSessions.findOpenSession(sessions, order.tableNumber);
+    if (!tableSession) {
+      tableSession = tableSessions.createSession(order.tableNumber);
+      sessions.push(tableSession);
+    }
+    tableSession.orderIds.push(order.id);
+    order.sessionId = tableSession.id;
   }
-  res.json({ success: true, orderId: order.id });
+  await saveOrder(order);
+  if (tableSession) await saveSession(tableSession);
+  events.broadcast("order.created", { order });
+  res.json({ success: true, orderId: order.id, displayNumber: order.displayNumber, sessionId: order.sessionId, cancellableUntil: order.cancellableUntil });
 });
 
 // PATCH /orders/:id - update status or other fields
-app.patch("/orders/:id", async (req, res) => {
-  const { status } = req.body;
+// Status changes must follow the transition graph in orderStatus.js (409 otherwise).
+// Cancelling goes through POST /orders/:id/void so a reason is recorded and stock returned.
+app.patch("/orders/:id", auth.requireRole("kitchen"), async (req, res) => {
+  const { status, actor } = req.body;
   const idx = orders.findIndex((o) => o.id === req.params.id);
   if (idx === -1) return res.status(404).json({ success: false, message: "Order not found" });
 
-  if (status) orders[idx].status = status;
-  // persist update
-  if (useMongo && mongoDb) {
-    try { await mongoDb.collection("orders").updateOne({ _id: orders[idx].id }, { $set: { ...orders[idx], _id: orders[idx].id } }, { upsert: true }); } catch (e) { console.warn("Failed to persist order update to MongoDB:", e && e.message ? e.message : e); }
+  const previousStatus = orders[idx].status;
+  if (status && !orderStatus.isValidStatus(status)) {
+    return res.status(400).json({ success: false, message: `Unknown status: ${status}` });
+  }
+  if (status === "CANCELLED" && previousStatus !== "CANCELLED") {
+    return res.status(400).json({ success: false, message: "Cancel an order with POST /orders/:id/void and a reason" });
+  }
+  if (status && status !== previousStatus && !orderStatus.canTransition(previousStatus, status)) {
+    return res.status(409).json(orderStatus.transitionError(orders[idx], status));
+  }
+  // A table session is settled by its bill; completing one of its orders by hand would leave the table unbilled
+  if (status === "COMPLETED" && previousStatus !== "COMPLETED" && orders[idx].sessionId && !orders[idx].billId) {
+    return res.status(409).json({ success: false, message: `Order ${orders[idx].id} is part of a table session; generate the table bill to complete it` });
+  }
+  // In KDS mode the order turns READY by itself once the last station bumps
+  const waiting = status === "READY" && previousStatus === "PREPARING" && stations.readyError(orders[idx]);
+  if (waiting) return res.status(409).json({ success: false, message: waiting });
+  if (status && status !== previousStatus) {
+    orderStatus.applyTransition(orders[idx], status, auth.actorFor(req, actor));
+    // The kitchen starts cooking: ingredients leave the shelf now
+    if (status === "PREPARING") await updateStock((stock, allRecipes) => inventory.takeStock(orders[idx].items, allRecipes, stock));
+    if (status === "READY") prepTimes.recordPrepTime(orders[idx]);
+  }
+  await saveOrder(orders[idx]);
+  if (status && status !== previousStatus) {
+    events.broadcast("order.status_changed", { orderId: orders[idx].id, status, previousStatus, order: orders[idx] });
   }
 
   res.json({ success: true, order: orders[idx] });
 });
 
+// Cancel the whole order: record why, move it to CANCELLED and drop it from the session total
+async function cancelOrder(order, voidInfo, actor) {
+  const previousStatus = order.status;
+  voids.voidOrder(order, voidInfo, orderStatus.normalizeActor(actor));
+  orderStatus.applyTransition(order, "CANCELLED", actor);
+  await updateStock((stock) => inventory.returnStock(order.items, stock));
+  await saveOrder(order);
+  events.broadcast("order.status_changed", { orderId: order.id, status: order.status, previousStatus, order });
+  const tableSession = sessions.find((x) => x.id === order.sessionId);
+  if (tableSession) await saveSession(tableSession);
+}
+
+// POST /orders/:id/cancel - the customer cancels while the order is PENDING and inside the grace window
+// (body: { tableToken } when the order was placed without signing in)
+app.post("/orders/:id/cancel", async (req, res) => {
+  const order = orders.find((o) => o.id === req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  if (!(await actsForDiner(req, order))) {
+    return res.status(403).json({ success: false, message: "Only the customer who placed this order can cancel it" });
+  }
+  const error = voids.customerCancelError(order);
+  if (error) return res.status(409).json({ success: false, message: error });
+  await cancelOrder(order, { reason: voids.CUSTOMER_CANCELLED }, auth.actorFor(req, { name: order.customerName, role: "customer" }));
+  res.json({ success: true, order: auth.hasRole(req.user, "kitchen") ? order : events.dinerOrder(order) });
+});
+
+// POST /orders/:id/rounds - add more items to an order still being prepared (body: { items, notes, allergens })
+// Items are validated and priced like POST /orders and printed on their own kitchen ticket.
+// Diners who placed the order without signing in send their table's QR token as `tableToken`.
+app.post("/orders/:id/rounds", async (req, res) => {
+  const order = orders.find((o) => o.id === req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  // Only the customer who placed the order, or staff, may add to it
+  if (!(await actsForDiner(req, order))) {
+    return res.status(403).json({ success: false, message: "Only the customer who placed this order can add to it" });
+  }
+  const error = rounds.addRoundError(order);
+  if (error) return res.status(409).json({ success: false, message: error, status: order.status });
+  if (!req.body.items || !Array.isArray(req.body.items) || req.body.items.length === 0) {
+    return res.status(400).json({ success: false, message: "No items to add" });
+  }
+  const instructions = orderNotes.normalizeOrderNotes(req.body);
+  if (instructions.error) return res.status(400).json({ success: false, message: instructions.error });
+  if (instructions.errors) return pricingError(res, instructions.errors);
+  const menuIndex = await loadMenuIndex();
+  const priced = pricing.priceItems(instructions.items, menuIndex);
+  if (priced.errors) return pricingError(res, priced.errors);
+
+  // The ticket clock keeps running, so a slower dish added later extends the target
+  order.prepTargetMinutes = Math.max(order.prepTargetMinutes || 0, prepTimes.targetFor(priced.items, menuIndex, await getPrepTargets()));
+  const round = rounds.addRound(
+    order,
+    { items: stations.assignStations(priced.items, menuIndex), totalAmount: priced.totalAmount, notes: instructions.notes, allergens: instructions.allergens },
+    orderStatus.normalizeActor(auth.actorFor(req, req.body.actor || { name: order.customerName, role: "customer" }))
+  );
+  // Already cooking, so the new lines draw stock straight away
+  if (order.status === "PREPARING") await updateStock((stock, allRecipes) => inventory.takeStock(order.items, allRecipes, stock));
+  await saveOrder(order);
+  events.broadcast("order.round_added", { order, round });
+  const tableSession = sessions.find((x) => x.id === order.sessionId);
+  if (tableSession) await saveSession(tableSession);
+  if (auth.hasRole(req.user, "kitchen")) return res.json({ success: true, order, round });
+  res.json({ success: true, order: events.dinerOrder(order), round: { ...round, actor: undefined } });
+});
+
+// POST /orders/:id/void - kitchen voids the whole order (body: { reason, note })
+app.post("/orders/:id/void", auth.requireRole("kitchen"), async (req, res) => {
+  const order = orders.find((o) => o.id === req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  const voidInfo = voids.normalizeVoid(req.body);
+  if (voidInfo.error) return res.status(400).json({ success: false, message: voidInfo.error });
+  if (!orderStatus.canTransition(order.status, "CANCELLED")) {
+    return res.status(409).json(orderStatus.transitionError(order, "CANCELLED"));
+  }
+  await cancelOrder(order, voidInfo, auth.actorFor(req, req.body.actor));
+  res.json({ success: true, order });
+});
+
+// POST /orders/:id/reopen - manager re-opens a completed order (body: { reason, note }). Its bill is
+// reversed with a credit note and every order on that bill goes back to READY, unbilled.
+app.post("/orders/:id/reopen", auth.requireRole("manager"), async (req, res) => {
+  const order = await findOrder(req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  const credit = creditNotes.normalizeCredit({ ...req.body, reason: req.body.reason || "ORDER_REOPENED" });
+  if (credit.error) return res.status(400).json({ success: false, message: credit.error });
+  const reopenError = creditNotes.reopenError(order);
+  if (reopenError) return res.status(409).json({ success: false, message: reopenError });
+
+  const bill = order.billId ? await findBill(order.billId) : null;
+  const tableSession = order.sessionId ? sessions.find((x) => x.id === order.sessionId) : null;
+  // A paid table may have sat new guests since; their session can't be merged with this one
+  if (tableSession && tableSession.status !== "OPEN" && tableSessions.findOpenSession(sessions, tableSession.tableNumber)) {
+    return res.status(409).json({ success: false, message: `Table ${tableSession.tableNumber} has a new session; close it before re-opening this order` });
+  }
+
+  const actor = auth.actorFor(req, req.body.actor);
+  let creditNote = null;
+  if (bill && !bill.creditNote) {
+    try {
+      creditNote = await issueCreditNote(bill, credit, actor);
+    } catch (e) {
+      return res.status(500).json({ success: false, message: "The credit note could not be saved, so the order was not re-opened. Please try again" });
+    }
+  }
+  const reopened = bill ? orders.filter((o) => (bill.orderIds || []).includes(o.id) && o.status === "COMPLETED") : [order];
+  if (!reopened.includes(order)) reopened.push(order);
+  for (const o of reopened) {
+    orderStatus.applyReopen(o, actor, credit.reason);
+    o.billId = null;
+    await saveOrder(o);
+    events.broadcast("order.status_changed", { orderId: o.id, status: o.status, previousStatus: "COMPLETED", order: o });
+  }
+  if (tableSession && tableSession.status !== "OPEN") {
+    Object.assign(tableSession, { status: "OPEN", billId: null, billedAt: null, closedAt: null });
+    await saveSession(tableSession);
+  }
+  res.json({ success: true, orders: reopened, creditNote });
+});
+
+// POST /orders/:id/items/:index/void - kitchen voids one line (body: { reason, note }); the order total is recomputed
+app.post("/orders/:id/items/:index/void", auth.requireRole("kitchen"), async (req, res) => {
+  const order = orders.find((o) => o.id === req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  const voidInfo = voids.normalizeVoid(req.body);
+  if (voidInfo.error) return res.status(400).json({ success: false, message: voidInfo.error });
+  const result = voids.voidLine(order, parseInt(req.params.index, 10), voidInfo, orderStatus.normalizeActor(auth.actorFor(req, req.body.actor)));
+  if (result.error) return res.status(result.status).json({ success: false, message: result.error });
+  await updateStock((stock) => inventory.returnStock([result.item], stock));
+  await saveLineChange(order, auth.actorFor(req, req.body.actor));
+  const tableSession = sessions.find((x) => x.id === order.sessionId);
+  if (tableSession) await saveSession(tableSession);
+  res.json({ success: true, order });
+});
+
+// A bumped or voided line may have been the last one the stations were waiting on; the order
+// is then ready to serve
+async function saveLineChange(order, actor) {
+  const ready = stations.isConsolidated(order);
+  if (ready) {
+    orderStatus.applyTransition(order, "READY", actor);
+    prepTimes.recordPrepTime(order);
+  }
+  await saveOrder(order);
+  events.broadcast("order.updated", { order });
+  if (ready) events.broadcast("order.status_changed", { orderId: order.id, status: "READY", previousStatus: "PREPARING", order });
+}
+
+// POST /orders/:id/items/:index/bump - a station marks one line done (KDS)
+app.post("/orders/:id/items/:index/bump", auth.requireRole("kitchen"), async (req, res) => {
+  const order = orders.find((o) => o.id === req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  const actor = auth.actorFor(req, req.body && req.body.actor);
+  const result = stations.bumpLine(order, parseInt(req.params.index, 10), orderStatus.normalizeActor(actor));
+  if (result.error) return res.status(result.status).json({ success: false, message: result.error });
+  await saveLineChange(order, actor);
+  res.json({ success: true, order });
+});
+
+// DELETE /orders/:id/items/:index/bump - recall a line bumped by mistake
+app.delete("/orders/:id/items/:index/bump", auth.requireRole("kitchen"), async (req, res) => {
+  const order = orders.find((o) => o.id === req.params.id);
+  if (!order) return res.status(404).json({ success: false, message: "Order not found" });
+  const result = stations.recallLine(order, parseInt(req.params.index, 10));
+  if (result.error) return res.status(result.status).json({ success: false, message: result.error });
+  await saveOrder(order);
+  events.broadcast("order.updated", { order });
+  res.json({ success: true, order });
+});
+
+// POST /tables/:tableNumber/bill-request - diner asks for the bill (body: { tableToken }; staff may leave it out)
+// Moves every served (READY) order on the table to BILL_REQUESTED and alerts the kitchen. Orders of the
+// table's open session that were completed without a bill still count: the table bill settles them.
+app.post("/tables/:tableNumber/bill-request", async (req, res) => {
+  const tableNumber = parseInt(req.params.tableNumber, 10);
+  if (!tableNumber) return res.status(400).json({ success: false, message: "Invalid table number" });
+  if (!auth.hasRole(req.user, "kitchen") && !(await holdsTableLink(req, tableNumber))) {
+    return res.status(403).json({ success: false, code: "TABLE_TOKEN_REQUIRED", message: "Scan the QR code on your table to ask for the bill" });
+  }
+  const { actor } = req.body || {};
+
+  const tableSession = tableSessions.findOpenSession(sessions, tableNumber);
+  const unbilled = (o) => o.status === "COMPLETED" && !o.billId && tableSession && tableSession.orderIds.includes(o.id);
+  const tableOrders = orders.filter((o) => Number(o.tableNumber) === tableNumber && (orderHistory.isOpen(o) || unbilled(o)));
+  if (tableOrders.length === 0) return res.status(404).json({ success: false, message: "No open orders for this table" });
+
+  const toRequest = tableOrders.filter((o) => o.status !== "BILL_REQUESTED" && o.status !== "COMPLETED");
+  const inProgress = toRequest.filter((o) => !orderStatus.canTransition(o.status, "BILL_REQUESTED"));
+  if (inProgress.length) {
+    return res.status(409).json({ success: false, message: "Some orders are still being prepared. Please request the bill once everything is served.", orderIds: inProgress.map((o) => o.id) });
+  }
+
+  for (const order of toRequest) {
+    const previousStatus = order.status;
+    orderStatus.applyTransition(order, "BILL_REQUESTED", auth.actorFor(req, actor));
+    await saveOrder(order);
+    events.broadcast("order.status_changed", { orderId: order.id, status: order.status, previousStatus, order });
+  }
+
+  const orderIds = tableOrders.map((o) => o.id);
+  // Alert once: when orders moved now, or when the table only has completed orders waiting for their bill
+  if (toRequest.length || !tableOrders.some((o) => o.status === "BILL_REQUESTED")) {
+    events.broadcast("bill.requested", { tableNumber, orderIds, customerName: tableOrders[0].customerName });
+  }
+  res.json({ success: true, tableNumber, orderIds });
+});
+
 // Simple OTP endpoints for local testing (insecure — for dev only)
 const otps = {}; // phone/chatId -> { code, createdAt }
 
+// Telegram login codes issue staff tokens, so they are kept apart from the dev OTPs above.
+// Wrong codes are counted per phone across reissued codes and lock the phone out, like staff
+// PINs, and each phone can only be sent a few codes in a while.
+const MAX_OTP_ATTEMPTS = 5;
+const OTP_LOCKOUT_MS = 5 * 60 * 1000;
+const OTP_RESEND_MS = 30 * 1000;
+const MAX_OTP_SENDS = 5;
+const OTP_SEND_WINDOW_MS = 15 * 60 * 1000;
+const telegramOtps = {}; // phone -> { code, createdAt }
+const otpAttempts = {}; // phone -> { failures, lockedUntil, sentAt: [timestamps] }
+
+// A phone's attempt record; an expired lockout clears the failures but not the sends
+const otpAttemptsFor = (phone) => {
+  const record = otpAttempts[phone] || (otpAttempts[phone] = { failures: 0, lockedUntil: 0, sentAt: [] });
+  if (record.lockedUntil && record.lockedUntil <= Date.now()) Object.assign(record, { failures: 0, lockedUntil: 0 });
+  return record;
+};
+
+const otpLocked = (phone) => !!otpAttempts[phone] && otpAttemptsFor(phone).lockedUntil > Date.now();
+
 // Telegram Bot Setup
 let bot = null;
 const phoneToChat = {}; // phone -> chatId mapping
@@ -364,12 +1032,25 @@ app.post("/auth/telegram/otp", async (req, res) => {
     });
   }
 
+  if (otpLocked(normalizedPhone)) {
+    return res.status(429).json({ success: false, message: "Too many wrong codes. Try again in a few minutes" });
+  }
+
+  const attempts = otpAttemptsFor(normalizedPhone);
+  const now = Date.now();
+  attempts.sentAt = attempts.sentAt.filter((at) => now - at < OTP_SEND_WINDOW_MS);
+  const lastSent = attempts.sentAt[attempts.sentAt.length - 1];
+  if (attempts.sentAt.length >= MAX_OTP_SENDS || (lastSent && now - lastSent < OTP_RESEND_MS)) {
+    return res.status(429).json({ success: false, message: "Too many codes requested. Try again in a few minutes" });
+  }
+  attempts.sentAt.push(now);
+
   const code = Math.floor(1000 + Math.random() * 9000).toString();
-  otps[normalizedPhone] = { code, createdAt: Date.now() };
+  telegramOtps[normalizedPhone] = { code, createdAt: now };
 
   try {
     await bot.sendMessage(chatId, `🔐 Your login code is: ${code}\n\nThis code will expire in 5 minutes.`);
-    console.log(`Sent Telegram OTP to phone ${normalizedPhone} (chatId ${chatId}): ${code}`);
+    console.log(`Sent Telegram OTP to phone ${normalizedPhone} (chatId ${chatId})`);
     res.json({ success: true, message: "OTP sent to your Telegram" });
   } catch (e) {
     console.error("Failed to send Telegram message:", e.message);
@@ -384,23 +1065,35 @@ app.post("/auth/telegram/verify", (req, res) => {
   // Normalize phone number
   const normalizedPhone = phone.replace(/[\s+\-()]/g, '');
 
-  const record = otps[normalizedPhone];
+  if (otpLocked(normalizedPhone)) {
+    return res.status(429).json({ success: false, message: "Too many wrong codes. Try again in a few minutes" });
+  }
+
+  const record = telegramOtps[normalizedPhone];
   if (!record) return res.status(400).json({ success: false, message: "No OTP requested for this phone number" });
 
   // Check expiration (e.g., 5 minutes)
   if (Date.now() - record.createdAt > 5 * 60 * 1000) {
-    delete otps[normalizedPhone];
+    delete telegramOtps[normalizedPhone];
     return res.status(400).json({ success: false, message: "OTP expired" });
   }
 
-  if (record.code !== String(code)) return res.status(400).json({ success: false, message: "Invalid code" });
+  if (record.code !== String(code)) {
+    const attempts = otpAttemptsFor(normalizedPhone);
+    attempts.failures += 1;
+    if (attempts.failures >= MAX_OTP_ATTEMPTS) {
+      delete telegramOtps[normalizedPhone];
+      attempts.lockedUntil = Date.now() + OTP_LOCKOUT_MS;
+      return res.status(429).json({ success: false, message: "Too many wrong codes. Request a new code in a few minutes" });
+    }
+    return res.status(400).json({ success: false, message: "Invalid code" });
+  }
 
-  // Clear OTP after successful use
-  delete otps[normalizedPhone];
+  // Clear OTP and the wrong-code count after successful use
+  delete telegramOtps[normalizedPhone];
+  otpAttemptsFor(normalizedPhone).failures = 0;
 
-  // Return a mock token or session info
-  const token = `telegram-${Date.now()}-${normalizedPhone}`;
-  res.json({ success: true, token, user: { phone: normalizedPhone, authMethod: 'telegram' } });
+  res.json({ success: true, ...auth.issueTokens(auth.sessionUser({ phone: normalizedPhone, authMethod: 'telegram' })) });
 });
 
 app.post("/otp/verify", (req, res) => {
@@ -421,83 +1114,385 @@ app.get('/auth/google',
 app.get('/auth/google/callback',
   passport.authenticate('google', { failureRedirect: 'http://localhost:5173' }),
   function (req, res) {
-    // Successful authentication - generate token
-    const token = `google-${Date.now()}-${req.user.id}`;
-    // Redirect to frontend with token
-    res.redirect(`http://localhost:5173?auth=success&token=${token}&user=${encodeURIComponent(JSON.stringify(req.user))}`);
+    // Successful authentication - hand the signed session to the frontend
+    const { token, refreshToken, expiresAt, user } = auth.issueTokens(auth.sessionUser(req.user));
+    const params = new URLSearchParams({ auth: 'success', token, refreshToken, expiresAt: String(expiresAt), user: JSON.stringify(user) });
+    res.redirect(`http://localhost:5173?${params}`);
   }
 );
 
-// Logout endpoint
+// POST /auth/refresh - exchange a refresh token for a new token pair
+// PIN sessions keep the directory's current role and end once the member is deactivated
+app.post('/auth/refresh', async (req, res) => {
+  const staff = await getStaff();
+  const resolveRole = (claims) => {
+    if (claims.authMethod !== 'pin') return auth.currentRole(claims);
+    const member = staff.find((m) => m.id === claims.sub);
+    return member && member.active ? member.role : null;
+  };
+  const { session: tokens, error } = auth.refreshTokens(req.body && req.body.refreshToken, resolveRole);
+  if (error) return res.status(401).json({ success: false, message: error });
+  res.json({ success: true, ...tokens });
+});
+
+// Local development only: sign in as any role without Telegram or Google (DEV_LOGIN=1)
+if (process.env.DEV_LOGIN === '1') {
+  app.post('/auth/dev', (req, res) => {
+    const { name, role = 'customer' } = req.body || {};
+    if (!auth.ROLES.includes(role)) return res.status(400).json({ success: false, message: `Unknown role: ${role}` });
+    const user = auth.sessionUser({ id: `dev-${role}`, name: name || `Dev ${role}`, authMethod: 'dev' }, role);
+    res.json({ success: true, ...auth.issueTokens(user) });
+  });
+  console.warn("DEV_LOGIN is enabled: POST /auth/dev signs in as any role");
+}
+
+// Logout endpoint; revokes the refresh token so it cannot mint new sessions
 app.post('/auth/logout', (req, res) => {
+  if (req.body && req.body.refreshToken) auth.revokeRefreshToken(req.body.refreshToken);
   req.logout((err) => {
     if (err) return res.status(500).json({ success: false });
     res.json({ success: true });
   });
 });
 
+// POST /auth/pin - staff sign-in on a shared tablet (body: { staffId, pin })
+app.post('/auth/pin', async (req, res) => {
+  const { staffId, pin } = req.body || {};
+  const member = (await getStaff()).find((m) => m.id === staffId);
+  const { error, status } = staffDirectory.checkPin(member, pin);
+  if (error) return res.status(status).json({ success: false, message: error });
+  const user = auth.sessionUser({ id: member.id, name: member.name, authMethod: 'pin' }, member.role);
+  res.json({ success: true, ...auth.issueTokens(user) });
+});
+
+// GET /staff/directory - active staff names for the PIN pad
+app.get("/staff/directory", async (req, res) => {
+  const staff = await getStaff();
+  res.json(staff.filter((m) => m.active).map(({ id, name, role }) => ({ id, name, role })));
+});
+
+// GET /staff - full directory for managers (PINs are never returned)
+app.get("/staff", auth.requireRole("manager"), async (req, res) => {
+  res.json((await getStaff()).map(staffDirectory.publicStaff));
+});
+
+// POST /staff, PUT /staff/:id - add or edit a member (body: { name, role, pin, active })
+// Managers can only grant roles up to their own
+app.post("/staff", auth.requireRole("manager"), async (req, res) => {
+  const { member, error } = staffDirectory.normalizeStaff(req.body);
+  if (error) return res.status(400).json({ success: false, message: error });
+  if (!auth.hasRole(req.user, member.role)) return res.status(403).json({ success: false, message: "Only an admin can add admin accounts" });
+  await saveStaffMember(member);
+  res.json({ success: true, member: staffDirectory.publicStaff(member) });
+});
+
+app.put("/staff/:id", auth.requireRole("manager"), async (req, res) => {
+  const current = (await getStaff()).find((m) => m.id === req.params.id);
+  if (!current) return res.status(404).json({ success: false, message: "Staff member not found" });
+  const { member, error } = staffDirectory.normalizeStaff(req.body, current);
+  if (error) return res.status(400).json({ success: false, message: error });
+  if (!auth.hasRole(req.user, current.role) || !auth.hasRole(req.user, member.role)) {
+    return res.status(403).json({ success: false, message: "You cannot change staff above your own role" });
+  }
+  await saveStaffMember(member);
+  res.json({ success: true, member: staffDirectory.publicStaff(member) });
+});
+
+// GET /inventory - ingredient stock (with low-stock flags) and recipes
+app.get("/inventory", auth.requireRole("kitchen"), async (req, res) => {
+  const { ingredients: stock, recipes: allRecipes } = await getInventory();
+  res.json({ ingredients: stock.map(inventory.publicIngredient), recipes: allRecipes });
+});
+
+// POST /inventory/ingredients, PUT /inventory/ingredients/:id - add or edit an ingredient
+// (body: { name, unit, stock, lowStockThreshold })
+app.post("/inventory/ingredients", auth.requireRole("manager"), async (req, res) => {
+  const { ingredients: stock } = await getInventory();
+  const { ingredient, error } = inventory.normalizeIngredient(req.body, null, stock);
+  if (error) return res.status(400).json({ success: false, message: error });
+  await updateStock(() => [ingredient]);
+  res.json({ success: true, ingredient: inventory.publicIngredient(ingredient) });
+});
+
+app.put("/inventory/ingredients/:id", auth.requireRole("manager"), async (req, res) => {
+  const { ingredients: stock } = await getInventory();
+  const current = stock.find((i) => i.id === req.params.id);
+  if (!current) return res.status(404).json({ success: false, message: "Ingredient not found" });
+  const { ingredient, error } = inventory.normalizeIngredient(req.body, current, stock);
+  if (error) return res.status(400).json({ success: false, message: error });
+  await updateStock(() => [ingredient]);
+  res.json({ success: true, ingredient: inventory.publicIngredient(ingredient) });
+});
+
+// POST /inventory/ingredients/:id/adjust - restock or recount (body: { delta } or { count })
+app.post("/inventory/ingredients/:id/adjust", auth.requireRole("kitchen"), async (req, res) => {
+  const { ingredients: stock } = await getInventory();
+  const ingredient = stock.find((i) => i.id === req.params.id);
+  if (!ingredient) return res.status(404).json({ success: false, message: "Ingredient not found" });
+  const { delta, count } = req.body;
+  const next = count !== undefined ? count : typeof delta === "number" ? ingredient.stock + delta : NaN;
+  if (typeof next !== "number" || !Number.isFinite(next)) return res.status(400).json({ success: false, message: "Send the amount to add (delta) or the new count" });
+  if (next < 0) {
+    return res.status(400).json({ success: false, message: count !== undefined ? "Count must be zero or more" : `Only ${ingredient.stock} ${ingredient.unit} of ${ingredient.name} in stock` });
+  }
+  const { ingredient: updated } = inventory.normalizeIngredient({ stock: next }, ingredient, stock);
+  await updateStock(() => [updated]);
+  res.json({ success: true, ingredient: inventory.publicIngredient(updated) });
+});
+
+// PUT /inventory/recipes/:menuItemId - what one serving uses (body: { lines: [{ ingredientId, quantity }] });
+// an empty list removes the recipe
+app.put("/inventory/recipes/:menuItemId", auth.requireRole("manager"), async (req, res) => {
+  const { menuItemId } = req.params;
+  if (!(await loadMenuIndex()).has(menuItemId)) return res.status(404).json({ success: false, message: "Menu item not found" });
+  const { ingredients: stock } = await getInventory();
+  const { lines, error } = inventory.normalizeRecipe(req.body.lines, stock);
+  if (error) return res.status(400).json({ success: false, message: error });
+  const recipe = { menuItemId, lines, updatedAt: Date.now() };
+  await saveRecipe(recipe);
+  await updateStock(() => []);
+  res.json({ success: true, recipe });
+});
+
+// GET /sessions - list table sessions without their orders (?scope=open leaves out closed ones; ?status=OPEN|BILLED|CLOSED)
+app.get("/sessions", auth.requireRole("kitchen"), (req, res) => {
+  const { status, scope } = req.query;
+  let list = scope === "open" ? sessions.filter((x) => x.status !== "CLOSED") : sessions;
+  if (status) list = list.filter((x) => x.status === status);
+  res.json(list.map((x) => tableSessions.summarizeSession(x, orders, { withOrders: false })));
+});
+
+// GET /sessions/:id - session with its orders and running total (diners: ?orders= their own orders)
+app.get("/sessions/:id", (req, res) => {
+  const tableSession = sessions.find((x) => x.id === req.params.id);
+  if (!tableSession) return res.status(404).json({ success: false, message: "Session not found" });
+  sessionFor(req, res, tableSession);
+});
+
+// GET /tables - the table registry; diners use it to check their table number
+app.get("/tables", async (req, res) => {
+  res.json((await getTables()).map(tableRegistry.publicTable));
+});
+
+// POST /tables - add a table (body: { tableNumber, label, area, seats, active })
+app.post("/tables", auth.requireRole("manager"), async (req, res) => {
+  const { table, error } = tableRegistry.normalizeTable(req.body, null, await getTables(), retiredTables);
+  if (error) return res.status(400).json({ success: false, message: error });
+  await saveTable(table);
+  res.json({ success: true, table: tableRegistry.publicTable(table) });
+});
+
+// GET /tables/links - every table with its QR link (query: baseUrl of the customer app)
+app.get("/tables/links", auth.requireRole("manager"), async (req, res) => {
+  const baseUrl = appBaseUrl(req);
+  if (!baseUrl) return res.status(400).json({ success: false, message: "baseUrl must be an http(s) URL" });
+  res.json(await Promise.all((await getTables()).filter((t) => t.active !== false).map((table) => tableLinks.tableLink(table, baseUrl))));
+});
+
+// GET /tables/resolve?t=<token> - table number for a QR link, so the customer app can skip manual entry
+app.get("/tables/resolve", async (req, res) => {
+  const link = tableLinks.verifyTableToken(req.query.t, await getTables());
+  if (link.error) return res.status(403).json({ success: false, code: "INVALID_TABLE_TOKEN", message: link.error });
+  res.json({ success: true, tableNumber: link.tableNumber });
+});
+
+// PUT /tables/:tableNumber - change a table's label, area, seats or active flag (the number is fixed)
+app.put("/tables/:tableNumber", auth.requireRole("manager"), async (req, res) => {
+  const current = (await getTables()).find((t) => t.tableNumber === parseInt(req.params.tableNumber, 10));
+  if (!current) return res.status(404).json({ success: false, message: "Table not found" });
+  const { table, error } = tableRegistry.normalizeTable(req.body, current);
+  if (error) return res.status(400).json({ success: false, message: error });
+  await saveTable(table);
+  res.json({ success: true, table: tableRegistry.publicTable(table) });
+});
+
+// DELETE /tables/:tableNumber - remove a table; refused until its session is paid and closed
+app.delete("/tables/:tableNumber", auth.requireRole("manager"), async (req, res) => {
+  const tableNumber = parseInt(req.params.tableNumber, 10);
+  if (!(await getTables()).some((t) => t.tableNumber === tableNumber)) return res.status(404).json({ success: false, message: "Table not found" });
+  if (sessions.some((x) => x.status !== "CLOSED" && Number(x.tableNumber) === tableNumber)) {
+    return res.status(409).json({ success: false, message: `Table ${tableNumber} has an unpaid session; close it first` });
+  }
+  await deleteTable(tableNumber);
+  res.json({ success: true });
+});
+
+// POST /tables/:tableNumber/rotate-link - issue a new QR link; codes printed before stop working
+app.post("/tables/:tableNumber/rotate-link", auth.requireRole("manager"), async (req, res) => {
+  const baseUrl = appBaseUrl(req);
+  if (!baseUrl) return res.status(400).json({ success: false, message: "baseUrl must be an http(s) URL" });
+  const current = (await getTables()).find((t) => t.tableNumber === parseInt(req.params.tableNumber, 10));
+  if (!current) return res.status(404).json({ success: false, message: "Table not found" });
+  const table = tableLinks.rotateTable(current);
+  await saveTable(table);
+  res.json({ success: true, table: await tableLinks.tableLink(table, baseUrl) });
+});
+
+// GET /tables/:tableNumber/session - the table's current open session (diners: ?orders= their own orders)
+app.get("/tables/:tableNumber/session", (req, res) => {
+  const tableSession = tableSessions.findOpenSession(sessions, req.params.tableNumber);
+  if (!tableSession) return res.status(404).json({ success: false, message: "No open session for this table" });
+  sessionFor(req, res, tableSession);
+});
+
+// POST /sessions/:id/close - close a billed session once its bill is paid; the table's next order
+// opens a new session. Taking the last payment closes it already, so this only tidies up.
+app.post("/sessions/:id/close", auth.requireRole("kitchen"), async (req, res) => {
+  const tableSession = sessions.find((x) => x.id === req.params.id);
+  if (!tableSession) return res.status(404).json({ success: false, message: "Session not found" });
+  if (tableSession.status !== "BILLED") {
+    return res.status(409).json({ success: false, message: "Only billed sessions can be closed" });
+  }
+  const bill = await findBill(tableSession.billId);
+  // A credited bill owes nothing either
+  if (!bill || (bill.paymentStatus !== "PAID" && !bill.creditNote)) {
+    return res.status(409).json({ success: false, message: "Take payment for the bill first; the table closes once it is fully paid" });
+  }
+  tableSession.status = "CLOSED";
+  tableSession.closedAt = Date.now();
+  await saveSession(tableSession);
+  res.json({ success: true, session: tableSessions.summarizeSession(tableSession, orders) });
+});
+
+// Sessions and orders with a bill being generated right now
+const billsInProgress = new Set();
+
 // POST /bills - generate a bill (returns computed bill)
-app.post("/bills", async (req, res) => {
-  const { tableNumber, customerName, items, orderId, phone } = req.body;
+app.post("/bills", auth.requireRole("kitchen"), async (req, res) => {
+  const { tableNumber, customerName, orderId, sessionId, phone, actor, declineServiceCharge } = req.body;
+  let { items } = req.body;
+
+  // A session bill merges the items of every unbilled order placed at the table
+  const tableSession = sessionId ? sessions.find((x) => x.id === sessionId) : null;
+  if (sessionId && !tableSession) return res.status(404).json({ success: false, message: "Session not found" });
+  if (tableSession && tableSession.status !== "OPEN") {
+    return res.status(409).json({ success: false, message: `Session ${tableSession.id} is already ${tableSession.status.toLowerCase()}` });
+  }
+  const linkedOrders = tableSession
+    ? tableSessions.billableOrders(tableSession, orders).filter((o) => !o.billId)
+    : orders.filter((o) => orderId && o.id === orderId);
+  const billed = linkedOrders.find((o) => o.billId);
+  if (billed) {
+    return res.status(409).json({ success: false, message: `Order ${billed.id} is already billed on ${billed.billId}` });
+  }
+  // An order in an open session is billed with the rest of its table; billing it alone would count it twice
+  const openSession = !tableSession && linkedOrders[0] && sessions.find((x) => x.id === linkedOrders[0].sessionId && x.status === "OPEN");
+  if (openSession) {
+    return res.status(409).json({
+      success: false,
+      sessionId: openSession.id,
+      message: `Order ${linkedOrders[0].id} is part of table session ${openSession.id}; generate the table bill instead`,
+    });
+  }
+  // Orders were priced when placed; only ad-hoc lines are priced here
+  if (tableSession) items = tableSessions.mergeLineItems(linkedOrders);
+  else if (linkedOrders.length) items = voids.activeItems(linkedOrders[0]).map(billing.billLine);
+
   if (!items || !Array.isArray(items) || items.length === 0) {
     return res.status(400).json({ success: false, message: "No items to bill" });
   }
+  if (!linkedOrders.length) {
+    const priced = pricing.priceItems(items, await loadMenuIndex(), { checkAvailability: false });
+    if (priced.errors) return pricingError(res, priced.errors);
+    items = priced.items;
+  }
 
-  const subtotal = items.reduce((s, it) => s + (it.price || 0) * (it.quantity || 1), 0);
-  const taxRate = 0.05;
-  const serviceRate = 0.02;
-  const tax = Math.round(subtotal * taxRate);
-  const service = Math.round(subtotal * serviceRate);
-  const total = subtotal + tax + service;
-
-  const bill = {
-    id: `BILL-${Date.now()}`,
-    orderId: orderId || null,
-    tableNumber: tableNumber || null,
-    customerName: customerName || "Guest",
-    items,
-    subtotal,
-    tax,
-    service,
-    total,
-    createdAt: Date.now()
-  };
-
-  bills.push(bill);
-  if (useMongo && mongoDb) {
-    try { await mongoDb.collection("bills").updateOne({ _id: bill.id }, { $set: { ...bill, _id: bill.id } }, { upsert: true }); } catch (e) { console.warn("Failed to persist bill to MongoDB:", e && e.message ? e.message : e); }
+  // Billing closes the linked orders, so each must be allowed to move to COMPLETED
+  const blocking = linkedOrders.find((o) => o.status !== "COMPLETED" && !orderStatus.canTransition(o.status, "COMPLETED"));
+  if (blocking) {
+    return res.status(409).json(orderStatus.transitionError(blocking, "COMPLETED"));
   }
 
-  // Link bill to order
-  if (orderId) {
-    const orderIdx = orders.findIndex(o => o.id === orderId);
-    if (orderIdx !== -1) {
-      orders[orderIdx].billId = bill.id;
-      orders[orderIdx].status = "COMPLETED";
-      if (useMongo && mongoDb) {
-        try { await mongoDb.collection("orders").updateOne({ _id: orderId }, { $set: { billId: bill.id, status: "COMPLETED" } }); } catch (e) { console.warn("Failed to update order with billId:", e); }
+  // Claim the session and its orders before the first await, so a second request (a double-click)
+  // can't bill them again while this one waits for the invoice number
+  const claims = [tableSession && tableSession.id, ...linkedOrders.map((o) => o.id)].filter(Boolean);
+  if (claims.some((key) => billsInProgress.has(key))) {
+    return res.status(409).json({ success: false, message: "A bill is already being generated for this order" });
+  }
+  claims.forEach((key) => billsInProgress.add(key));
+  let bill;
+  const completed = [];
+  try {
+    const rules = await getTaxConfig();
+    if (declineServiceCharge && !rules.serviceCharge.declinable) {
+      return res.status(400).json({ success: false, message: "Service charge cannot be declined" });
+    }
+    const totals = billing.computeTotals(items.map(withMenuDetails), rules, { declineService: !!declineServiceCharge });
+    const createdAt = Date.now();
+
+    bill = {
+      id: sequences.newId("BILL"),
+      invoiceNumber: await numbering.nextInvoiceNumber(rules.business.invoicePrefix, createdAt),
+      orderId: orderId || null,
+      sessionId: tableSession ? tableSession.id : null,
+      orderIds: linkedOrders.map((o) => o.id),
+      tableNumber: tableNumber || (tableSession && tableSession.tableNumber) || (linkedOrders[0] && linkedOrders[0].tableNumber) || null,
+      customerName: customerName || (linkedOrders[0] && linkedOrders[0].customerName) || "Guest",
+      ...totals,
+      // rules the bill was priced under, so later recalculation doesn't pick up newer rates
+      taxConfig: rules,
+      parentBillId: null,
+      splitMode: null,
+      splitIds: [],
+      payments: [],
+      createdAt
+    };
+    payments.updatePaymentStatus(bill);
+    try {
+      await saveNumberedBill(bill);
+    } catch (e) {
+      return res.status(500).json({ success: false, message: "The bill could not be saved, so nothing was billed. Please try again" });
+    }
+    bills.push(bill);
+
+    // Link bill to orders and session before anything else is awaited
+    for (const order of linkedOrders) {
+      const previousStatus = order.status;
+      order.billId = bill.id;
+      if (previousStatus !== "COMPLETED") {
+        orderStatus.applyTransition(order, "COMPLETED", auth.actorFor(req, actor));
+        completed.push({ order, previousStatus });
       }
     }
+    if (tableSession) {
+      tableSession.status = "BILLED";
+      tableSession.billId = bill.id;
+      tableSession.billedAt = Date.now();
+    }
+  } finally {
+    claims.forEach((key) => billsInProgress.delete(key));
+  }
+
+  for (const order of linkedOrders) await saveOrder(order);
+  for (const { order, previousStatus } of completed) {
+    events.broadcast("order.status_changed", { orderId: order.id, status: "COMPLETED", previousStatus, order });
   }
+  if (tableSession) await saveSession(tableSession);
+  events.broadcast("bill.generated", { bill, orderId: bill.orderId, sessionId: bill.sessionId });
 
   // Send Telegram notification with formatted bill
-  const customerPhone = phone || (orderId ? orders.find(o => o.id === orderId)?.phone : null);
+  const customerPhone = phone || (linkedOrders.find((o) => o.phone) || {}).phone || null;
   if (customerPhone && bot) {
     const normalizedPhone = customerPhone.replace(/[\s+\-()]/g, '');
     const chatId = phoneToChat[normalizedPhone];
     if (chatId) {
-      const itemLines = items.map(it => `  • ${it.name} x${it.quantity} — ₹${(it.price || 0) * (it.quantity || 1)}`).join('\n');
+      const itemLines = bill.items.map(it => {
+        const extras = modifiers.describeModifiers(it.modifiers);
+        return `  • ${it.name}${extras ? ` (${extras})` : ''} x${it.quantity} — ₹${(it.price || 0) * (it.quantity || 1)}`;
+      }).join('\n');
+      const taxLines = bill.taxLines.map(l => `${l.label}: ₹${l.amount}\n`).join('');
+      const serviceLine = bill.service ? `Service (${bill.serviceRate}%): ₹${bill.service}\n` : '';
       const billMessage = `🧾 *Your Bill*\n\n` +
-        `*Order:* ${orderId || 'N/A'}\n` +
-        `*Table:* ${tableNumber || 'N/A'}\n` +
-        `*Customer:* ${customerName || 'Guest'}\n\n` +
+        `*Order:* ${bill.orderIds.join(', ') || 'N/A'}\n` +
+        `*Table:* ${bill.tableNumber || 'N/A'}\n` +
+        `*Customer:* ${bill.customerName}\n\n` +
         `📋 *Items:*\n${itemLines}\n\n` +
         `━━━━━━━━━━━━━━━━\n` +
-        `Subtotal: ₹${subtotal}\n` +
-        `Tax (5%): ₹${tax}\n` +
-        `Service (2%): ₹${service}\n` +
+        `${bill.pricesIncludeTax ? 'Taxable value' : 'Subtotal'}: ₹${bill.subtotal}\n` +
+        taxLines +
+        serviceLine +
         `━━━━━━━━━━━━━━━━\n` +
-        `*Total: ₹${total}*\n\n` +
+        `*Total: ₹${bill.total}*\n\n` +
         `Thank you for visiting! 🙏`;
 
       try {
@@ -512,59 +1507,302 @@ app.post("/bills", async (req, res) => {
   res.json({ success: true, bill });
 });
 
+// The bill for the caller: staff get it whole, diners without staff names
+const billFor = (req, bill) => (auth.hasRole(req.user, "kitchen") ? bill : events.dinerBill(bill));
+
 // GET /bills/:id
-app.get("/bills/:id", (req, res) => {
-  (async () => {
-    const id = req.params.id;
-    if (useMongo && mongoDb) {
-      try {
-        const doc = await mongoDb.collection("bills").findOne({ _id: id });
-        if (!doc) return res.status(404).json({ success: false, message: "Bill not found" });
-        return res.json({ id: doc._id || doc.id, ...doc });
-      } catch (e) {
-        console.warn("Failed to load bill from MongoDB:", e);
-      }
-    }
-    const bill = bills.find((b) => b.id === id);
-    if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
-    res.json(bill);
-  })();
+app.get("/bills/:id", async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  res.json(billFor(req, bill));
+});
+
+// GET /bills/:id/invoice - printable GST tax invoice (?format=html|pdf|text|escpos&width=58|80)
+app.get("/bills/:id/invoice", async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const { format = "html", width, print } = req.query;
+  if (!documents.FORMATS.includes(format)) return res.status(400).json({ success: false, message: `Format must be one of: ${documents.FORMATS.join(", ")}` });
+  // bills from before tax settings existed carry no rules; print them with today's seller details
+  const printable = bill.taxConfig ? bill : { ...bill, taxConfig: await getTaxConfig() };
+  documents.sendDocument(
+    res,
+    { format, width, filename: (bill.invoiceNumber || bill.id).replace(/\//g, "-"), autoPrint: print === "1" },
+    (opts) => documents.invoiceText(printable, opts),
+    (opts) => documents.invoiceHtml(printable, opts)
+  );
+});
+
+// GET /bills/:id/splits - child bills of a split bill
+app.get("/bills/:id/splits", async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const splits = await Promise.all((bill.splitIds || []).map(findBill));
+  res.json(splits.filter(Boolean).map((split) => billFor(req, split)));
+});
+
+// POST /bills/:id/split - divide a bill into child bills (even, by item or custom amounts)
+// Splitting again replaces the previous split.
+app.post("/bills/:id/split", auth.requireRole("kitchen"), async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  if (bill.parentBillId) return res.status(400).json({ success: false, message: "A split bill cannot be split again; split the parent bill instead" });
+  if (creditNotes.isCreditNote(bill) || bill.creditNote) {
+    return res.status(409).json({ success: false, message: "Credited bills and credit notes can't be split" });
+  }
+  if (bill.paidAmount > 0) return res.status(409).json({ success: false, message: "Payments have been taken on this bill, so it can't be split" });
+
+  let shares;
+  try {
+    shares = billing.splitBill(bill, req.body);
+  } catch (e) {
+    if (e instanceof billing.BillingError) return res.status(400).json({ success: false, message: e.message });
+    throw e;
+  }
+
+  const previous = new Set(bill.splitIds || []);
+  for (let i = bills.length - 1; i >= 0; i--) {
+    if (previous.has(bills[i].id)) bills.splice(i, 1);
+  }
+  for (const id of previous) {
+    try { await store.bills.remove(id); } catch (e) { console.warn("Failed to remove previous split bill:", e && e.message ? e.message : e); }
+  }
+
+  const createdAt = Date.now();
+  const splits = shares.map((share, idx) => ({
+    id: `${bill.id}-S${idx + 1}`,
+    orderId: bill.orderId,
+    sessionId: bill.sessionId,
+    orderIds: bill.orderIds,
+    tableNumber: bill.tableNumber,
+    customerName: share.label,
+    items: share.items,
+    subtotal: share.subtotal,
+    tax: share.tax,
+    service: share.service,
+    total: share.total,
+    taxLines: share.taxLines,
+    taxBreakdown: share.taxBreakdown,
+    invoiceNumber: bill.invoiceNumber,
+    taxConfig: bill.taxConfig,
+    serviceRate: bill.serviceRate,
+    serviceDeclined: bill.serviceDeclined,
+    pricesIncludeTax: bill.pricesIncludeTax,
+    parentBillId: bill.id,
+    splitIndex: idx + 1,
+    splitMode: req.body.mode,
+    splitIds: [],
+    payments: [],
+    createdAt,
+  }));
+  splits.forEach((split) => payments.updatePaymentStatus(split));
+
+  const parent = bills.find((b) => b.id === bill.id) || bill;
+  parent.splitMode = req.body.mode;
+  parent.splitIds = splits.map((s) => s.id);
+  payments.updatePaymentStatus(parent, splits);
+  bills.push(...splits);
+  await saveBill(parent);
+  for (const split of splits) await saveBill(split);
+
+  events.broadcast("bill.split", { bill: parent, splits });
+  res.json({ success: true, bill: parent, splits });
+});
+
+// POST /bills/:id/payments - take a cash, card or UPI payment (body: { tender, amount, tendered, reference }).
+// UPI payments start PENDING with a QR for the payment app and are captured through the provider.
+app.post("/bills/:id/payments", auth.requireRole("kitchen"), async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const parent = bill.parentBillId ? await findBill(bill.parentBillId) : null;
+  const blocked = payments.paymentError(bill, parent);
+  if (blocked) return res.status(blocked.status).json({ success: false, message: blocked.error });
+  const { payment, error } = payments.normalizePayment(req.body, bill);
+  if (error) return res.status(400).json({ success: false, message: error });
+  payment.actor = orderStatus.normalizeActor(auth.actorFor(req, req.body.actor));
+
+  let qrSvg = null;
+  if (payment.tender === "UPI") {
+    const rules = await getTaxConfig();
+    if (!rules.business.upiId) return res.status(400).json({ success: false, message: "Set the UPI ID in tax settings before taking UPI payments" });
+    const provider = payments.provider;
+    payment.upi = { provider: provider.name, ...provider.createUpiIntent({ payment, bill, upiId: rules.business.upiId, payeeName: rules.business.name }) };
+    qrSvg = await QRCode.toString(payment.upi.intentUrl, { type: "svg", errorCorrectionLevel: "M", margin: 1 });
+  }
+  bill.payments = [...(bill.payments || []), payment];
+  await settleBill(bill, payment);
+  res.json({ success: true, bill, payment, qrSvg });
+});
+
+// POST /bills/:id/payments/:paymentId/confirm - capture a pending UPI payment once the provider reports it paid
+app.post("/bills/:id/payments/:paymentId/confirm", auth.requireRole("kitchen"), async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const payment = (bill.payments || []).find((p) => p.id === req.params.paymentId);
+  if (!payment) return res.status(404).json({ success: false, message: "Payment not found" });
+  if (payment.status !== "PENDING") return res.status(409).json({ success: false, message: `Payment is already ${payment.status.toLowerCase()}` });
+  if (payment.amount > bill.balanceDue) {
+    return res.status(409).json({ success: false, message: "The bill has been paid by other means since; cancel this payment" });
+  }
+  const result = await payments.provider.confirm(payment);
+  if (result.status !== "CAPTURED") return res.status(409).json({ success: false, message: "The payment has not arrived yet" });
+  payment.status = "CAPTURED";
+  payment.capturedAt = Date.now();
+  await settleBill(bill, payment);
+  res.json({ success: true, bill, payment });
+});
+
+// DELETE /bills/:id/payments/:paymentId - cancel a pending UPI payment (the diner paid another way)
+app.delete("/bills/:id/payments/:paymentId", auth.requireRole("kitchen"), async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const payment = (bill.payments || []).find((p) => p.id === req.params.paymentId);
+  if (!payment) return res.status(404).json({ success: false, message: "Payment not found" });
+  if (payment.status !== "PENDING") return res.status(409).json({ success: false, message: `Only pending payments can be cancelled; this one is ${payment.status.toLowerCase()}` });
+  payment.status = "CANCELLED";
+  await settleBill(bill, payment);
+  res.json({ success: true, bill, payment });
+});
+
+// POST /bills/:id/credit-note - manager reverses a bill with a credit note (body: { reason, note })
+app.post("/bills/:id/credit-note", auth.requireRole("manager"), async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const credit = creditNotes.normalizeCredit(req.body);
+  if (credit.error) return res.status(400).json({ success: false, message: credit.error });
+  const creditError = creditNotes.creditError(bill);
+  if (creditError) return res.status(creditError.status).json({ success: false, message: creditError.error });
+  let creditNote;
+  try {
+    creditNote = await issueCreditNote(bill, credit, auth.actorFor(req, req.body.actor));
+  } catch (e) {
+    return res.status(500).json({ success: false, message: "The credit note could not be saved, so the bill was not credited. Please try again" });
+  }
+  res.json({ success: true, bill, creditNote });
+});
+
+// POST /bills/:id/service-charge - customer declines (or re-accepts) the service charge
+// (body: { declined, tableToken }); only staff or a diner of one of the bill's orders may
+app.post("/bills/:id/service-charge", async (req, res) => {
+  const bill = await findBill(req.params.id);
+  if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+  const diners = await Promise.all(orders.filter((o) => (bill.orderIds || []).includes(o.id)).map((o) => actsForDiner(req, o)));
+  if (!auth.hasRole(req.user, "kitchen") && !diners.includes(true)) return res.status(403).json({ success: false, message: "Only the table this bill is for can change its service charge" });
+  const rules = bill.taxConfig || (await getTaxConfig());
+  if (!rules.serviceCharge.enabled) return res.status(400).json({ success: false, message: "No service charge on this bill" });
+  if (!rules.serviceCharge.declinable) return res.status(400).json({ success: false, message: "Service charge cannot be declined" });
+  if (bill.parentBillId || (bill.splitIds || []).length) {
+    return res.status(409).json({ success: false, message: "Bill has been split; change the service charge before splitting" });
+  }
+  if (creditNotes.isCreditNote(bill) || bill.creditNote) {
+    return res.status(409).json({ success: false, message: "Bill has been credited; its service charge can no longer change" });
+  }
+  // The invoice the diner is paying against must not change under them
+  if ((bill.payments || []).some((p) => p.status !== "CANCELLED")) {
+    return res.status(409).json({ success: false, message: "Payment has been taken on this bill; its service charge can no longer change" });
+  }
+
+  const totals = billing.computeTotals(bill.items, rules, { declineService: !!req.body.declined });
+  const target = bills.find((b) => b.id === bill.id) || bill;
+  Object.assign(target, totals);
+  payments.updatePaymentStatus(target);
+  await saveBill(target);
+  events.broadcast("bill.generated", { bill: target, orderId: target.orderId, sessionId: target.sessionId });
+  res.json({ success: true, bill: billFor(req, target) });
+});
+
+// GET /settings/tax - current tax and service-charge rules
+app.get("/settings/tax", async (req, res) => {
+  res.json(await getTaxConfig());
+});
+
+// PUT /settings/tax - update the rules; applies to bills generated from now on
+app.put("/settings/tax", auth.requireRole("manager"), async (req, res) => {
+  const { config, error } = taxConfig.normalizeTaxConfig(req.body, await getTaxConfig());
+  if (error) return res.status(400).json({ success: false, message: error });
+  config.updatedAt = Date.now();
+  const actor = auth.actorFor(req, req.body.actor);
+  config.updatedBy = actor ? orderStatus.normalizeActor(actor) : null;
+  currentTaxConfig = config;
+  try { await store.settings.save({ ...config, id: "tax" }); } catch (e) { console.warn("Failed to persist tax settings:", e && e.message ? e.message : e); }
+  res.json({ success: true, config });
+});
+
+// GET /settings/prep-times - prep-time targets per menu category
+app.get("/settings/prep-times", async (req, res) => {
+  res.json(await getPrepTargets());
+});
+
+// PUT /settings/prep-times - update the targets; applies to orders placed from now on
+app.put("/settings/prep-times", auth.requireRole("manager"), async (req, res) => {
+  const { config, error } = prepTimes.normalizePrepTargets(req.body, await getPrepTargets());
+  if (error) return res.status(400).json({ success: false, message: error });
+  config.updatedAt = Date.now();
+  const actor = auth.actorFor(req, req.body.actor);
+  config.updatedBy = actor ? orderStatus.normalizeActor(actor) : null;
+  currentPrepTargets = config;
+  try { await store.settings.save({ ...config, id: "prep-times" }); } catch (e) { console.warn("Failed to persist prep-time targets:", e && e.message ? e.message : e); }
+  res.json({ success: true, config });
 });
 
 // Simple daily report computed from stored bills/orders
-app.get("/reports/daily", (req, res) => {
+app.get("/reports/daily", auth.requireRole("manager"), (req, res) => {
   const date = req.query.date || new Date().toISOString().split("T")[0];
   // filter bills by date (createdAt)
   const start = new Date(date + "T00:00:00").getTime();
   const end = new Date(date + "T23:59:59").getTime();
-  const dayBills = bills.filter((b) => b.createdAt >= start && b.createdAt <= end);
-  const totalRevenue = dayBills.reduce((s, b) => s + (b.total || 0), 0);
-  const totalOrders = dayBills.length;
-  const customers = new Set(dayBills.map((b) => b.customerName));
-  // top items
+  // child bills of a split only re-divide their parent, so count parents alone
+  const dayBills = bills.filter((b) => !b.parentBillId && b.createdAt >= start && b.createdAt <= end);
+  // credit notes count against the day they were issued, whenever the bill they reverse was
+  const daySales = dayBills.filter((b) => !creditNotes.isCreditNote(b));
+  const dayCredits = dayBills.filter(creditNotes.isCreditNote);
+  const signedTotal = (b) => (creditNotes.isCreditNote(b) ? -1 : 1) * (b.total || 0);
+  const creditedAmount = dayCredits.reduce((s, b) => s + (b.total || 0), 0);
+  const totalRevenue = dayBills.reduce((s, b) => s + signedTotal(b), 0);
+  const totalOrders = daySales.length;
+  const customers = new Set(daySales.map((b) => b.customerName));
+  // top items, net of credited lines
   const itemMap = {};
   dayBills.forEach((b) => {
+    const sign = creditNotes.isCreditNote(b) ? -1 : 1;
     b.items.forEach((it) => {
       const key = it.id || it.name;
       if (!itemMap[key]) itemMap[key] = { name: it.name, quantity: 0, revenue: 0 };
-      itemMap[key].quantity += it.quantity || 1;
-      itemMap[key].revenue += (it.price || 0) * (it.quantity || 1);
+      itemMap[key].quantity += sign * (it.quantity || 1);
+      itemMap[key].revenue += sign * (it.price || 0) * (it.quantity || 1);
     });
   });
-  const topItems = Object.values(itemMap).sort((a, b) => b.quantity - a.quantity).slice(0, 10);
+  const topItems = Object.values(itemMap).filter((it) => it.quantity > 0).sort((a, b) => b.quantity - a.quantity).slice(0, 10);
   const hourly = [];
   for (let h = 0; h < 24; h++) {
     const hourStart = start + h * 3600 * 1000;
     const hourEnd = hourStart + 3600 * 1000 - 1;
     const hb = dayBills.filter((b) => b.createdAt >= hourStart && b.createdAt <= hourEnd);
-    hourly.push({ hour: `${String(h).padStart(2, "0")}:00`, orders: hb.length, revenue: hb.reduce((s, x) => s + (x.total || 0), 0) });
+    hourly.push({ hour: `${String(h).padStart(2, "0")}:00`, orders: hb.filter((b) => !creditNotes.isCreditNote(b)).length, revenue: hb.reduce((s, x) => s + signedTotal(x), 0) });
   }
-  res.json({ date, totalOrders, totalRevenue, averageOrderValue: totalOrders ? totalRevenue / totalOrders : 0, totalCustomers: customers.size, topItems, hourlyBreakdown: hourly });
+  res.json({
+    date,
+    totalOrders,
+    totalRevenue,
+    averageOrderValue: totalOrders ? totalRevenue / totalOrders : 0,
+    totalCustomers: customers.size,
+    topItems,
+    hourlyBreakdown: hourly,
+    credits: { count: dayCredits.length, amount: creditedAmount },
+    // takings by tender for payments captured that day, and what the day's bills still owe
+    payments: {
+      ...payments.tenderSummary(bills, start, end),
+      // bills from before payments were tracked have no balance to chase
+      outstanding: Math.round(daySales.filter((b) => !b.creditNote && b.paymentStatus).reduce((s, b) => s + b.balanceDue, 0) * 100) / 100,
+    },
+    voids: voids.voidSummary(orders, start, end),
+    prepTimes: prepTimes.prepSummary(orders, start, end),
+  });
 });
 
 // Dev-only: seed menu collection from `menuData` (safe for local development)
 if (process.env.NODE_ENV !== 'production') {
-  app.post('/admin/seed-menu', async (req, res) => {
+  app.post('/admin/seed-menu', auth.requireRole("admin"), async (req, res) => {
     try {
       const docs = [];
       const newMenuData = {
@@ -591,18 +1829,16 @@ if (process.env.NODE_ENV !== 'production') {
         });
       });
 
-      if (useMongo && mongoDb) {
-        const ops = docs.map((d) => ({ updateOne: { filter: { _id: d._id }, update: { $set: d }, upsert: true } }));
-        if (ops.length) await mongoDb.collection('menu').bulkWrite(ops);
-        return res.json({ success: true, inserted: docs.length });
-      }
-
-      // Fallback: seed in-memory menuData
-      docs.forEach((d) => {
+      // Replace items with the same id, add the rest
+      for (const d of docs) {
+        const { _id, ...item } = d;
+        const pos = findMenuItem(_id);
+        if (pos) menuData[pos.category].splice(pos.index, 1);
         if (!menuData[d.category]) menuData[d.category] = [];
-        menuData[d.category].push({ id: d._id, name: d.name, price: d.price, available: d.available, category: d.category });
-      });
-      return res.json({ success: true, inserted: docs.length, message: 'Seeded in-memory menu' });
+        menuData[d.category].push({ id: _id, ...item });
+        await saveMenuItem({ id: _id, ...item }, d.category);
+      }
+      return res.json({ success: true, inserted: docs.length, message: `Seeded ${store.kind} menu` });
     } catch (e) {
       console.error('Seed failed:', e);
       return res.status(500).json({ success: false, error: String(e) });
@@ -655,6 +1891,12 @@ const basePort = parseInt(process.env.PORT || PORT, 10) || 4001;
       process.exit(1);
     }
   }
+  try {
+    await openStore();
+  } catch (e) {
+    console.error('Failed to load stored data:', e && e.message ? e.message : e);
+    process.exit(1);
+  }
   for (let i = 0; i <= maxRetries; i++) {
     const tryPort = basePort + i;
     try {
@@ -0,0 +1,145 @@
+// Ingredient stock and the recipes that draw it down.
+//
+// Ingredient: { id, name, unit, stock, lowStockThreshold, updatedAt }
+// Recipe:     { menuItemId, lines: [{ ingredientId, quantity }] } — quantities per single serving
+//
+// Stock is taken when an order moves to PREPARING (or when a round is added to an order already
+// being prepared) and given back when the line or order is voided. What was taken is kept on the
+// order line as `item.stock` so a later recipe change can't restore the wrong amount.
+// A menu item with a recipe is switched off (`available: false, autoUnavailable: true`) as soon
+// as any ingredient can't cover one more serving, and back on once it is restocked.
+
+const UNITS = ["g", "kg", "ml", "l", "pcs"];
+const MAX_NAME_LENGTH = 60;
+
+// Stock is kept to three decimals so repeated 0.1 kg deductions don't drift
+const round3 = (n) => Math.round(Number(n) * 1000) / 1000;
+
+const isQuantity = (n) => typeof n === "number" && Number.isFinite(n) && n >= 0;
+
+// Validate a create (current = null) or update of an ingredient.
+// Returns { ingredient } or { error } describing the first invalid value.
+function normalizeIngredient(input, current = null, ingredients = []) {
+  const body = input || {};
+  const name = body.name !== undefined ? String(body.name).trim() : current ? current.name : "";
+  if (!name || name.length > MAX_NAME_LENGTH) return { error: `Name must be 1 to ${MAX_NAME_LENGTH} characters` };
+  const clash = ingredients.find((i) => i.name.toLowerCase() === name.toLowerCase() && (!current || i.id !== current.id));
+  if (clash) return { error: `${clash.name} already exists` };
+
+  const unit = body.unit !== undefined ? body.unit : current ? current.unit : "pcs";
+  if (!UNITS.includes(unit)) return { error: `Unit must be one of ${UNITS.join(", ")}` };
+  const stock = body.stock !== undefined ? body.stock : current ? current.stock : 0;
+  if (!isQuantity(stock)) return { error: "Stock must be zero or more" };
+  const lowStockThreshold = body.lowStockThreshold !== undefined ? body.lowStockThreshold : current ? current.lowStockThreshold : 0;
+  if (!isQuantity(lowStockThreshold)) return { error: "Low-stock level must be zero or more" };
+
+  return {
+    ingredient: {
+      id: current ? current.id : body.id || `ing-${Date.now()}`,
+      name,
+      unit,
+      stock: round3(stock),
+      lowStockThreshold: round3(lowStockThreshold),
+      updatedAt: Date.now(),
+    },
+  };
+}
+
+// Validate recipe lines against the known ingredients. Returns { lines } or { error }.
+// An empty list removes the recipe, leaving the item's availability to the manual toggle.
+function normalizeRecipe(lines, ingredients) {
+  if (!Array.isArray(lines)) return { error: "Recipe must be a list of ingredients" };
+  const seen = new Set();
+  const out = [];
+  for (const line of lines) {
+    const ingredient = ingredients.find((i) => i.id === (line && line.ingredientId));
+    if (!ingredient) return { error: `Unknown ingredient: ${line && line.ingredientId}` };
+    if (seen.has(ingredient.id)) return { error: `${ingredient.name} is listed twice` };
+    if (typeof line.quantity !== "number" || !(line.quantity > 0)) return { error: `${ingredient.name}: quantity must be more than zero` };
+    seen.add(ingredient.id);
+    out.push({ ingredientId: ingredient.id, quantity: round3(line.quantity) });
+  }
+  return { lines: out };
+}
+
+// What one order line takes from stock: its recipe times the quantity ordered
+function lineUsage(item, recipes) {
+  const recipe = recipes.find((r) => r.menuItemId === item.id);
+  if (!recipe) return [];
+  return recipe.lines.map((l) => ({ ingredientId: l.ingredientId, quantity: round3(l.quantity * (item.quantity || 1)) }));
+}
+
+// Apply usage to stock (sign -1 takes, +1 gives back). Stock may go below zero when the kitchen
+// makes a dish the count said it couldn't; the count is what's wrong then, not the order.
+// Returns the ingredients that changed.
+function applyUsage(ingredients, usage, sign) {
+  const changed = [];
+  usage.forEach(({ ingredientId, quantity }) => {
+    const ingredient = ingredients.find((i) => i.id === ingredientId);
+    if (!ingredient) return;
+    ingredient.stock = round3(ingredient.stock + sign * quantity);
+    ingredient.updatedAt = Date.now();
+    if (!changed.includes(ingredient)) changed.push(ingredient);
+  });
+  return changed;
+}
+
+// Take stock for every line that hasn't drawn any yet; returns the ingredients that changed
+function takeStock(items, recipes, ingredients) {
+  const changed = [];
+  items.forEach((item) => {
+    if (item.voided || item.stock) return;
+    item.stock = lineUsage(item, recipes);
+    applyUsage(ingredients, item.stock, -1).forEach((i) => !changed.includes(i) && changed.push(i));
+  });
+  return changed;
+}
+
+// Give back what the lines took; returns the ingredients that changed
+function returnStock(items, ingredients) {
+  const changed = [];
+  items.forEach((item) => {
+    if (!item.stock) return;
+    applyUsage(ingredients, item.stock, 1).forEach((i) => !changed.includes(i) && changed.push(i));
+    item.stock = null;
+  });
+  return changed;
+}
+
+const isLow = (ingredient) => ingredient.stock <= ingredient.lowStockThreshold;
+
+// Can the kitchen make one more serving of the recipe?
+const canMake = (recipe, ingredients) =>
+  recipe.lines.every((l) => {
+    const ingredient = ingredients.find((i) => i.id === l.ingredientId);
+    return ingredient && ingredient.stock >= l.quantity;
+  });
+
+// Menu items whose availability should change: [{ id, available }]. Only items with a recipe
+// are switched off, and only items switched off here are switched back on, so a manager's
+// manual "unavailable" sticks.
+function availabilityChanges(menuItems, recipes, ingredients) {
+  const changes = [];
+  menuItems.forEach((item) => {
+    const recipe = recipes.find((r) => r.menuItemId === item.id);
+    if (!recipe || recipe.lines.length === 0) return;
+    const makeable = canMake(recipe, ingredients);
+    if (!makeable && item.available !== false) changes.push({ id: item.id, available: false });
+    if (makeable && item.available === false && item.autoUnavailable) changes.push({ id: item.id, available: true });
+  });
+  return changes;
+}
+
+// Ingredient as returned by the API, with its low-stock flag
+const publicIngredient = (ingredient) => ({ ...ingredient, low: isLow(ingredient) });
+
+module.exports = {
+  UNITS,
+  normalizeIngredient,
+  normalizeRecipe,
+  takeStock,
+  returnStock,
+  isLow,
+  availabilityChanges,
+  publicIngredient,
+};
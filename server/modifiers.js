@@ -0,0 +1,68 @@
+// Modifier groups on menu items: variants (size) and options (sugar level, add-ons).
+//
+// Group: { id, name, required, min, max, options: [{ id, name, priceDelta }] }
+// A line's selection is a list of { groupId, groupName, optionId, name, priceDelta }.
+// A required group needs at least one pick; min/max bound how many options may be picked.
+
+const { v4: uuidv4 } = require("uuid");
+
+const shortId = (prefix) => `${prefix}-${uuidv4().slice(0, 8)}`;
+
+// Validate and fill defaults for an item's modifier groups.
+// Returns { groups } or { error } describing the first invalid value.
+function normalizeModifierGroups(input) {
+  if (input === undefined || input === null) return { groups: [] };
+  if (!Array.isArray(input)) return { error: "modifierGroups must be a list" };
+  const groups = [];
+  for (const raw of input) {
+    const name = String((raw && raw.name) || "").trim();
+    if (!name) return { error: "Every modifier group needs a name" };
+    const options = [];
+    for (const opt of raw.options || []) {
+      const optionName = String((opt && opt.name) || "").trim();
+      if (!optionName) return { error: `${name}: every option needs a name` };
+      const priceDelta = Number(opt.priceDelta || 0);
+      if (!Number.isFinite(priceDelta)) return { error: `${name} / ${optionName}: price must be a number` };
+      options.push({ id: opt.id || shortId("opt"), name: optionName, priceDelta });
+    }
+    if (options.length === 0) return { error: `${name}: add at least one option` };
+    const required = !!raw.required;
+    const min = Math.max(required ? 1 : 0, parseInt(raw.min, 10) || 0);
+    const max = raw.max === undefined || raw.max === null || raw.max === "" ? options.length : parseInt(raw.max, 10);
+    if (!Number.isInteger(max) || max < 1 || max < min) return { error: `${name}: max must be at least ${Math.max(min, 1)}` };
+    if (min > options.length) return { error: `${name}: min is more than the number of options` };
+    groups.push({ id: raw.id || shortId("grp"), name, required, min, max: Math.min(max, options.length), options });
+  }
+  return { groups };
+}
+
+// Resolve a line's selection against the item's groups, taking names and prices from the menu.
+// Returns { modifiers } in menu order, or { error } for unknown options or a group's min/max.
+function resolveModifiers(groups, selection) {
+  if (selection !== undefined && selection !== null && !Array.isArray(selection)) return { error: "modifiers must be a list" };
+  const picked = new Set((selection || []).map((m) => m && m.optionId));
+  const known = new Set((groups || []).flatMap((g) => g.options.map((o) => o.id)));
+  const unknown = (selection || []).find((m) => !m || !known.has(m.optionId));
+  if (unknown) return { error: `Option ${(unknown && (unknown.name || unknown.optionId)) || "?"} is no longer offered` };
+
+  const modifiers = [];
+  for (const group of groups || []) {
+    const chosen = group.options.filter((o) => picked.has(o.id));
+    if (chosen.length < group.min) return { error: group.min === 1 ? `Choose a ${group.name.toLowerCase()}` : `Choose at least ${group.min} for ${group.name}` };
+    if (chosen.length > group.max) return { error: `Choose at most ${group.max} for ${group.name}` };
+    chosen.forEach((o) => modifiers.push({ groupId: group.id, groupName: group.name, optionId: o.id, name: o.name, priceDelta: o.priceDelta }));
+  }
+  return { modifiers };
+}
+
+// Stable identity of a selection, so "Chai, large" and "Chai, small" stay separate lines
+const modifierKey = (modifiers) =>
+  (modifiers || [])
+    .map((m) => m.optionId)
+    .sort()
+    .join("+");
+
+// "Large, Less sugar" for tickets and messages
+const describeModifiers = (modifiers) => (modifiers || []).map((m) => m.name).join(", ");
+
+module.exports = { normalizeModifierGroups, resolveModifiers, modifierKey, describeModifiers };
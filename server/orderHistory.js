@@ -0,0 +1,107 @@
+// Order history: filtered, newest-first pages of orders for GET /orders/history.
+//
+// Filters (all optional): from/to (YYYY-MM-DD, local days, inclusive) on createdAt, status
+// (comma-separated), table, and q which matches the order id, its display number ("#042" or "42"),
+// the customer's name or their phone. Pages are cut with an opaque cursor naming the last order
+// returned (createdAt + id), so orders placed while someone is paging don't shift later pages.
+
+const { ORDER_STATUSES } = require("./orderStatus");
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+const OPEN_STATUSES = ORDER_STATUSES.filter((s) => s !== "COMPLETED" && s !== "CANCELLED");
+const isOpen = (order) => OPEN_STATUSES.includes(order.status);
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Start of a local day, or NaN when the date is not real
+const dayStart = (date) => (DATE_RE.test(date) ? new Date(`${date}T00:00:00`).getTime() : NaN);
+
+const encodeCursor = (order) => Buffer.from(JSON.stringify([order.createdAt, order.id])).toString("base64url");
+
+function decodeCursor(cursor) {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(String(cursor), "base64url").toString("utf8"));
+    if (typeof createdAt === "number" && typeof id === "string") return { createdAt, id };
+  } catch {
+    // fall through to the invalid-cursor error
+  }
+  return null;
+}
+
+// Validate query-string filters. Returns { filters } or { error }.
+function parseHistoryQuery(query) {
+  const filters = { limit: DEFAULT_LIMIT };
+  const { from, to, status, table, q, limit, cursor } = query || {};
+
+  if (from) {
+    filters.from = dayStart(from);
+    if (Number.isNaN(filters.from)) return { error: "from must be a date (YYYY-MM-DD)" };
+  }
+  if (to) {
+    const start = dayStart(to);
+    if (Number.isNaN(start)) return { error: "to must be a date (YYYY-MM-DD)" };
+    filters.to = start + 24 * 3600 * 1000 - 1;
+  }
+  if (filters.from !== undefined && filters.to !== undefined && filters.from > filters.to) {
+    return { error: "from must not be after to" };
+  }
+  if (status) {
+    filters.statuses = String(status).split(",").map((s) => s.trim().toUpperCase()).filter(Boolean);
+    const unknown = filters.statuses.find((s) => !ORDER_STATUSES.includes(s));
+    if (unknown) return { error: `Status must be one of: ${ORDER_STATUSES.join(", ")}` };
+  }
+  if (table !== undefined && table !== "") {
+    filters.table = Number(table);
+    if (!Number.isInteger(filters.table) || filters.table < 1) return { error: "table must be a table number" };
+  }
+  if (q && String(q).trim()) filters.q = String(q).trim().toLowerCase();
+  if (limit !== undefined && limit !== "") {
+    filters.limit = Number(limit);
+    if (!Number.isInteger(filters.limit) || filters.limit < 1 || filters.limit > MAX_LIMIT) {
+      return { error: `limit must be between 1 and ${MAX_LIMIT}` };
+    }
+  }
+  if (cursor) {
+    filters.after = decodeCursor(cursor);
+    if (!filters.after) return { error: "Invalid cursor" };
+  }
+  return { filters };
+}
+
+const digits = (s) => String(s || "").replace(/\D/g, "");
+
+function matchesSearch(order, q) {
+  // Short searches are display numbers; any few digits would turn up somewhere in a uuid
+  if (q.length >= 4 && String(order.id).toLowerCase().includes(q)) return true;
+  if (order.customerName && order.customerName.toLowerCase().includes(q)) return true;
+  const qDigits = digits(q);
+  if (!qDigits) return false;
+  // "#042", "042" and "42" all find display number 42; phone numbers match on their digits
+  if (order.displayNumber && /^#?\d+$/.test(q) && Number(qDigits) === Number(digits(order.displayNumber))) return true;
+  return qDigits.length >= 3 && digits(order.phone).includes(qDigits);
+}
+
+// Newest first; the id breaks ties between orders placed in the same millisecond
+const newestFirst = (a, b) => b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const isBefore = (order, after) => order.createdAt < after.createdAt || (order.createdAt === after.createdAt && order.id < after.id);
+
+// One page of matching orders: { orders, nextCursor } with nextCursor null on the last page
+function searchOrders(allOrders, filters) {
+  const matching = allOrders
+    .filter((o) => filters.from === undefined || o.createdAt >= filters.from)
+    .filter((o) => filters.to === undefined || o.createdAt <= filters.to)
+    .filter((o) => !filters.statuses || filters.statuses.includes(o.status))
+    .filter((o) => filters.table === undefined || Number(o.tableNumber) === filters.table)
+    .filter((o) => !filters.q || matchesSearch(o, filters.q))
+    .filter((o) => !filters.after || isBefore(o, filters.after))
+    .sort(newestFirst);
+
+  const page = matching.slice(0, filters.limit);
+  const nextCursor = matching.length > filters.limit ? encodeCursor(page[page.length - 1]) : null;
+  return { orders: page, nextCursor };
+}
+
+module.exports = { DEFAULT_LIMIT, MAX_LIMIT, OPEN_STATUSES, isOpen, parseHistoryQuery, searchOrders };
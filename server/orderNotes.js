@@ -0,0 +1,64 @@
+// Special instructions on orders: free-text notes per order and per line,
+// plus structured allergy flags the kitchen must not miss.
+//
+// Order: { notes: string|null, allergens: ["peanuts", ...] }
+// Line:  { notes: string|null }
+// Line problems are reported like pricing.js does, { index, itemId, name, code, message }, with
+// code INVALID_LINE (not an object) or INVALID_NOTES.
+
+const MAX_NOTE_LENGTH = 200;
+
+// Keys are stored on the order; labels are what tickets and screens print
+const ALLERGENS = {
+  peanuts: "Peanuts",
+  tree_nuts: "Tree nuts",
+  dairy: "Dairy",
+  gluten: "Gluten",
+  egg: "Egg",
+  soy: "Soy",
+  sesame: "Sesame",
+  fish: "Fish",
+  shellfish: "Shellfish",
+};
+
+const cleanNote = (text) => {
+  if (text === undefined || text === null) return { note: null };
+  if (typeof text !== "string") return { error: "Notes must be text" };
+  const note = text.replace(/\s+/g, " ").trim();
+  if (note.length > MAX_NOTE_LENGTH) return { error: `Notes can be at most ${MAX_NOTE_LENGTH} characters` };
+  return { note: note || null };
+};
+
+// Validate the notes and allergy flags sent with a new order.
+// Returns { notes, allergens, items }, { error } for a bad order note or allergen list, or
+// { errors } listing every invalid line.
+function normalizeOrderNotes({ notes, allergens, items }) {
+  const orderNote = cleanNote(notes);
+  if (orderNote.error) return { error: orderNote.error };
+
+  if (allergens !== undefined && allergens !== null && !Array.isArray(allergens)) {
+    return { error: "allergens must be a list" };
+  }
+  const unknown = (allergens || []).filter((a) => !ALLERGENS[a]);
+  if (unknown.length) return { error: `Unknown allergen: ${unknown.join(", ")}` };
+
+  const errors = [];
+  const lines = [];
+  items.forEach((it, index) => {
+    if (!it || typeof it !== "object" || Array.isArray(it)) {
+      return errors.push({ index, itemId: null, name: null, code: "INVALID_LINE", message: `Line ${index + 1} is not an item` });
+    }
+    const lineNote = cleanNote(it.notes);
+    if (lineNote.error) {
+      return errors.push({ index, itemId: it.id || null, name: it.name || null, code: "INVALID_NOTES", message: `${it.name || it.id || `Line ${index + 1}`}: ${lineNote.error}` });
+    }
+    lines.push({ ...it, notes: lineNote.note });
+  });
+  if (errors.length) return { errors };
+  return { notes: orderNote.note, allergens: Array.from(new Set(allergens || [])), items: lines };
+}
+
+// "Peanuts, Dairy" for tickets and messages
+const describeAllergens = (allergens) => (allergens || []).map((a) => ALLERGENS[a] || a).join(", ");
+
+module.exports = { ALLERGENS, MAX_NOTE_LENGTH, normalizeOrderNotes, describeAllergens };
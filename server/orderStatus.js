@@ -0,0 +1,88 @@
+// Order status state machine — the server is the single source of truth for
+// which status changes are legal. Every applied change is appended to the
+// order's `statusHistory` so we can see who moved an order and when.
+
+const ORDER_STATUSES = ["PENDING", "PREPARING", "READY", "BILL_REQUESTED", "COMPLETED", "CANCELLED"];
+
+const TRANSITIONS = {
+  PENDING: ["PREPARING", "CANCELLED"],
+  PREPARING: ["READY", "CANCELLED"],
+  READY: ["COMPLETED", "BILL_REQUESTED"],
+  BILL_REQUESTED: ["COMPLETED"],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+const isValidStatus = (status) => ORDER_STATUSES.includes(status);
+
+const allowedTransitions = (from) => TRANSITIONS[from] || [];
+
+const canTransition = (from, to) => allowedTransitions(from).includes(to);
+
+// Accepts `{ id, name, role }` or a plain string; falls back to "system"
+function normalizeActor(actor) {
+  if (!actor) return { name: "system" };
+  if (typeof actor === "string") return { name: actor };
+  return {
+    id: actor.id ? String(actor.id) : undefined,
+    name: actor.name ? String(actor.name) : "unknown",
+    role: actor.role ? String(actor.role) : undefined,
+  };
+}
+
+// Record the initial PENDING entry for a freshly created order
+function initHistory(order, actor) {
+  order.statusHistory = [{ from: null, to: order.status, at: order.createdAt || Date.now(), actor: normalizeActor(actor) }];
+  return order;
+}
+
+// Move `order` to `to`, appending a history entry. Callers must check
+// canTransition first; this throws if the transition is illegal.
+function applyTransition(order, to, actor) {
+  const from = order.status;
+  if (!canTransition(from, to)) {
+    throw new Error(`Illegal order status transition ${from} -> ${to}`);
+  }
+  const entry = { from, to, at: Date.now(), actor: normalizeActor(actor) };
+  order.status = to;
+  order.statusHistory = [...(order.statusHistory || []), entry];
+  return entry;
+}
+
+// A manager re-opening a completed order sends it back to READY. It is kept out of TRANSITIONS
+// so PATCH /orders/:id can't do it; POST /orders/:id/reopen reverses the bill first.
+const REOPEN_STATUS = "READY";
+
+function applyReopen(order, actor, reason) {
+  if (order.status !== "COMPLETED") {
+    throw new Error(`Illegal order re-open from ${order.status}`);
+  }
+  const entry = { from: order.status, to: REOPEN_STATUS, at: Date.now(), actor: normalizeActor(actor), reason };
+  order.status = REOPEN_STATUS;
+  order.statusHistory = [...(order.statusHistory || []), entry];
+  return entry;
+}
+
+// Standard 409 body for a rejected transition
+function transitionError(order, to) {
+  return {
+    success: false,
+    message: `Cannot change order ${order.id} from ${order.status} to ${to}`,
+    from: order.status,
+    to,
+    allowed: allowedTransitions(order.status),
+  };
+}
+
+module.exports = {
+  ORDER_STATUSES,
+  TRANSITIONS,
+  isValidStatus,
+  allowedTransitions,
+  canTransition,
+  normalizeActor,
+  initHistory,
+  applyTransition,
+  applyReopen,
+  transitionError,
+};
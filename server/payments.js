@@ -0,0 +1,151 @@
+// Payments against bills: cash, UPI and card tenders, with partial payments.
+//
+// Each bill keeps the tenders taken against it and a running status:
+//   bill.payments: [{ id, tender, amount, status, tendered, change, reference, upi, createdAt, capturedAt, actor }]
+//   bill.paidAmount, bill.balanceDue, bill.paymentStatus: UNPAID | PARTIALLY_PAID | PAID
+// Cash and card are captured as soon as they are recorded (card payments run on the terminal and
+// the slip reference is typed in). UPI goes through a payment provider: the bill gets a PENDING
+// payment with a upi://pay intent for the QR, which is captured once the provider reports the money
+// arrived. Only captured payments count. Once a bill is split, diners pay the shares and the
+// parent's status is rolled up from them.
+//
+// A credit note pays back everything taken on the bill it reverses: each captured payment gets a
+// REFUNDED entry in the same tender on the credit note, and keeps its id as `refundId`. Pending
+// UPI payments are cancelled. A re-opened order's new bill is then paid from scratch.
+
+const { toPaise, toRupees } = require("./billing");
+const { newId } = require("./sequences");
+
+const TENDERS = ["CASH", "UPI", "CARD"];
+const MAX_REFERENCE_LENGTH = 40;
+
+const captured = (bill) => (bill.payments || []).filter((p) => p.status === "CAPTURED");
+
+const statusFor = (paid, total) => (paid <= 0 ? "UNPAID" : paid >= total ? "PAID" : "PARTIALLY_PAID");
+
+// Recompute paidAmount / balanceDue / paymentStatus; a split parent sums its shares instead
+function updatePaymentStatus(bill, shares = []) {
+  const paid = shares.length
+    ? shares.reduce((s, share) => s + toPaise(share.paidAmount), 0)
+    : captured(bill).reduce((s, p) => s + toPaise(p.amount), 0);
+  const total = toPaise(bill.total);
+  bill.paidAmount = toRupees(paid);
+  bill.balanceDue = toRupees(Math.max(total - paid, 0));
+  bill.paymentStatus = statusFor(paid, total);
+  return bill;
+}
+
+// Returns null when payments may be taken on `bill` (a split share's `parent` is passed too),
+// otherwise { error, status }
+function paymentError(bill, parent = null) {
+  if (bill.kind === "CREDIT_NOTE") return { error: "Credit notes are not paid", status: 400 };
+  const credited = bill.creditNote || (parent && parent.creditNote);
+  if (credited) return { error: `Bill was credited by ${credited.invoiceNumber}`, status: 409 };
+  if ((bill.splitIds || []).length) return { error: "Bill is split; take payment on each share", status: 409 };
+  if (toPaise(bill.balanceDue !== undefined ? bill.balanceDue : bill.total) <= 0) return { error: "Bill is already paid", status: 409 };
+  return null;
+}
+
+// Validate a payment request against what is still due.
+// Returns { payment } (not yet saved) or { error }.
+function normalizePayment(body, bill) {
+  const { tender, amount, tendered, reference } = body || {};
+  if (!TENDERS.includes(tender)) return { error: `Tender must be one of ${TENDERS.join(", ")}` };
+  const due = toPaise(bill.balanceDue !== undefined ? bill.balanceDue : bill.total);
+
+  // Cash defaults to whatever was handed over, up to the balance
+  const cashHanded = tendered !== undefined && tendered !== "" ? toPaise(tendered) : null;
+  const requested = amount !== undefined && amount !== "" ? toPaise(amount) : null;
+  const paise = requested !== null ? requested : tender === "CASH" && cashHanded !== null ? Math.min(cashHanded, due) : due;
+  if (!Number.isFinite(paise) || paise <= 0) return { error: "Amount must be more than zero" };
+  if (paise > due) return { error: `Amount is more than the ₹${toRupees(due)} still due` };
+
+  const payment = { id: newId("PAY"), tender, amount: toRupees(paise), status: "CAPTURED", createdAt: Date.now() };
+  if (tender === "CASH") {
+    const handed = cashHanded !== null ? cashHanded : paise;
+    if (!Number.isFinite(handed) || handed < paise) return { error: "Cash tendered must cover the amount" };
+    payment.tendered = toRupees(handed);
+    payment.change = toRupees(handed - paise);
+  }
+  if (tender === "CARD") {
+    const ref = reference ? String(reference).trim() : "";
+    if (!ref) return { error: "Card payments need the slip reference" };
+    if (ref.length > MAX_REFERENCE_LENGTH) return { error: `Reference must be at most ${MAX_REFERENCE_LENGTH} characters` };
+    payment.reference = ref;
+  }
+  if (tender === "UPI") payment.status = "PENDING";
+  else payment.capturedAt = payment.createdAt;
+  return { payment };
+}
+
+// Pay back the money taken on `docs` (a credited bill and its split shares) and cancel what is still
+// pending. Returns the refunds for the credit note: { id, tender, amount, status: "REFUNDED", refundOf, billId, refundedAt, actor }
+function refundPayments(docs, actor, at = Date.now()) {
+  const refunds = [];
+  docs.forEach((doc) => {
+    (doc.payments || []).forEach((p) => {
+      if (p.status === "PENDING") p.status = "CANCELLED";
+      if (p.status !== "CAPTURED" || p.refundId) return;
+      const refund = { id: newId("PAY"), tender: p.tender, amount: p.amount, status: "REFUNDED", refundOf: p.id, billId: doc.id, createdAt: at, refundedAt: at, actor };
+      p.refundId = refund.id;
+      refunds.push(refund);
+    });
+  });
+  return refunds;
+}
+
+// upi://pay link any UPI app opens with the payee and amount filled in
+function upiIntentUrl({ upiId, payeeName, amount, transactionRef, note }) {
+  const params = new URLSearchParams({ pa: upiId, pn: payeeName || upiId, am: amount.toFixed(2), cu: "INR", tr: transactionRef, tn: note });
+  return `upi://pay?${params.toString()}`;
+}
+
+// ---- Providers ----
+//
+// A provider turns a pending UPI payment into a collectable intent and later says whether it was
+// paid. The mock needs no account: the QR is a plain UPI intent to the business's own UPI ID and
+// staff confirm it when the money shows up.
+
+const mockProvider = {
+  name: "mock",
+  createUpiIntent({ payment, bill, upiId, payeeName }) {
+    return {
+      providerRef: `MOCK-${payment.id}`,
+      intentUrl: upiIntentUrl({ upiId, payeeName, amount: payment.amount, transactionRef: payment.id, note: `Bill ${bill.invoiceNumber || bill.id}` }),
+    };
+  },
+  async confirm() {
+    return { status: "CAPTURED" };
+  },
+};
+
+const PROVIDERS = { mock: mockProvider };
+
+const providerName = process.env.PAYMENT_PROVIDER || "mock";
+if (!PROVIDERS[providerName]) console.warn(`Unknown PAYMENT_PROVIDER "${providerName}"; using the mock provider`);
+const provider = PROVIDERS[providerName] || mockProvider;
+
+// Payments taken on bills between start and end (ms), net of refunds made then, for the daily report:
+// { byTender: [{ tender, count, amount, refunded }], collected, refunded }
+function tenderSummary(bills, start, end) {
+  const within = (at) => at >= start && at <= end;
+  const taken = bills.flatMap(captured).filter((p) => within(p.capturedAt));
+  const refunds = bills.flatMap((b) => (b.payments || []).filter((p) => p.status === "REFUNDED" && within(p.refundedAt)));
+  const total = (list) => list.reduce((s, p) => s + toPaise(p.amount), 0);
+  const byTender = TENDERS.map((tender) => {
+    const payments = taken.filter((p) => p.tender === tender);
+    const refunded = total(refunds.filter((p) => p.tender === tender));
+    return { tender, count: payments.length, amount: toRupees(total(payments) - refunded), refunded: toRupees(refunded) };
+  });
+  return { byTender, collected: toRupees(total(taken) - total(refunds)), refunded: toRupees(total(refunds)) };
+}
+
+module.exports = {
+  TENDERS,
+  updatePaymentStatus,
+  paymentError,
+  normalizePayment,
+  refundPayments,
+  provider,
+  tenderSummary,
+};
@@ -0,0 +1,118 @@
+// Tenders taken against a bill, how they roll up into its status, refunds on a credit note and the
+// daily tender summary.
+//
+//   npm test
+
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const payments = require("./payments");
+
+const cashier = { id: "staff-3", name: "Kiran", role: "cashier" };
+
+const bill = (total, extra = {}) => payments.updatePaymentStatus({ id: "BILL-1", total, payments: [], ...extra });
+
+const paid = (tender, amount, at = 1000) => ({ id: `PAY-${tender}-${amount}`, tender, amount, status: "CAPTURED", createdAt: at, capturedAt: at });
+
+describe("normalizePayment", () => {
+  it("takes cash up to the balance and gives change for the rest", () => {
+    const { payment, error } = payments.normalizePayment({ tender: "CASH", tendered: 500 }, bill(236.25));
+    assert.equal(error, undefined);
+    assert.equal(payment.amount, 236.25);
+    assert.equal(payment.tendered, 500);
+    assert.equal(payment.change, 263.75);
+    assert.equal(payment.status, "CAPTURED");
+    assert.equal(payment.capturedAt, payment.createdAt);
+  });
+
+  it("defaults the amount to what is still due", () => {
+    const partly = bill(300, { payments: [paid("CASH", 100)] });
+    assert.equal(payments.normalizePayment({ tender: "CARD", reference: "4412" }, partly).payment.amount, 200);
+  });
+
+  it("never takes more than the balance", () => {
+    const { error } = payments.normalizePayment({ tender: "UPI", amount: 300.01 }, bill(300));
+    assert.match(error, /more than the ₹300 still due/);
+  });
+
+  it("needs cash to cover the amount and cards to carry a slip reference", () => {
+    assert.match(payments.normalizePayment({ tender: "CASH", amount: 100, tendered: 50 }, bill(300)).error, /Cash tendered/);
+    assert.match(payments.normalizePayment({ tender: "CARD", reference: "  " }, bill(300)).error, /slip reference/);
+    assert.match(payments.normalizePayment({ tender: "CARD", reference: "x".repeat(41) }, bill(300)).error, /at most 40/);
+    assert.equal(payments.normalizePayment({ tender: "CARD", reference: " 4412 " }, bill(300)).payment.reference, "4412");
+  });
+
+  it("rejects unknown tenders and empty amounts", () => {
+    assert.match(payments.normalizePayment({ tender: "CHEQUE" }, bill(300)).error, /Tender must be one of/);
+    assert.match(payments.normalizePayment({ tender: "UPI", amount: 0 }, bill(300)).error, /more than zero/);
+  });
+
+  it("leaves UPI pending until the provider reports it", () => {
+    const { payment } = payments.normalizePayment({ tender: "UPI", amount: 50 }, bill(300));
+    assert.equal(payment.status, "PENDING");
+    assert.equal(payment.capturedAt, undefined);
+  });
+});
+
+describe("updatePaymentStatus", () => {
+  it("counts only captured payments", () => {
+    const b = bill(300, { payments: [paid("CASH", 100), { ...paid("UPI", 200), status: "PENDING" }] });
+    assert.deepEqual([b.paidAmount, b.balanceDue, b.paymentStatus], [100, 200, "PARTIALLY_PAID"]);
+  });
+
+  it("is unpaid with nothing captured and paid once the total is covered to the paisa", () => {
+    assert.equal(bill(300).paymentStatus, "UNPAID");
+    const b = bill(100.1, { payments: [paid("CASH", 0.1), paid("CARD", 100)] });
+    assert.deepEqual([b.paidAmount, b.balanceDue, b.paymentStatus], [100.1, 0, "PAID"]);
+  });
+
+  it("never shows a negative balance when a bill is overpaid", () => {
+    const b = bill(300, { payments: [paid("CASH", 200), paid("UPI", 150)] });
+    assert.deepEqual([b.paidAmount, b.balanceDue, b.paymentStatus], [350, 0, "PAID"]);
+  });
+
+  it("rolls a split parent up from its shares rather than its own payments", () => {
+    const parent = { id: "BILL-1", total: 300, payments: [paid("CASH", 300)] };
+    payments.updatePaymentStatus(parent, [{ paidAmount: 100 }, { paidAmount: 0 }, { paidAmount: 50.5 }]);
+    assert.deepEqual([parent.paidAmount, parent.balanceDue, parent.paymentStatus], [150.5, 149.5, "PARTIALLY_PAID"]);
+  });
+});
+
+describe("refundPayments", () => {
+  it("refunds each captured payment once in the same tender and cancels pending UPI", () => {
+    const parent = { id: "BILL-1", payments: [] };
+    const share = { id: "BILL-1-A", payments: [paid("CASH", 120), paid("CARD", 80), { ...paid("UPI", 40), status: "PENDING" }] };
+
+    const refunds = payments.refundPayments([parent, share], cashier, 5000);
+    assert.deepEqual(
+      refunds.map((r) => [r.tender, r.amount, r.status, r.billId, r.refundedAt]),
+      [
+        ["CASH", 120, "REFUNDED", "BILL-1-A", 5000],
+        ["CARD", 80, "REFUNDED", "BILL-1-A", 5000],
+      ]
+    );
+    assert.deepEqual(refunds.map((r) => r.refundOf), [share.payments[0].id, share.payments[1].id]);
+    assert.deepEqual(share.payments.map((p) => p.refundId), [refunds[0].id, refunds[1].id, undefined]);
+    assert.equal(share.payments[2].status, "CANCELLED");
+    assert.equal(refunds[0].actor, cashier);
+
+    assert.deepEqual(payments.refundPayments([parent, share], cashier, 6000), []);
+  });
+});
+
+describe("tenderSummary", () => {
+  it("totals captured payments by tender within the window, net of refunds made in it", () => {
+    const bills = [
+      { payments: [paid("CASH", 100, 1000), paid("UPI", 50.25, 1500), { ...paid("UPI", 70), status: "PENDING" }] },
+      { payments: [paid("CARD", 200, 2000), paid("CASH", 999, 9000)] },
+      { kind: "CREDIT_NOTE", payments: [{ id: "PAY-R", tender: "CARD", amount: 200, status: "REFUNDED", refundedAt: 2500 }] },
+    ];
+    const summary = payments.tenderSummary(bills, 1000, 3000);
+    assert.deepEqual(summary.byTender, [
+      { tender: "CASH", count: 1, amount: 100, refunded: 0 },
+      { tender: "UPI", count: 1, amount: 50.25, refunded: 0 },
+      { tender: "CARD", count: 1, amount: 0, refunded: 200 },
+    ]);
+    assert.equal(summary.collected, 150.25);
+    assert.equal(summary.refunded, 200);
+  });
+});
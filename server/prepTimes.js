@@ -0,0 +1,73 @@
+// Prep-time targets and measured ticket times. Managers edit the targets through
+// GET/PUT /settings/prep-times.
+//
+// Targets are minutes per menu category; a category without its own target uses defaultMinutes.
+// An order's target is the slowest of its lines and is kept on the order as `prepTargetMinutes`,
+// so editing targets doesn't move the goalposts for tickets already in the kitchen.
+// The ticket clock runs from when the order was placed until it is READY, recorded as
+//   order.prepTime: { readyAt, minutes, targetMinutes, breached }
+
+const DEFAULT_PREP_TARGETS = {
+  defaultMinutes: 10,
+  categoryMinutes: { Tea: 4, Snacks: 8, Paratha: 12 },
+  updatedAt: null,
+  updatedBy: null,
+};
+
+const MAX_MINUTES = 180;
+
+const isMinutes = (m) => typeof m === "number" && Number.isFinite(m) && m >= 1 && m <= MAX_MINUTES;
+
+// Merge a (partial) update onto the current targets.
+// Returns { config } or { error } describing the first invalid value.
+function normalizePrepTargets(input, current = DEFAULT_PREP_TARGETS) {
+  const body = input || {};
+  const next = {
+    ...current,
+    categoryMinutes: body.categoryMinutes !== undefined ? { ...body.categoryMinutes } : { ...current.categoryMinutes },
+  };
+  if (body.defaultMinutes !== undefined) next.defaultMinutes = body.defaultMinutes;
+
+  if (!isMinutes(next.defaultMinutes)) return { error: `Default target must be between 1 and ${MAX_MINUTES} minutes` };
+  for (const [category, minutes] of Object.entries(next.categoryMinutes)) {
+    if (!category.trim()) return { error: "Category name is required" };
+    if (!isMinutes(minutes)) return { error: `Target for ${category} must be between 1 and ${MAX_MINUTES} minutes` };
+  }
+  return { config: next };
+}
+
+const minutesForCategory = (config, category) =>
+  category && config.categoryMinutes[category] !== undefined ? config.categoryMinutes[category] : config.defaultMinutes;
+
+// Target for a batch of priced lines: the slowest category among them
+const targetFor = (items, menuIndex, config) =>
+  Math.max(
+    ...items.map((item) => {
+      const menuItem = menuIndex.get(item.id);
+      return minutesForCategory(config, menuItem && menuItem.category);
+    })
+  );
+
+// Record how long the order took; call as it moves to READY
+function recordPrepTime(order, readyAt = Date.now()) {
+  const minutes = Math.round(((readyAt - order.createdAt) / 60000) * 10) / 10;
+  const targetMinutes = order.prepTargetMinutes || null;
+  order.prepTime = { readyAt, minutes, targetMinutes, breached: targetMinutes !== null && minutes > targetMinutes };
+  return order.prepTime;
+}
+
+// Tickets that became ready between start and end (ms), for the daily report:
+// { count, averageMinutes, breached, breachRate } with breachRate in percent
+function prepSummary(orders, start, end) {
+  const timed = orders.filter((o) => o.prepTime && o.prepTime.readyAt >= start && o.prepTime.readyAt <= end);
+  const breached = timed.filter((o) => o.prepTime.breached).length;
+  const total = timed.reduce((sum, o) => sum + o.prepTime.minutes, 0);
+  return {
+    count: timed.length,
+    averageMinutes: timed.length ? Math.round((total / timed.length) * 10) / 10 : 0,
+    breached,
+    breachRate: timed.length ? Math.round((breached / timed.length) * 1000) / 10 : 0,
+  };
+}
+
+module.exports = { DEFAULT_PREP_TARGETS, normalizePrepTargets, targetFor, recordPrepTime, prepSummary };
@@ -0,0 +1,54 @@
+// Order lines are priced from the menu, never from the client.
+//
+// The client sends { id, quantity, modifiers, notes }; anything else on the line (price, name,
+// or server-owned state such as stock, bumped, voided and round) is dropped.
+// Problems are reported per line so the customer app can mark the offending cart rows:
+//   { index, itemId, name, code, message }
+// with code one of UNKNOWN_ITEM, UNAVAILABLE, INVALID_QUANTITY, INVALID_MODIFIERS.
+
+const { resolveModifiers } = require("./modifiers");
+const { toPaise, toRupees } = require("./billing");
+
+const MAX_QUANTITY = 99;
+
+// Price each line against `menu` (a Map of id -> menu item).
+// Options: checkAvailability (default true) rejects items marked unavailable.
+// Returns { items, totalAmount } or { errors } listing every invalid line.
+function priceItems(items, menu, { checkAvailability = true } = {}) {
+  const errors = [];
+  const priced = [];
+  let totalPaise = 0;
+
+  items.forEach((line, index) => {
+    const itemId = line && line.id;
+    const fail = (code, message) => errors.push({ index, itemId: itemId || null, name: (line && line.name) || null, code, message });
+    const menuItem = itemId ? menu.get(itemId) : null;
+    if (!menuItem) return fail("UNKNOWN_ITEM", `${(line && line.name) || "This item"} is not on the menu`);
+    if (checkAvailability && menuItem.available === false) return fail("UNAVAILABLE", `${menuItem.name} is not available right now`);
+
+    const quantity = Number(line.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+      return fail("INVALID_QUANTITY", `Quantity for ${menuItem.name} must be between 1 and ${MAX_QUANTITY}`);
+    }
+
+    const { modifiers, error } = resolveModifiers(menuItem.modifierGroups, line.modifiers);
+    if (error) return fail("INVALID_MODIFIERS", `${menuItem.name}: ${error}`);
+
+    const unitPaise = modifiers.reduce((sum, m) => sum + toPaise(m.priceDelta), toPaise(menuItem.price));
+    totalPaise += unitPaise * quantity;
+    priced.push({
+      id: itemId,
+      name: menuItem.name,
+      price: toRupees(unitPaise),
+      basePrice: menuItem.price,
+      quantity,
+      modifiers,
+      notes: line.notes || null,
+    });
+  });
+
+  if (errors.length) return { errors };
+  return { items: priced, totalAmount: toRupees(totalPaise) };
+}
+
+module.exports = { MAX_QUANTITY, priceItems };
@@ -0,0 +1,134 @@
+// Durable storage for everything the server keeps: menu items, orders, bills, table sessions,
+// number counters, staff, tables, ingredients, recipes and settings (one document per settings
+// screen, e.g. id "tax").
+//
+// Each collection is a repository with the same async interface, keyed by `doc.id`:
+//   all()      -> [doc]
+//   get(id)    -> doc | null
+//   save(doc)  -> doc          insert or replace the whole document
+//   remove(id) -> void
+//   increment(id) -> seq       add 1 to the document's `seq` (starting it at 1) in one step and
+//                              return the new value; number counters use it
+// Documents go in and come out as plain JSON (undefined fields are dropped), so callers can keep
+// mutating the objects they hold without changing what is stored.
+//
+// Two implementations sit behind the interface:
+//   file  — one JSON file per collection under DATA_DIR (default server/.data), replaced atomically
+//   mongo — one MongoDB collection per repository, with `_id` set to the id
+// index.js reads each collection once (at startup, or on first use) and writes through on each change.
+// Documents keyed by something else (tables by tableNumber, recipes by menuItemId) are saved with
+// that key copied into `id`.
+
+const fs = require("fs");
+const path = require("path");
+
+const COLLECTIONS = ["menu", "orders", "bills", "sessions", "counters", "staff", "tables", "ingredients", "recipes", "settings"];
+const DEFAULT_DATA_DIR = path.join(__dirname, ".data");
+
+const toJson = (doc) => JSON.parse(JSON.stringify(doc));
+
+// Documents live in memory and the whole collection is rewritten on each change. Writes are
+// queued so two saves never interleave, and go to a temp file first so a crash can't truncate it.
+function fileRepository(dir, name) {
+  const file = path.join(dir, `${name}.json`);
+  let docs = null;
+  let writing = Promise.resolve();
+
+  const load = () => {
+    if (docs) return docs;
+    try {
+      docs = new Map(JSON.parse(fs.readFileSync(file, "utf8")).map((doc) => [doc.id, doc]));
+    } catch (e) {
+      if (e.code !== "ENOENT") throw new Error(`Cannot read ${file}: ${e.message}`);
+      docs = new Map();
+    }
+    return docs;
+  };
+
+  const flush = () => {
+    const snapshot = JSON.stringify(Array.from(docs.values()), null, 2);
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmp = `${file}.tmp`;
+        await fs.promises.writeFile(tmp, snapshot);
+        await fs.promises.rename(tmp, file);
+      });
+    return writing;
+  };
+
+  return {
+    async all() {
+      return Array.from(load().values()).map(toJson);
+    },
+    async get(id) {
+      const doc = load().get(id);
+      return doc ? toJson(doc) : null;
+    },
+    async save(doc) {
+      load().set(doc.id, toJson(doc));
+      await flush();
+      return doc;
+    },
+    async remove(id) {
+      if (load().delete(id)) await flush();
+    },
+    // Bumped in memory before anything is awaited, so concurrent calls get distinct values; a
+    // failed write takes the bump back so the value is handed out again rather than skipped
+    async increment(id) {
+      const previous = load().get(id);
+      const seq = ((previous && Number(previous.seq)) || 0) + 1;
+      docs.set(id, { ...previous, id, seq });
+      try {
+        await flush();
+      } catch (e) {
+        if (docs.get(id).seq === seq) {
+          if (previous) docs.set(id, previous);
+          else docs.delete(id);
+        }
+        throw e;
+      }
+      return seq;
+    },
+  };
+}
+
+// Older documents (e.g. menu items from /admin/seed-menu) only carry `_id`
+function mongoRepository(db, name) {
+  const collection = db.collection(name);
+  const fromDoc = ({ _id, ...doc }) => ({ ...doc, id: doc.id || _id });
+  return {
+    async all() {
+      return (await collection.find({}).toArray()).map(fromDoc);
+    },
+    async get(id) {
+      const doc = await collection.findOne({ _id: id });
+      return doc ? fromDoc(doc) : null;
+    },
+    async save(doc) {
+      await collection.replaceOne({ _id: doc.id }, { ...toJson(doc), _id: doc.id }, { upsert: true });
+      return doc;
+    },
+    async remove(id) {
+      await collection.deleteOne({ _id: id });
+    },
+    // $inc is atomic, so several server processes sharing the database never get the same value
+    async increment(id) {
+      const doc = await collection.findOneAndUpdate({ _id: id }, { $inc: { seq: 1 }, $set: { id } }, { upsert: true, returnDocument: "after" });
+      return doc.seq;
+    },
+  };
+}
+
+// { kind, location, [collection]: repository }: MongoDB when a connected `mongoDb` is passed,
+// otherwise JSON files under `dataDir`
+function createStore({ mongoDb = null, dataDir = DEFAULT_DATA_DIR } = {}) {
+  const store = { kind: mongoDb ? "mongo" : "file", location: mongoDb ? mongoDb.databaseName : dataDir };
+  if (!mongoDb) fs.mkdirSync(dataDir, { recursive: true });
+  COLLECTIONS.forEach((name) => {
+    store[name] = mongoDb ? mongoRepository(mongoDb, name) : fileRepository(dataDir, name);
+  });
+  return store;
+}
+
+module.exports = { COLLECTIONS, DEFAULT_DATA_DIR, createStore };
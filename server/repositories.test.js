@@ -0,0 +1,149 @@
+// Contract tests for the repository layer: every store must behave the same way.
+// Runs against the file store always, and against MongoDB as well when MONGODB_URI is set
+// (each run uses a throwaway database that is dropped afterwards).
+//
+//   npm test                                   file store only
+//   MONGODB_URI=mongodb://localhost npm test   file and Mongo stores
+
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const repositories = require("./repositories");
+
+const backends = [
+  {
+    name: "file",
+    async setup() {
+      const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "repositories-test-"));
+      return {
+        open: () => repositories.createStore({ dataDir }),
+        teardown: async () => fs.rmSync(dataDir, { recursive: true, force: true }),
+      };
+    },
+  },
+];
+
+if (process.env.MONGODB_URI) {
+  backends.push({
+    name: "mongo",
+    async setup() {
+      const { MongoClient } = require("mongodb");
+      const client = new MongoClient(process.env.MONGODB_URI);
+      await client.connect();
+      const db = client.db(`snappy_serve_test_${process.pid}_${Date.now()}`);
+      return {
+        open: () => repositories.createStore({ mongoDb: db }),
+        teardown: async () => {
+          await db.dropDatabase();
+          await client.close();
+        },
+      };
+    },
+  });
+}
+
+for (const backend of backends) {
+  describe(`${backend.name} store`, () => {
+    let env;
+    let store;
+
+    before(async () => {
+      env = await backend.setup();
+      store = env.open();
+    });
+
+    after(async () => {
+      await env.teardown();
+    });
+
+    it("has a repository for every collection", () => {
+      assert.equal(store.kind, backend.name);
+      repositories.COLLECTIONS.forEach((name) => {
+        ["all", "get", "save", "remove", "increment"].forEach((method) => assert.equal(typeof store[name][method], "function", `${name}.${method}`));
+      });
+    });
+
+    it("starts empty", async () => {
+      assert.deepEqual(await store.orders.all(), []);
+      assert.equal(await store.orders.get("ORD-missing"), null);
+    });
+
+    it("saves and gets a document by id", async () => {
+      const doc = { id: "ORD-1", status: "PENDING", items: [{ id: "tea-1", quantity: 2 }], totalAmount: 40 };
+      assert.equal(await store.orders.save(doc), doc);
+      assert.deepEqual(await store.orders.get("ORD-1"), doc);
+    });
+
+    it("replaces the whole document on save", async () => {
+      await store.bills.save({ id: "BILL-1", total: 100, splitIds: ["BILL-1-1"] });
+      await store.bills.save({ id: "BILL-1", total: 80 });
+      assert.deepEqual(await store.bills.get("BILL-1"), { id: "BILL-1", total: 80 });
+      assert.equal((await store.bills.all()).length, 1);
+    });
+
+    it("stores plain JSON and hands out copies", async () => {
+      const doc = { id: "SES-1", status: "OPEN", billId: undefined, orderIds: ["ORD-1"] };
+      await store.sessions.save(doc);
+      doc.orderIds.push("ORD-2");
+      doc.status = "BILLED";
+
+      const stored = await store.sessions.get("SES-1");
+      assert.deepEqual(stored, { id: "SES-1", status: "OPEN", orderIds: ["ORD-1"] });
+      assert.ok(!("billId" in stored));
+      stored.status = "CLOSED";
+      assert.equal((await store.sessions.get("SES-1")).status, "OPEN");
+    });
+
+    it("lists every document", async () => {
+      await store.staff.save({ id: "staff-1", name: "Asha", role: "kitchen" });
+      await store.staff.save({ id: "staff-2", name: "Ravi", role: "manager" });
+      const all = await store.staff.all();
+      assert.deepEqual(all.map((m) => m.id).sort(), ["staff-1", "staff-2"]);
+      assert.deepEqual(all.find((m) => m.id === "staff-2"), { id: "staff-2", name: "Ravi", role: "manager" });
+    });
+
+    it("keeps collections apart", async () => {
+      await store.ingredients.save({ id: "shared-id", name: "Dough" });
+      assert.equal(await store.recipes.get("shared-id"), null);
+      assert.equal((await store.ingredients.get("shared-id")).name, "Dough");
+    });
+
+    it("accepts numeric ids", async () => {
+      await store.tables.save({ id: 7, tableNumber: 7, linkVersion: 3 });
+      assert.deepEqual(await store.tables.get(7), { id: 7, tableNumber: 7, linkVersion: 3 });
+    });
+
+    it("removes a document, and ignores ids it doesn't have", async () => {
+      await store.settings.save({ id: "tax", defaultGstRate: 5 });
+      await store.settings.remove("tax");
+      assert.equal(await store.settings.get("tax"), null);
+      await store.settings.remove("tax");
+      assert.deepEqual(await store.settings.all(), []);
+    });
+
+    it("increments a counter, starting it at 1", async () => {
+      assert.equal(await store.counters.increment("order:2026-10-19"), 1);
+      assert.equal(await store.counters.increment("order:2026-10-19"), 2);
+      assert.deepEqual(await store.counters.get("order:2026-10-19"), { id: "order:2026-10-19", seq: 2 });
+    });
+
+    it("never hands out the same value twice", async () => {
+      const values = await Promise.all(Array.from({ length: 20 }, () => store.counters.increment("invoice:INV:2026-27")));
+      assert.deepEqual(values.sort((a, b) => a - b), Array.from({ length: 20 }, (_, i) => i + 1));
+      assert.equal(await env.open().counters.increment("invoice:INV:2026-27"), 21);
+    });
+
+    it("keeps writes across a reopen", async () => {
+      await store.counters.save({ id: "invoice:2026-27", value: 42 });
+      await store.menu.save({ id: "tea-1", name: "Masala Chai", category: "Tea", price: 20 });
+      await store.menu.remove("tea-1");
+
+      const reopened = env.open();
+      assert.deepEqual(await reopened.counters.get("invoice:2026-27"), { id: "invoice:2026-27", value: 42 });
+      assert.equal(await reopened.menu.get("tea-1"), null);
+      assert.deepEqual(await reopened.orders.get("ORD-1"), await store.orders.get("ORD-1"));
+    });
+  });
+}
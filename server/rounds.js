@@ -0,0 +1,56 @@
+// Rounds: more items added to an order the kitchen is already working on.
+//
+// The first batch of items is round 1. Each later batch is appended to the same order with
+// `item.round` set, recorded in `order.rounds`, and gets its own kitchen ticket so cooks only
+// see what is new:
+//   order.rounds: [{ number, at, actor, notes, itemCount, amount }]
+// Lines without `round` belong to round 1.
+
+const { toPaise } = require("./billing");
+
+// Once food is ready the table orders again instead, which joins the same session and bill
+const ROUND_STATUSES = ["PENDING", "PREPARING"];
+
+const itemRound = (it) => it.round || 1;
+
+// Number of the latest round on the order (1 when nothing was added)
+const latestRound = (order) => (order.rounds || []).reduce((max, r) => Math.max(max, r.number), 1);
+
+// Returns null when a round may be added, otherwise why not
+function addRoundError(order) {
+  if (order.billId) return "This order has already been billed";
+  if (!ROUND_STATUSES.includes(order.status)) {
+    return `Items can't be added once an order is ${order.status.toLowerCase().replace("_", " ")}`;
+  }
+  return null;
+}
+
+// Append priced `items` as the next round and update the total and allergy flags.
+// Callers validate and price the items first; returns the new round record.
+function addRound(order, { items, totalAmount, notes, allergens }, actor) {
+  const number = latestRound(order) + 1;
+  const round = { number, at: Date.now(), actor, notes: notes || null, itemCount: items.length, amount: totalAmount };
+  order.items = [...(order.items || []), ...items.map((it) => ({ ...it, round: number }))];
+  order.totalAmount = (toPaise(order.totalAmount) + toPaise(totalAmount)) / 100;
+  order.allergens = Array.from(new Set([...(order.allergens || []), ...(allergens || [])]));
+  order.rounds = [...(order.rounds || []), round];
+  return round;
+}
+
+// The order as it should print on round `number`'s ticket: only that round's lines and note.
+// Allergy flags cover the whole order. Returns null for an unknown round.
+function roundTicket(order, number) {
+  if (number === 1) return { ...order, items: (order.items || []).filter((it) => itemRound(it) === 1), round: 1 };
+  const round = (order.rounds || []).find((r) => r.number === number);
+  if (!round) return null;
+  return {
+    ...order,
+    items: (order.items || []).filter((it) => itemRound(it) === number),
+    notes: round.notes,
+    note: null,
+    createdAt: round.at,
+    round: number,
+  };
+}
+
+module.exports = { ROUND_STATUSES, itemRound, latestRound, addRoundError, addRound, roundTicket };
@@ -0,0 +1,42 @@
+// Numbers the server hands out: internal ids, daily display numbers and tax invoice numbers.
+//
+// Internal ids (ORD-…, BILL-…) carry a random UUID, so two orders placed in the same millisecond
+// can't collide. Everything people read comes from counters saved in the store's `counters`
+// repository as { id: key, seq }:
+//   order:<YYYY-MM-DD>        order display numbers (#042) for kitchen and customer screens, reset daily
+//   invoice:<prefix>:<FY>     the GST invoice series, one per financial year (INV/2026-27/000042)
+// Each number is one atomic increment in the store, so concurrent requests (and several server
+// processes sharing MongoDB) never share a number. Invoice numbers are only drawn for a bill that is
+// about to be saved. When the counter can't be saved the error reaches the caller and nothing is
+// created, so a restart never hands the same number out again. When the bill itself can't be saved
+// the request fails and the drawn number is skipped (and logged), so the series can have a gap but
+// never a number on a bill the store has lost.
+
+const { v4: uuidv4 } = require("uuid");
+const billing = require("./billing");
+
+const newId = (prefix) => `${prefix}-${uuidv4()}`;
+
+// The restaurant's calendar day, so numbering restarts at local midnight
+function dayKey(at) {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+const formatDisplayNumber = (seq) => `#${String(seq).padStart(3, "0")}`;
+
+// Counters backed by `repo` (the store's counters repository)
+function createSequences(repo) {
+  const next = (key) => repo.increment(key);
+
+  return {
+    async nextDisplayNumber(at) {
+      return formatDisplayNumber(await next(`order:${dayKey(at)}`));
+    },
+    async nextInvoiceNumber(prefix, at) {
+      return billing.formatInvoiceNumber(prefix, at, await next(`invoice:${prefix}:${billing.financialYear(at)}`));
+    },
+  };
+}
+
+module.exports = { newId, formatDisplayNumber, createSequences };
@@ -0,0 +1,80 @@
+// Table sessions group every order placed at a table between the first order
+// and payment, so the table gets a single bill with merged line items.
+//
+// Session lifecycle: OPEN (accepting orders) -> BILLED (bill issued) -> CLOSED (paid)
+
+const { v4: uuidv4 } = require("uuid");
+const { modifierKey } = require("./modifiers");
+const { billLine } = require("./billing");
+
+const SESSION_STATUSES = ["OPEN", "BILLED", "CLOSED"];
+
+const findOpenSession = (sessions, tableNumber) =>
+  sessions.find((s) => s.status === "OPEN" && Number(s.tableNumber) === Number(tableNumber)) || null;
+
+function createSession(tableNumber) {
+  return {
+    id: `SES-${uuidv4()}`,
+    tableNumber,
+    status: "OPEN",
+    orderIds: [],
+    billId: null,
+    openedAt: Date.now(),
+    billedAt: null,
+    closedAt: null,
+  };
+}
+
+// Orders that count towards the session total (cancelled ones are dropped)
+const billableOrders = (session, orders) =>
+  orders.filter((o) => session.orderIds.includes(o.id) && o.status !== "CANCELLED");
+
+// Combine the items of several orders into one list, merging identical lines
+// (same item, price and modifier selection); voided lines are left out
+function mergeLineItems(orders) {
+  const lines = new Map();
+  orders.forEach((order) => {
+    (order.items || []).filter((it) => !it.voided).forEach((it) => {
+      const key = `${it.id || it.name}|${it.price || 0}|${modifierKey(it.modifiers)}`;
+      const existing = lines.get(key);
+      if (existing) existing.quantity += it.quantity || 1;
+      // Rounds only matter to the kitchen; the bill merges the same dish across them
+      else lines.set(key, billLine(it));
+    });
+  });
+  return Array.from(lines.values());
+}
+
+const isClosedOrder = (order) => order.status === "COMPLETED" || order.status === "CANCELLED";
+
+// Session plus its orders and running total, as returned by the API. `needsBill` marks an open
+// session whose orders were all completed without a bill; only the table bill settles it.
+// Lists leave the orders out (`withOrders: false`) so the kitchen's poll stays small.
+function summarizeSession(session, orders, { withOrders = true } = {}) {
+  const sessionOrders = orders.filter((o) => session.orderIds.includes(o.id));
+  const runningTotal = billableOrders(session, orders).reduce((s, o) => s + (o.totalAmount || 0), 0);
+  const needsBill =
+    session.status === "OPEN" &&
+    sessionOrders.some((o) => o.status === "COMPLETED" && !o.billId) &&
+    sessionOrders.every(isClosedOrder);
+  const summary = { ...session, orderCount: sessionOrders.length, runningTotal, needsBill };
+  return withOrders ? { ...summary, orders: sessionOrders } : summary;
+}
+
+// A session as a diner sees it: status, running total and bill, listing only the diner's own
+// orders by id (other diners' orders, phone numbers and staff names stay with the kitchen)
+function dinerSession(summary, orderIds) {
+  const { id, tableNumber, status, billId, openedAt, billedAt, closedAt, orderCount, runningTotal } = summary;
+  const own = summary.orderIds.filter((orderId) => orderIds.includes(orderId));
+  return { id, tableNumber, status, billId, openedAt, billedAt, closedAt, orderIds: own, orders: [], orderCount, runningTotal };
+}
+
+module.exports = {
+  SESSION_STATUSES,
+  findOpenSession,
+  createSession,
+  billableOrders,
+  mergeLineItems,
+  summarizeSession,
+  dinerSession,
+};
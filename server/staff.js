@@ -0,0 +1,69 @@
+// Staff directory for shared kitchen tablets: each member signs in with a 4–6 digit PIN.
+//
+// Member: { id, name, role, active, pinSalt, pinHash, createdAt, updatedAt }
+// PINs are stored as salted scrypt hashes; publicStaff() strips them before anything leaves the server.
+
+const crypto = require("crypto");
+const { v4: uuidv4 } = require("uuid");
+const { STAFF_ROLES } = require("./auth");
+
+const PIN_PATTERN = /^[0-9]{4,6}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+const hashPin = (pin, salt) => crypto.scryptSync(String(pin), salt, 32).toString("hex");
+
+// Validate a create (current = null) or update of a staff member.
+// Returns { member } or { error } describing the first invalid value.
+function normalizeStaff(input, current = null) {
+  const body = input || {};
+  const name = body.name !== undefined ? String(body.name).trim() : current && current.name;
+  if (!name) return { error: "Name is required" };
+  const role = body.role !== undefined ? body.role : current ? current.role : "kitchen";
+  if (!STAFF_ROLES.includes(role)) return { error: `Role must be one of ${STAFF_ROLES.join(", ")}` };
+  const active = body.active !== undefined ? !!body.active : current ? current.active : true;
+
+  const member = {
+    id: current ? current.id : `staff-${uuidv4().slice(0, 8)}`,
+    name,
+    role,
+    active,
+    pinSalt: current ? current.pinSalt : null,
+    pinHash: current ? current.pinHash : null,
+    createdAt: current ? current.createdAt : Date.now(),
+    updatedAt: Date.now(),
+  };
+  if (body.pin !== undefined && body.pin !== null && body.pin !== "") {
+    if (!PIN_PATTERN.test(String(body.pin))) return { error: "PIN must be 4 to 6 digits" };
+    member.pinSalt = crypto.randomBytes(16).toString("hex");
+    member.pinHash = hashPin(body.pin, member.pinSalt);
+  }
+  if (!member.pinHash) return { error: "PIN is required" };
+  return { member };
+}
+
+const publicStaff = ({ pinSalt, pinHash, ...member }) => member;
+
+// Failed PIN attempts per member, so a shared tablet can't be used to guess PINs
+const attempts = new Map();
+
+// Check a PIN for an active member. Returns { member } or { error, status }.
+function checkPin(member, pin) {
+  if (!member || !member.active) return { error: "Unknown staff member", status: 404 };
+  const record = attempts.get(member.id);
+  if (record && record.lockedUntil) {
+    if (record.lockedUntil > Date.now()) return { error: "Too many wrong PINs. Try again in a few minutes", status: 429 };
+    attempts.delete(member.id);
+  }
+  const given = Buffer.from(hashPin(pin || "", member.pinSalt), "hex");
+  const expected = Buffer.from(member.pinHash, "hex");
+  if (!crypto.timingSafeEqual(given, expected)) {
+    const failures = ((attempts.get(member.id) || {}).failures || 0) + 1;
+    attempts.set(member.id, { failures, lockedUntil: failures >= MAX_PIN_ATTEMPTS ? Date.now() + PIN_LOCKOUT_MS : 0 });
+    return { error: "Wrong PIN", status: 401 };
+  }
+  attempts.delete(member.id);
+  return { member };
+}
+
+module.exports = { PIN_PATTERN, normalizeStaff, publicStaff, checkPin };
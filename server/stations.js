@@ -0,0 +1,91 @@
+// Kitchen Display System: stations and per-line bumps.
+//
+// Each order line is routed to a station by its menu category when the order (or a later round)
+// is placed, and keeps it as `item.station` so moving a dish to another category later doesn't
+// reroute tickets already in the kitchen. Cooks bump lines from their station's screen:
+//   item.bumped: { at, actor }
+// The order moves to READY once every line that isn't voided has been bumped. Lines without a
+// station (orders from before KDS) belong to the main kitchen.
+//
+// KDS mode (KDS_MODE=1) makes the bumps mandatory: orders placed while it is on carry `kds: true`
+// and can't be marked READY by hand while a station has lines left. Without it the station screens
+// still work, but the kitchen may mark an order ready from the order card.
+
+const { activeItems } = require("./voids");
+
+// Categories not listed here go to the main kitchen; keys match src/lib/stations.ts
+const STATIONS = [
+  { id: "beverage", name: "Tea & Beverages", categories: ["Tea", "Beverages"] },
+  { id: "fryer", name: "Snacks Fryer", categories: ["Snacks"] },
+  { id: "tawa", name: "Paratha Tawa", categories: ["Paratha"] },
+  { id: "kitchen", name: "Main Kitchen", categories: [] },
+];
+const DEFAULT_STATION = "kitchen";
+
+const KDS_MODE = process.env.KDS_MODE === "1";
+
+// Lines are bumped while the kitchen is cooking
+const BUMP_STATUS = "PREPARING";
+
+// Lines from before KDS have no station and belong to the main kitchen
+const itemStation = (item) => item.station || DEFAULT_STATION;
+
+const stationForCategory = (category) => {
+  const station = STATIONS.find((s) => s.categories.includes(category));
+  return station ? station.id : DEFAULT_STATION;
+};
+
+// Route priced lines using the menu index they were priced from
+function assignStations(items, menuIndex) {
+  items.forEach((item) => {
+    const menuItem = menuIndex.get(item.id);
+    item.station = stationForCategory(menuItem && menuItem.category);
+  });
+  return items;
+}
+
+// The line at `index` if it may be bumped (or recalled, when `bumped` is true); otherwise { error, status }
+function findBumpable(order, index, bumped) {
+  if (order.status !== BUMP_STATUS) {
+    return { error: `Items can only be ${bumped ? "recalled" : "bumped"} while an order is being prepared`, status: 409 };
+  }
+  const item = (order.items || [])[index];
+  if (!item) return { error: "Line not found", status: 404 };
+  if (item.voided) return { error: `${item.name} was voided`, status: 409 };
+  if (!!item.bumped !== bumped) return { error: `${item.name} is ${bumped ? "not bumped" : "already bumped"}`, status: 409 };
+  return { item };
+}
+
+// Mark one line done at its station. Returns { item } or { error, status }.
+function bumpLine(order, index, actor) {
+  const found = findBumpable(order, index, false);
+  if (found.error) return found;
+  found.item.bumped = { at: Date.now(), actor };
+  return found;
+}
+
+// Undo a bump made by mistake. Returns { item } or { error, status }.
+function recallLine(order, index) {
+  const found = findBumpable(order, index, true);
+  if (found.error) return found;
+  found.item.bumped = null;
+  return found;
+}
+
+// Stations still cooking for the order: those with a live line not yet bumped
+const waitingStations = (order) =>
+  STATIONS.filter((s) => activeItems(order).some((it) => itemStation(it) === s.id && !it.bumped));
+
+// Returns null when the kitchen may mark the order READY itself, otherwise why not
+function readyError(order) {
+  if (!order.kds) return null;
+  const waiting = waitingStations(order);
+  if (!waiting.length) return null;
+  return `Still waiting on ${waiting.map((s) => s.name).join(", ")}; the order is ready once every station has bumped its items`;
+}
+
+// Every station is done: the cooking order has no live line left to bump
+const isConsolidated = (order) =>
+  order.status === BUMP_STATUS && activeItems(order).length > 0 && activeItems(order).every((it) => it.bumped);
+
+module.exports = { STATIONS, DEFAULT_STATION, KDS_MODE, assignStations, bumpLine, recallLine, readyError, isConsolidated };
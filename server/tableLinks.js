@@ -0,0 +1,50 @@
+// Signed table links for the QR codes printed on each table.
+//
+// A diner scans /customer?t=<token>, where token is "<table>.<version>.<signature>".
+// Rotating a table's link bumps its version, so codes printed before the rotation stop working.
+// Tables come from the registry in tables.js and carry { linkVersion, rotatedAt }.
+//
+// Signatures use TABLE_LINK_SECRET, falling back to JWT_SECRET; printed codes only survive a
+// server restart when one of them is set.
+
+const crypto = require("crypto");
+const QRCode = require("qrcode");
+const { findOrderableTable } = require("./tables");
+
+const SECRET = process.env.TABLE_LINK_SECRET || process.env.JWT_SECRET || crypto.randomBytes(32).toString("hex");
+if (!process.env.TABLE_LINK_SECRET && !process.env.JWT_SECRET) {
+  console.warn("TABLE_LINK_SECRET not set; using a random secret, so printed table QR codes stop working when the server restarts");
+}
+
+// Truncated HMAC keeps the URL short enough for a low-density QR code
+const signature = (tableNumber, version) =>
+  crypto.createHmac("sha256", SECRET).update(`table:${tableNumber}:${version}`).digest("base64url").slice(0, 22);
+
+const tableToken = (table) => `${table.tableNumber}.${table.linkVersion}.${signature(table.tableNumber, table.linkVersion)}`;
+
+const rotateTable = (table) => ({ ...table, linkVersion: table.linkVersion + 1, rotatedAt: Date.now() });
+
+// Returns { tableNumber } for a token matching a table's current link, or { error }
+function verifyTableToken(token, tables) {
+  const [table, version, sig] = String(token || "").split(".");
+  const tableNumber = parseInt(table, 10);
+  const linkVersion = parseInt(version, 10);
+  if (!tableNumber || !linkVersion || !sig) return { error: "Invalid table link" };
+  const expected = Buffer.from(signature(tableNumber, linkVersion));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return { error: "Invalid table link" };
+  const { table: current, error } = findOrderableTable(tables, tableNumber);
+  if (error) return { error };
+  if (current.linkVersion !== linkVersion) return { error: "This QR code has been replaced. Please scan the code on your table again" };
+  return { tableNumber };
+}
+
+// Customer link for a table, with its QR code as SVG markup
+async function tableLink(table, baseUrl) {
+  const token = tableToken(table);
+  const url = `${baseUrl.replace(/\/+$/, "")}/customer?t=${encodeURIComponent(token)}`;
+  const qrSvg = await QRCode.toString(url, { type: "svg", errorCorrectionLevel: "M", margin: 1 });
+  return { tableNumber: table.tableNumber, label: table.label, token, url, qrSvg, rotatedAt: table.rotatedAt || null };
+}
+
+module.exports = { rotateTable, verifyTableToken, tableLink };
@@ -0,0 +1,70 @@
+// Table registry: the tables diners can order from, and how they are laid out on the floor.
+//
+// Table: { tableNumber, label, area, seats, active, linkVersion, rotatedAt }
+// tableNumber is the table's id everywhere else (orders, sessions, QR links) and never changes.
+// linkVersion and rotatedAt belong to the table's QR link (see tableLinks.js).
+//
+// Deleting a table leaves a tombstone { tableNumber, deleted: true, linkVersion }, so a table
+// re-added under the same number starts above every QR link version it issued before.
+
+const AREAS = ["indoor", "terrace"];
+const DEFAULT_TABLE_COUNT = 40;
+const MAX_SEATS = 50;
+
+// First QR link version for a new table `tableNumber`, past any a deleted table of that number used
+const firstLinkVersion = (tableNumber, retired = []) =>
+  ((retired.find((t) => t.tableNumber === tableNumber) || {}).linkVersion || 0) + 1;
+
+const tombstone = (table) => ({ tableNumber: table.tableNumber, deleted: true, linkVersion: table.linkVersion || 1 });
+
+// Tables 1..count, indoors with four seats, each on its first QR link
+const defaultTables = (count = DEFAULT_TABLE_COUNT, retired = []) =>
+  Array.from({ length: count }, (_, i) => ({
+    tableNumber: i + 1,
+    label: `Table ${i + 1}`,
+    area: "indoor",
+    seats: 4,
+    active: true,
+    linkVersion: firstLinkVersion(i + 1, retired),
+    rotatedAt: null,
+  }));
+
+// Validate a create (current = null) or update of a table against the rest of the registry and
+// the tombstones of deleted tables. Returns { table } or { error } describing the first invalid value.
+function normalizeTable(input, current = null, tables = [], retired = []) {
+  const body = input || {};
+  const tableNumber = current ? current.tableNumber : Number(body.tableNumber);
+  if (!Number.isInteger(tableNumber) || tableNumber < 1) return { error: "Table number must be a positive whole number" };
+  if (!current && tables.some((t) => t.tableNumber === tableNumber)) return { error: `Table ${tableNumber} already exists` };
+
+  const label = body.label !== undefined ? String(body.label).trim() : current ? current.label : "";
+  const area = body.area !== undefined ? body.area : current ? current.area : "indoor";
+  if (!AREAS.includes(area)) return { error: `Area must be one of ${AREAS.join(", ")}` };
+  const seats = body.seats !== undefined ? Number(body.seats) : current ? current.seats : 4;
+  if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS) return { error: `Seats must be between 1 and ${MAX_SEATS}` };
+
+  return {
+    table: {
+      tableNumber,
+      label: label || `Table ${tableNumber}`,
+      area,
+      seats,
+      active: body.active !== undefined ? !!body.active : current ? current.active !== false : true,
+      linkVersion: current ? current.linkVersion || 1 : firstLinkVersion(tableNumber, retired),
+      rotatedAt: current ? current.rotatedAt || null : null,
+    },
+  };
+}
+
+// Registry entry without its QR link details
+const publicTable = ({ linkVersion, rotatedAt, ...table }) => table;
+
+// Active table for a number, or { error } when diners can't order there
+function findOrderableTable(tables, tableNumber) {
+  const table = tables.find((t) => t.tableNumber === Number(tableNumber));
+  if (!table) return { error: `Table ${tableNumber} does not exist` };
+  if (table.active === false) return { error: `${table.label} is not taking orders` };
+  return { table };
+}
+
+module.exports = { AREAS, DEFAULT_TABLE_COUNT, defaultTables, tombstone, normalizeTable, publicTable, findOrderableTable };
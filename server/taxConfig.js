@@ -0,0 +1,65 @@
+// Tax and service-charge rules used when billing. Editable by managers through
+// GET/PUT /settings/tax, so rate changes no longer need a deploy.
+//
+// Rates are percentages. A menu category without its own rate uses defaultGstRate.
+// GST is shown as CGST + SGST halves when splitGst is on (intra-state supply).
+// `business` holds the seller details printed on tax invoices, and the UPI ID (VPA) that UPI
+// payment QR codes pay into.
+
+const { CREDIT_NOTE_PREFIX } = require("./creditNotes");
+
+const DEFAULT_TAX_CONFIG = {
+  pricesIncludeTax: false,
+  defaultGstRate: 5,
+  categoryRates: {},
+  splitGst: true,
+  serviceCharge: { enabled: true, rate: 2, declinable: true },
+  // SAC for restaurant service, used for items without their own HSN code
+  defaultHsn: "996331",
+  business: { name: "Snappy Serve", address: "", gstin: "", invoicePrefix: "INV", upiId: "" },
+  updatedAt: null,
+  updatedBy: null,
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const UPI_ID_PATTERN = /^[\w.-]{2,256}@[a-zA-Z]{2,64}$/;
+
+const isRate = (r) => typeof r === "number" && Number.isFinite(r) && r >= 0 && r <= 50;
+
+// Merge a (partial) update onto the current config.
+// Returns { config } or { error } describing the first invalid value.
+function normalizeTaxConfig(input, current = DEFAULT_TAX_CONFIG) {
+  const body = input || {};
+  const next = {
+    ...current,
+    serviceCharge: { ...current.serviceCharge, ...(body.serviceCharge || {}) },
+    business: { ...DEFAULT_TAX_CONFIG.business, ...current.business, ...(body.business || {}) },
+    categoryRates: body.categoryRates !== undefined ? { ...body.categoryRates } : { ...current.categoryRates },
+  };
+  if (body.pricesIncludeTax !== undefined) next.pricesIncludeTax = !!body.pricesIncludeTax;
+  if (body.splitGst !== undefined) next.splitGst = !!body.splitGst;
+  if (body.defaultGstRate !== undefined) next.defaultGstRate = body.defaultGstRate;
+  if (body.defaultHsn !== undefined) next.defaultHsn = String(body.defaultHsn).trim();
+
+  if (!isRate(next.defaultGstRate)) return { error: "Default GST rate must be between 0 and 50" };
+  for (const [category, rate] of Object.entries(next.categoryRates)) {
+    if (!category.trim()) return { error: "Category name is required" };
+    if (!isRate(rate)) return { error: `GST rate for ${category} must be between 0 and 50` };
+  }
+  next.serviceCharge.enabled = !!next.serviceCharge.enabled;
+  next.serviceCharge.declinable = !!next.serviceCharge.declinable;
+  if (!isRate(next.serviceCharge.rate)) return { error: "Service charge rate must be between 0 and 50" };
+  if (next.defaultHsn && !/^[0-9]{4,8}$/.test(next.defaultHsn)) return { error: "HSN/SAC code must be 4 to 8 digits" };
+  next.business.gstin = String(next.business.gstin || "").trim().toUpperCase();
+  if (next.business.gstin && !GSTIN_PATTERN.test(next.business.gstin)) return { error: "GSTIN is not valid" };
+  if (!/^[A-Z0-9-]{1,10}$/i.test(next.business.invoicePrefix || "")) return { error: "Invoice prefix must be 1-10 letters or digits" };
+  if (String(next.business.invoicePrefix).toUpperCase() === CREDIT_NOTE_PREFIX) return { error: `Invoice prefix ${CREDIT_NOTE_PREFIX} is kept for credit notes` };
+  next.business.upiId = String(next.business.upiId || "").trim();
+  if (next.business.upiId && !UPI_ID_PATTERN.test(next.business.upiId)) return { error: "UPI ID is not valid (e.g. snappyserve@okaxis)" };
+  return { config: next };
+}
+
+const rateForCategory = (config, category) =>
+  category && config.categoryRates[category] !== undefined ? config.categoryRates[category] : config.defaultGstRate;
+
+module.exports = { DEFAULT_TAX_CONFIG, normalizeTaxConfig, rateForCategory };
@@ -0,0 +1,101 @@
+// Cancelling orders and voiding lines after they are placed.
+//
+// Customers may cancel their own order while it is still PENDING and inside the grace window
+// (ORDER_CANCEL_GRACE_SECONDS, default 120). Kitchen staff void whole orders or single lines
+// with a reason code. Voided lines stay on the order for the audit trail and drop out of its
+// total and the bill:
+//   order.voided / item.voided: { reason, note, at, actor, amount }
+
+const { toPaise } = require("./billing");
+
+const VOID_REASONS = ["OUT_OF_STOCK", "CUSTOMER_CHANGED_MIND", "WRONG_ITEM"];
+// Recorded on orders the customer cancelled themselves
+const CUSTOMER_CANCELLED = "CUSTOMER_CANCELLED";
+const DEFAULT_GRACE_SECONDS = 120;
+const MAX_VOID_NOTE_LENGTH = 200;
+
+// Lines may be voided until the order is billed or closed
+const LINE_VOIDABLE_STATUSES = ["PENDING", "PREPARING", "READY", "BILL_REQUESTED"];
+
+const graceSeconds = parseInt(process.env.ORDER_CANCEL_GRACE_SECONDS, 10);
+const CANCEL_GRACE_MS = (Number.isInteger(graceSeconds) && graceSeconds >= 0 ? graceSeconds : DEFAULT_GRACE_SECONDS) * 1000;
+
+// Until when the customer may cancel an order created at `createdAt`
+const cancellableUntil = (createdAt) => createdAt + CANCEL_GRACE_MS;
+
+const lineAmount = (it) => toPaise(it.price) * (it.quantity || 1);
+
+const activeItems = (order) => (order.items || []).filter((it) => !it.voided);
+
+// Order total from its remaining lines
+const orderTotal = (order) => activeItems(order).reduce((sum, it) => sum + lineAmount(it), 0) / 100;
+
+// Returns null when the customer may still cancel, otherwise why not
+function customerCancelError(order, now = Date.now()) {
+  if (order.status !== "PENDING") return "The kitchen has started on this order, so it can no longer be cancelled";
+  if (now > (order.cancellableUntil || cancellableUntil(order.createdAt))) return "The time to cancel this order has passed";
+  return null;
+}
+
+// Validate { reason, note } from a void request. Returns { reason, note } or { error }.
+function normalizeVoid(body) {
+  const { reason, note } = body || {};
+  if (!VOID_REASONS.includes(reason)) return { error: `Reason must be one of ${VOID_REASONS.join(", ")}` };
+  const trimmed = note ? String(note).trim() : "";
+  if (trimmed.length > MAX_VOID_NOTE_LENGTH) return { error: `Note must be at most ${MAX_VOID_NOTE_LENGTH} characters` };
+  return { reason, note: trimmed || null };
+}
+
+// Mark the whole order voided; the caller moves it to CANCELLED
+function voidOrder(order, { reason, note }, actor) {
+  order.voided = { reason, note: note || null, at: Date.now(), actor, amount: orderTotal(order) };
+  return order.voided;
+}
+
+// Void one line and recompute the order total. Returns { item } or { error, status }.
+function voidLine(order, index, { reason, note }, actor) {
+  if (order.billId || !LINE_VOIDABLE_STATUSES.includes(order.status)) {
+    return { error: `Lines can't be voided once an order is ${order.billId ? "billed" : order.status.toLowerCase()}`, status: 409 };
+  }
+  const item = (order.items || [])[index];
+  if (!item) return { error: "Line not found", status: 404 };
+  if (item.voided) return { error: `${item.name} is already voided`, status: 409 };
+  if (activeItems(order).length === 1) return { error: "This is the last line; void the whole order instead", status: 409 };
+  item.voided = { reason, note: note || null, at: Date.now(), actor, amount: lineAmount(item) / 100 };
+  order.totalAmount = orderTotal(order);
+  return { item };
+}
+
+// Voids recorded between start and end (ms), for the daily report:
+// { count, amount, byReason: [{ reason, count, amount }] }, counting whole orders and single lines
+function voidSummary(orders, start, end) {
+  const byReason = {};
+  const add = (voided) => {
+    if (!voided || voided.at < start || voided.at > end) return;
+    const entry = byReason[voided.reason] || (byReason[voided.reason] = { reason: voided.reason, count: 0, amount: 0 });
+    entry.count += 1;
+    entry.amount += toPaise(voided.amount);
+  };
+  orders.forEach((order) => {
+    add(order.voided);
+    (order.items || []).forEach((it) => add(it.voided));
+  });
+  const reasons = Object.values(byReason).map((r) => ({ ...r, amount: r.amount / 100 }));
+  return {
+    count: reasons.reduce((sum, r) => sum + r.count, 0),
+    amount: reasons.reduce((sum, r) => sum + toPaise(r.amount), 0) / 100,
+    byReason: reasons.sort((a, b) => b.amount - a.amount),
+  };
+}
+
+module.exports = {
+  VOID_REASONS,
+  CUSTOMER_CANCELLED,
+  cancellableUntil,
+  activeItems,
+  customerCancelError,
+  normalizeVoid,
+  voidOrder,
+  voidLine,
+  voidSummary,
+};
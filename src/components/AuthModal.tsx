@@ -4,11 +4,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { Send, Lock } from "lucide-react";
+import { requestTelegramOtp, verifyTelegramOtp, isApiError, googleAuthUrl, type AuthSession } from "@/lib/api";
 
 interface AuthModalProps {
     open: boolean;
     onClose: () => void;
-    onSuccess: (token: string, user: any) => void;
+    onSuccess: (session: AuthSession) => void;
 }
 
 const AuthModal = ({ open, onClose, onSuccess }: AuthModalProps) => {
@@ -22,11 +23,12 @@ const AuthModal = ({ open, onClose, onSuccess }: AuthModalProps) => {
         const params = new URLSearchParams(window.location.search);
         if (params.get('auth') === 'success') {
             const token = params.get('token');
+            const refreshToken = params.get('refreshToken');
             const userStr = params.get('user');
-            if (token && userStr) {
+            if (token && refreshToken && userStr) {
                 try {
-                    const user = JSON.parse(decodeURIComponent(userStr));
-                    onSuccess(token, user);
+                    const user = JSON.parse(userStr);
+                    onSuccess({ token, refreshToken, expiresAt: Number(params.get('expiresAt')), user });
                     // Clean URL
                     window.history.replaceState({}, '', window.location.pathname);
                     toast.success(`Welcome, ${user.name || user.email}!`);
@@ -46,21 +48,11 @@ const AuthModal = ({ open, onClose, onSuccess }: AuthModalProps) => {
 
         setLoading(true);
         try {
-            const res = await fetch("http://localhost:4001/auth/telegram/otp", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ phone }),
-            });
-            const data = await res.json();
-
-            if (data.success) {
-                toast.success("OTP sent to your Telegram!");
-                setStep("otp");
-            } else {
-                toast.error(data.message || "Failed to send OTP");
-            }
+            await requestTelegramOtp({ phone });
+            toast.success("OTP sent to your Telegram!");
+            setStep("otp");
         } catch (error) {
-            toast.error("Failed to connect to server");
+            toast.error(isApiError(error) && error.kind === "http" ? error.message : "Failed to connect to server");
         } finally {
             setLoading(false);
         }
@@ -75,22 +67,12 @@ const AuthModal = ({ open, onClose, onSuccess }: AuthModalProps) => {
 
         setLoading(true);
         try {
-            const res = await fetch("http://localhost:4001/auth/telegram/verify", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ phone, code: otp }),
-            });
-            const data = await res.json();
-
-            if (data.success) {
-                toast.success("Login successful!");
-                onSuccess(data.token, data.user);
-                onClose();
-            } else {
-                toast.error(data.message || "Invalid OTP");
-            }
+            const data = await verifyTelegramOtp({ phone, code: otp });
+            toast.success("Login successful!");
+            onSuccess(data);
+            onClose();
         } catch (error) {
-            toast.error("Failed to connect to server");
+            toast.error(isApiError(error) && error.kind === "http" ? error.message : "Failed to connect to server");
         } finally {
             setLoading(false);
         }
@@ -98,7 +80,7 @@ const AuthModal = ({ open, onClose, onSuccess }: AuthModalProps) => {
 
     const handleGoogleLogin = () => {
         // Redirect to backend OAuth endpoint
-        window.location.href = "http://localhost:4001/auth/google";
+        window.location.href = googleAuthUrl;
     };
 
     return (
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { ReceiptText, RotateCcw, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { invoiceUrl, isApiError, useBill, useIssueCreditNote, useReopenOrder, type Actor, type CreditReason, type Order } from "@/lib/api";
+import { describeModifiers } from "@/lib/modifiers";
+import { orderLabel } from "@/lib/orders";
+import { CREDIT_REASONS, describeCreditReason } from "@/lib/creditNotes";
+import { PAYMENT_STATUS_LABELS, balanceDue, describeRefunds, describeTender } from "@/lib/payments";
+import { PrintButton } from "./PrintButton";
+import { PaymentDialog } from "./PaymentDialog";
+import { toast } from "sonner";
+
+interface BillDrawerProps {
+  order: Order | null;
+  isManager: boolean;
+  actor?: Actor;
+  onClose: () => void;
+}
+
+// ORDER_REOPENED is recorded by re-opening; a standalone credit note needs a real reason
+const MANUAL_REASONS = CREDIT_REASONS.filter((r) => r.id !== "ORDER_REOPENED");
+
+// The bill behind a completed order: reprint it and, for managers, reverse it or re-open the order
+export const BillDrawer = ({ order, isManager, actor, onClose }: BillDrawerProps) => {
+  const { data: bill, error, isLoading } = useBill(order?.billId);
+  const issueCreditNote = useIssueCreditNote();
+  const reopenOrder = useReopenOrder();
+  const [reason, setReason] = useState<CreditReason | null>(null);
+  const [note, setNote] = useState("");
+  const [paying, setPaying] = useState(false);
+
+  useEffect(() => {
+    setReason(null);
+    setNote("");
+    setPaying(false);
+  }, [order]);
+
+  const creditNote = bill?.creditNote;
+  const busy = issueCreditNote.isPending || reopenOrder.isPending;
+  const canReopen = isManager && order?.status === "COMPLETED";
+  const capturedPayments = bill?.payments?.filter((p) => p.status === "CAPTURED") || [];
+
+  const handleCredit = async () => {
+    if (!bill || !reason) return;
+    try {
+      const { creditNote: issued } = await issueCreditNote.mutateAsync({ billId: bill.id, reason, note: note.trim() || undefined, actor });
+      const refunds = describeRefunds(issued);
+      toast.success(`Credit note ${issued.invoiceNumber} issued${refunds ? ` · refund ${refunds}` : ""}`);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to issue credit note");
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!order) return;
+    try {
+      const { orders, creditNote: issued } = await reopenOrder.mutateAsync({ order, reason: reason || undefined, note: note.trim() || undefined, actor });
+      toast.success(
+        `${orders.length === 1 ? `${orderLabel(orders[0])} is` : `${orders.length} orders are`} back in the kitchen as ready` +
+          (issued ? ` · credit note ${issued.invoiceNumber} issued` : "") +
+          (issued && describeRefunds(issued) ? ` · refund ${describeRefunds(issued)}` : "")
+      );
+      onClose();
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to re-open order");
+    }
+  };
+
+  return (
+    <Sheet open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{bill?.invoiceNumber || "Bill"}</SheetTitle>
+          <SheetDescription>
+            {order ? `${orderLabel(order)} · Table ${order.tableNumber ?? "-"} · ${order.customerName}` : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {!order?.billId ? (
+            <p className="text-muted-foreground">This order was closed without a bill.</p>
+          ) : isLoading ? (
+            <p className="text-muted-foreground">Loading bill...</p>
+          ) : error || !bill ? (
+            <p className="text-destructive">{isApiError(error) ? error.message : "Failed to load bill"}</p>
+          ) : (
+            <>
+              <div className="text-sm text-muted-foreground">
+                <p>Issued {new Date(bill.createdAt).toLocaleString()}</p>
+                {bill.orderIds && bill.orderIds.length > 1 && <p>Covers {bill.orderIds.length} orders at this table</p>}
+                {bill.splitIds?.length ? <p>Split into {bill.splitIds.length} shares</p> : null}
+              </div>
+
+              <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                {bill.items.map((item, idx) => (
+                  <div key={idx} className="flex justify-between gap-4">
+                    <div>
+                      <span>
+                        {item.quantity}x {item.name}
+                      </span>
+                      {item.modifiers?.length ? <p className="text-sm text-muted-foreground">{describeModifiers(item.modifiers)}</p> : null}
+                    </div>
+                    <span>₹{(item.price || 0) * (item.quantity || 1)}</span>
+                  </div>
+                ))}
+                <div className="border-t pt-2 mt-2 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>{bill.pricesIncludeTax ? "Taxable value" : "Subtotal"}</span>
+                    <span>₹{bill.subtotal}</span>
+                  </div>
+                  {(bill.taxLines || [{ label: "Tax", amount: bill.tax }]).map((line) => (
+                    <div key={line.label} className="flex justify-between">
+                      <span>{line.label}</span>
+                      <span>₹{line.amount}</span>
+                    </div>
+                  ))}
+                  {bill.service ? (
+                    <div className="flex justify-between">
+                      <span>Service charge ({bill.serviceRate}%)</span>
+                      <span>₹{bill.service}</span>
+                    </div>
+                  ) : null}
+                </div>
+                <div className="flex justify-between font-bold text-xl border-t pt-2">
+                  <span>Total</span>
+                  <span>₹{bill.total}</span>
+                </div>
+              </div>
+
+              {bill.paymentStatus && (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between font-medium">
+                    <span>{PAYMENT_STATUS_LABELS[bill.paymentStatus]}</span>
+                    <span>
+                      ₹{bill.paidAmount ?? 0} paid · ₹{balanceDue(bill)} due
+                    </span>
+                  </div>
+                  {capturedPayments.map((p) => (
+                    <div key={p.id} className="flex justify-between text-muted-foreground">
+                      <span>
+                        {describeTender(p.tender)}
+                        {p.reference ? ` · Ref ${p.reference}` : ""}
+                        {p.capturedAt ? ` · ${new Date(p.capturedAt).toLocaleTimeString()}` : ""}
+                        {p.refundId ? " · refunded" : ""}
+                      </span>
+                      <span>₹{p.amount}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <PrintButton label="Reprint Invoice" documentUrl={(opts) => invoiceUrl(bill.id, opts)} />
+                {creditNote && <PrintButton label="Credit Note" documentUrl={(opts) => invoiceUrl(creditNote.id, opts)} />}
+                {!creditNote && bill.paymentStatus && bill.paymentStatus !== "PAID" && (
+                  <Button variant="outline" onClick={() => setPaying(true)}>
+                    <Wallet className="w-4 h-4 mr-2" />
+                    Take Payment
+                  </Button>
+                )}
+              </div>
+
+              {creditNote && (
+                <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-sm">
+                  <p className="font-medium text-destructive">Credited by {creditNote.invoiceNumber}</p>
+                  <p className="text-muted-foreground">
+                    {describeCreditReason(creditNote.reason)}
+                    {creditNote.note ? ` · ${creditNote.note}` : ""}
+                    {creditNote.actor?.name ? ` · by ${creditNote.actor.name}` : ""}
+                    {` · ${new Date(creditNote.at).toLocaleString()}`}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {isManager && (
+            <div className="space-y-4 border-t pt-4">
+              <h3 className="font-semibold">Corrections</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {MANUAL_REASONS.map((r) => (
+                  <Button key={r.id} variant={reason === r.id ? "default" : "outline"} onClick={() => setReason(r.id)}>
+                    {r.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="credit-note">Note (optional)</Label>
+                <Textarea id="credit-note" maxLength={200} value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+              {bill && !creditNote && !bill.parentBillId && (
+                <Button variant="destructive" className="w-full" onClick={handleCredit} disabled={!reason || busy}>
+                  <ReceiptText className="w-4 h-4 mr-2" />
+                  Issue Credit Note for ₹{bill.total}
+                </Button>
+              )}
+              {canReopen && (
+                <>
+                  <Button variant="outline" className="w-full" onClick={handleReopen} disabled={busy}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Re-open Order
+                  </Button>
+                  <p className="text-sm text-muted-foreground">
+                    {bill && !creditNote
+                      ? "Re-opening credits this bill, refunds what was paid on it and sends every order on it back to the kitchen as ready, to be billed again."
+                      : "Re-opening sends the order back to the kitchen as ready, to be billed again."}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+      <PaymentDialog billId={paying && bill ? bill.id : null} actor={actor} onClose={() => setPaying(false)} />
+    </Sheet>
+  );
+};
@@ -1,8 +1,9 @@
-import { useState, useEffect } from "react";
-import { ShoppingCart, Plus, Minus, X, Coffee, UtensilsCrossed } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { ShoppingCart, Plus, Minus, X, Coffee, UtensilsCrossed, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import {
@@ -15,55 +16,83 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { User, LogOut, ArrowRightLeft, MoreVertical, Bell } from "lucide-react";
 import { requestNotificationPermission, showNotification } from "@/lib/notifications";
+import { useOrderEvents } from "@/hooks/use-order-events";
+import { addOrderRound, cancelOrder, createOrder, getBill, getMenu, getOrder, getSession, invoiceUrl, isApiError, listTables, orderLineErrors, requestBill, resolveTableToken, setServiceChargeDeclined, type Allergen, type ApiError, type Bill, type CreateOrderRequest, type MenuItem, type MenuResponse, type Order, type SelectedModifier, type Table, type TableSession } from "@/lib/api";
+import { describeModifiers, lineKey, unitPrice } from "@/lib/modifiers";
+import { ALLERGENS, MAX_NOTE_LENGTH } from "@/lib/allergens";
+import { describeVoidReason } from "@/lib/voids";
+import { orderLabel } from "@/lib/orders";
+import { getSessionUser, isStaff } from "@/lib/auth";
+import { PrintButton } from "./PrintButton";
+import { ModifierPickerDialog } from "./ModifierPickerDialog";
 
 interface CustomerAppProps {
   onLogout: () => void;
   onSwitchView: () => void;
 }
 
-// API URL (set via Vite env or fallback)
-const API = (import.meta.env && import.meta.env.VITE_API_URL) || "http://localhost:4001";
+// The diner event stream follows at most this many orders (server/events.js MAX_DINER_ORDERS)
+const MAX_FOLLOWED_ORDERS = 20;
 
 // Placeholder fallback functions (used if backend unavailable)
-const placeOrderFallback = async (orderData: any) => {
+const placeOrderFallback = async (orderData: CreateOrderRequest) => {
   console.log("Placing order (fallback):", orderData);
   return { success: true, orderId: `ORD-${Date.now()}` };
 };
 
-const requestBillFallback = async (orderId: string) => {
-  console.log("Requesting bill (fallback) for:", orderId);
-  return { success: true };
-};
-
 // NOTE: Removed inline/mock menu data so the app always loads menu from the backend.
 // If the backend is unavailable the menu will be empty and the UI will show no items.
 
 type CartItem = {
+  lineKey: string;
   id: string;
   name: string;
   price: number;
+  basePrice?: number;
   quantity: number;
+  modifiers?: SelectedModifier[];
+  notes?: string;
 };
 
 export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
-  const [currentView, setCurrentView] = useState<"welcome" | "otp" | "menu" | "cart" | "orderPlaced">("welcome");
+  const [currentView, setCurrentView] = useState<"welcome" | "otp" | "menu" | "cart" | "orderPlaced" | "bill">("welcome");
   const [tableNumber, setTableNumber] = useState("");
+  // Signed token from the table's QR code (/customer?t=...); binds the table so the diner doesn't type it
+  const [tableToken, setTableToken] = useState<string | null>(null);
+  const [tables, setTables] = useState<Table[]>([]);
+  // Staff may take an order for any table by number; diners order through the table's QR code
+  const canTypeTable = isStaff(getSessionUser());
   const [customerName, setCustomerName] = useState("");
   const [phone, setPhone] = useState("");
   const [cart, setCart] = useState<CartItem[]>([]);
   const [orderId, setOrderId] = useState("");
-  type MenuMap = Record<string, { id: string; name: string; price: number; available?: boolean }[]>;
+  // Daily display number of the order on screen (#042); empty for orders placed before numbering
+  const [orderNumber, setOrderNumber] = useState("");
+  const orderRef = orderNumber || orderId;
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   // initialize menu as empty — we rely on backend /menu
-  const [menu, setMenu] = useState<MenuMap>({} as MenuMap);
+  const [menu, setMenu] = useState<MenuResponse>({});
   const [loadingMenu, setLoadingMenu] = useState(false);
   const [itemQuantities, setItemQuantities] = useState<Record<string, number>>({});
+  const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
+  const [orderNote, setOrderNote] = useState("");
+  // Server-side pricing problems by cart line; cleared as soon as the cart changes
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({});
+  // Allergy flags stay set for the diner's later rounds until they log out
+  const [allergens, setAllergens] = useState<Allergen[]>([]);
   const [otpSent, setOtpSent] = useState(false);
   const [otpCode, setOtpCode] = useState("");
   const [pollingStatus, setPollingStatus] = useState<string | null>(null);
+  // End of the grace window for cancelling the order just placed
+  const [cancelDeadline, setCancelDeadline] = useState<number | null>(null);
+  // Order the cart is being added to as a new round, instead of placing a separate order
+  const [addingToOrder, setAddingToOrder] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [activeOrders, setActiveOrders] = useState<string[]>([]);
-  const [activeOrderStatuses, setActiveOrderStatuses] = useState<Record<string, any>>({});
+  const [activeOrderStatuses, setActiveOrderStatuses] = useState<Record<string, Order>>({});
   const [showUnavailable, setShowUnavailable] = useState(false);
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [tableSession, setTableSession] = useState<TableSession | null>(null);
 
   // Restore session (if any) on mount so user stays signed in across reloads
   useEffect(() => {
@@ -89,15 +118,37 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
         console.log('Notification permission granted');
       }
     });
+
+    // The server checks the table again when the order is placed; this only catches typos early
+    listTables().then(setTables).catch(() => undefined);
+
+    const scanned = new URLSearchParams(window.location.search).get("t");
+    if (scanned) {
+      resolveTableToken(scanned)
+        .then(({ tableNumber: table }) => {
+          setTableNumber(String(table));
+          setTableToken(scanned);
+        })
+        .catch((e) => toast.error(isApiError(e) && e.status === 403 ? e.message : "Couldn't read the table QR code; please scan it again"));
+    }
   }, []);
 
   const handleStartOrder = () => {
+    if (!tableToken && !canTypeTable) {
+      toast.error("Scan the QR code on your table to order");
+      return;
+    }
     if (!tableNumber || !customerName) {
       toast.error("Please enter table number and name");
       return;
     }
-    if (parseInt(tableNumber) < 1 || parseInt(tableNumber) > 40) {
-      toast.error("Table number must be between 1 and 40");
+    if (!tableToken && !(parseInt(tableNumber) > 0)) {
+      toast.error("Please enter a valid table number");
+      return;
+    }
+    const table = tables.find((t) => t.tableNumber === parseInt(tableNumber));
+    if (!tableToken && tables.length > 0 && (!table || !table.active)) {
+      toast.error(table ? `${table.label} isn't taking orders right now` : `There's no table ${tableNumber}; please check the number on your table`);
       return;
     }
 
@@ -118,34 +169,46 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
     setCurrentView("menu");
   };
 
-  const addToCart = (item: any) => {
-    // default add 1
-    const qty = 1;
-    const existingItem = cart.find((cartItem) => cartItem.id === item.id);
-    if (existingItem) {
-      setCart(
-        cart.map((cartItem) =>
-          cartItem.id === item.id ? { ...cartItem, quantity: cartItem.quantity + qty } : cartItem
-        )
-      );
-    } else {
-      setCart([...cart, { ...item, quantity: qty }]);
-    }
+  // Lines are keyed by item + chosen options, so "Chai, large" and "Chai, regular" stay separate
+  const addLine = (item: MenuItem, modifiers: SelectedModifier[], qty: number) => {
+    const key = lineKey(item.id, modifiers);
+    setCart((prevCart) =>
+      prevCart.some((cartItem) => cartItem.lineKey === key)
+        ? prevCart.map((cartItem) => (cartItem.lineKey === key ? { ...cartItem, quantity: cartItem.quantity + qty } : cartItem))
+        : [
+            ...prevCart,
+            {
+              lineKey: key,
+              id: item.id,
+              name: item.name,
+              price: unitPrice(item.price, modifiers),
+              basePrice: item.price,
+              quantity: qty,
+              modifiers,
+            },
+          ]
+    );
+  };
+
+  const addToCart = (item: MenuItem, modifiers: SelectedModifier[] = [], qty = 1) => {
+    addLine(item, modifiers, qty);
     toast.success(`${item.name} added to cart`);
   };
 
+  // Items with options go through the picker; plain items are added straight away
+  const handleAddItem = (item: MenuItem) => {
+    if (item.modifierGroups?.length) setPickerItem(item);
+    else addToCart(item);
+  };
+
+  const handlePickerConfirm = (item: MenuItem, modifiers: SelectedModifier[], qty: number) => {
+    addToCart(item, modifiers, qty);
+    setPickerItem(null);
+  };
+
   const addToCartWithQty = (item: any, qty = 1) => {
     if (qty <= 0) return toast.error("Quantity must be at least 1");
-    const existingItem = cart.find((cartItem) => cartItem.id === item.id);
-    if (existingItem) {
-      setCart(
-        cart.map((cartItem) =>
-          cartItem.id === item.id ? { ...cartItem, quantity: cartItem.quantity + qty } : cartItem
-        )
-      );
-    } else {
-      setCart([...cart, { ...item, quantity: qty }]);
-    }
+    addLine(item, [], qty);
     // reset quantity control
     setItemQuantities((s) => ({ ...s, [item.id]: 0 }));
     toast.success(`${item.name} x${qty} added to cart`);
@@ -156,71 +219,133 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
   const decMenuQuantity = (id: string) =>
     setItemQuantities((s) => ({ ...s, [id]: Math.max(0, (s[id] || 0) - 1) }));
 
-  const updateQuantity = (id: string, delta: number) => {
+  const updateQuantity = (key: string, delta: number) => {
     setCart((prevCart) =>
       prevCart
         .map((item) =>
-          item.id === id ? { ...item, quantity: Math.max(0, item.quantity + delta) } : item
+          item.lineKey === key ? { ...item, quantity: Math.max(0, item.quantity + delta) } : item
         )
         .filter((item) => item.quantity > 0)
     );
   };
 
-  const removeFromCart = (id: string) => {
-    setCart(cart.filter((item) => item.id !== id));
+  // Menu tiles show one stepper per item; minus takes from the most recently added line
+  const decrementItem = (id: string) => {
+    const line = [...cart].reverse().find((item) => item.id === id);
+    if (line) updateQuantity(line.lineKey, -1);
+  };
+
+  const setLineNote = (key: string, notes: string) => {
+    setCart((prevCart) => prevCart.map((item) => (item.lineKey === key ? { ...item, notes } : item)));
+  };
+
+  const toggleAllergen = (id: Allergen) => {
+    setAllergens((prev) => (prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]));
+  };
+
+  const removeFromCart = (key: string) => {
+    setCart(cart.filter((item) => item.lineKey !== key));
   };
 
   const getTotalAmount = () => {
     return cart.reduce((total, item) => total + item.price * item.quantity, 0);
   };
 
+  // Mark the cart rows the server refused and refresh the menu if something sold out
+  const showRejectedLines = (e: ApiError) => {
+    const errors = orderLineErrors(e);
+    setLineErrors(Object.fromEntries(errors.filter((err) => cart[err.index]).map((err) => [cart[err.index].lineKey, err.message])));
+    if (errors.some((err) => err.code === "UNKNOWN_ITEM" || err.code === "UNAVAILABLE")) {
+      getMenu().then(setMenu).catch(() => undefined);
+    }
+    toast.error(e.message);
+  };
+
+  // Send the cart as the next round of the order on screen. Returns false when the kitchen
+  // has already finished that order, so the cart should go in as a new order instead.
+  const handleAddRound = async (targetOrderId: string) => {
+    try {
+      const { order, round } = await addOrderRound(targetOrderId, {
+        items: cart.map(({ lineKey: _key, ...item }) => item),
+        notes: orderNote.trim() || undefined,
+        allergens,
+        tableToken: tableToken || undefined,
+      });
+      setActiveOrderStatuses((prev) => ({ ...prev, [order.id]: order }));
+      setCart([]);
+      setOrderNote("");
+      setAddingToOrder(null);
+      setCurrentView("orderPlaced");
+      toast.success(`Added ${round.itemCount} items to your order`);
+      return true;
+    } catch (e) {
+      if (isApiError(e) && e.status === 409) {
+        setAddingToOrder(null);
+        toast.info("Your order is already ready, so these items are sent as a new order");
+        return false;
+      }
+      if (isApiError(e) && e.status === 400) showRejectedLines(e);
+      else toast.error(isApiError(e) ? e.message : "Could not add to your order");
+      return true;
+    }
+  };
+
   const handlePlaceOrder = async () => {
     if (cart.length === 0) {
       toast.error("Your cart is empty");
       return;
     }
+    if (addingToOrder && (await handleAddRound(addingToOrder))) return;
 
-    const orderData = {
+    const orderData: CreateOrderRequest = {
       tableNumber: parseInt(tableNumber),
+      tableToken: tableToken || undefined,
       customerName,
-      items: cart,
+      phone: phone || undefined,
+      items: cart.map(({ lineKey: _key, ...item }) => item),
+      notes: orderNote.trim() || undefined,
+      allergens,
       totalAmount: getTotalAmount(),
-      status: "PENDING",
-      timestamp: Date.now(),
     };
 
     // Try backend first, fall back to local placeholder
     try {
-      const res = await fetch(`${API}/orders`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(orderData),
+      const body = await createOrder(orderData);
+      const newOrderId = body.orderId || `ORD-${Date.now()}`;
+      setOrderId(newOrderId);
+      setOrderNumber(body.displayNumber || "");
+      setCancelDeadline(body.cancellableUntil || null);
+      if (body.sessionId) loadTableSession(body.sessionId);
+      // persist active order locally so customer returns can see pending orders
+      try {
+        // Persist active orders per-authenticated-phone so unauthenticated users don't see others'
+        const key = `activeOrders:${phone}`;
+        const existing = JSON.parse(localStorage.getItem(key) || "[]");
+        const next = Array.from(new Set([...(existing || []), newOrderId]));
+        localStorage.setItem(key, JSON.stringify(next));
+        setActiveOrders(next);
+      } catch (e) { }
+      setCurrentView("orderPlaced");
+      toast.success("Order placed successfully!");
+      showNotification('Order Placed! 🎉', {
+        body: `Your order ${body.displayNumber || newOrderId} has been sent to the kitchen`,
+        tag: 'order-placed'
       });
-      if (res.ok) {
-        const body = await res.json();
-        const newOrderId = body.orderId || `ORD-${Date.now()}`;
-        setOrderId(newOrderId);
-        // persist active order locally so customer returns can see pending orders
-        try {
-          // Persist active orders per-authenticated-phone so unauthenticated users don't see others'
-          const key = `activeOrders:${phone}`;
-          const existing = JSON.parse(localStorage.getItem(key) || "[]");
-          const next = Array.from(new Set([...(existing || []), newOrderId]));
-          localStorage.setItem(key, JSON.stringify(next));
-          setActiveOrders(next);
-        } catch (e) { }
-        setCurrentView("orderPlaced");
-        toast.success("Order placed successfully!");
-        showNotification('Order Placed! 🎉', {
-          body: `Your order #${newOrderId} has been sent to the kitchen`,
-          tag: 'order-placed'
-        });
-        setPollingStatus("PENDING");
+      setPollingStatus("PENDING");
+      return;
+    } catch (e) {
+      // The table's QR code was replaced since it was scanned, or there was none; the diner has to scan the current one
+      if (isApiError(e) && e.status === 403) {
+        setTableToken(null);
+        setCurrentView("welcome");
+        toast.error(e.message);
+        return;
+      }
+      // The server rejected the order itself (e.g. an item sold out or a note is too long); let the diner fix it
+      if (isApiError(e) && e.status === 400) {
+        showRejectedLines(e);
         return;
       }
-      // otherwise fall through to fallback
-      console.warn("Order POST failed, using fallback");
-    } catch (e) {
       console.warn("Order POST error, using fallback:", e);
     }
 
@@ -228,6 +353,7 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
     if (result.success) {
       const newOrderId = result.orderId;
       setOrderId(newOrderId);
+      setOrderNumber("");
       try {
         const key = `activeOrders:${phone}`;
         const existing = JSON.parse(localStorage.getItem(key) || "[]");
@@ -253,11 +379,8 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
       // only show loading indicator on initial fetch
       if (firstLoad) setLoadingMenu(true);
       try {
-        const res = await fetch(`${API}/menu`);
-        if (!cancelled && res.ok) {
-          const data = await res.json();
-          setMenu(data);
-        }
+        const data = await getMenu();
+        if (!cancelled) setMenu(data);
       } catch (e) {
         console.warn("Failed to fetch menu from backend, using local menu", e);
       } finally {
@@ -282,100 +405,209 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
     };
   }, [currentView]);
 
-  // Poll order status when in orderPlaced view (so customer gets updates)
+  // Clear the finished order and return to the welcome screen
+  const resetAfterOrder = (finishedOrderId: string) => {
+    setAddingToOrder(null);
+    setCart([]);
+    setOrderNote("");
+    setTableNumber("");
+    setCustomerName("");
+    setOrderId("");
+    setOrderNumber("");
+    setBill(null);
+    setTableSession(null);
+    setCurrentView("welcome");
+    setPollingStatus(null);
+    // remove from activeOrders
+    try {
+      const key = `activeOrders:${phone}`;
+      const existing = JSON.parse(localStorage.getItem(key) || "[]");
+      const next = (existing || []).filter((id) => id !== finishedOrderId);
+      localStorage.setItem(key, JSON.stringify(next));
+      setActiveOrders(next);
+    } catch (e) { }
+  };
+
+  const showBill = async (billId: string) => {
+    try {
+      setBill(await getBill(billId));
+      setCurrentView("bill");
+    } catch (e) {
+      toast.error("Failed to load your bill");
+    }
+  };
+
+  const handleToggleServiceCharge = async (declined: boolean) => {
+    if (!bill) return;
+    try {
+      setBill((await setServiceChargeDeclined(bill.id, declined, tableToken || undefined)).bill);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to update service charge");
+    }
+  };
+
+  const handleRequestBill = async (table: number) => {
+    try {
+      await requestBill(table, { name: customerName || "Guest", role: "customer" }, tableToken || undefined);
+      toast.success("Bill requested — we'll bring it to your table shortly");
+    } catch (e) {
+      toast.error(isApiError(e) && e.kind === "http" ? e.message : "Failed to request bill");
+    }
+  };
+
+  // Apply a status update for the order currently shown on the orderPlaced screen
+  const applyOrderStatus = (order: { status?: string; billId?: string | null; voided?: Order["voided"] }) => {
+    if (!order.status || order.status === pollingStatus) return;
+    setPollingStatus(order.status);
+    toast(`Order status: ${order.status.replace("_", " ")}`);
+
+    // Show notification for status changes
+    if (order.status === "PREPARING") {
+      showNotification('Order Accepted! 👨‍🍳', {
+        body: `Your order ${orderRef} is being prepared`,
+        tag: 'order-preparing'
+      });
+    } else if (order.status === "READY") {
+      showNotification('Order Ready! ✅', {
+        body: `Your order ${orderRef} is ready for pickup`,
+        tag: 'order-ready',
+        requireInteraction: true // Keep notification until user interacts
+      });
+    } else if (order.status === "CANCELLED" && order.voided?.reason !== "CUSTOMER_CANCELLED") {
+      showNotification('Order Cancelled', {
+        body: `Your order ${orderRef} was cancelled by the kitchen${order.voided ? ` (${describeVoidReason(order.voided.reason)})` : ""}`,
+        tag: 'order-cancelled'
+      });
+    }
+    // A billed order shows the bill; otherwise reset after short delay
+    if (order.status === "COMPLETED" && order.billId) {
+      showBill(order.billId);
+    } else if (order.status === "COMPLETED" || order.status === "CANCELLED") {
+      const finishedOrderId = orderId;
+      setTimeout(() => resetAfterOrder(finishedOrderId), 3000);
+    }
+  };
+
+  // Customers can cancel while the order is PENDING and inside the grace window
+  const handleCancelOrder = async (id: string) => {
+    try {
+      const { order } = await cancelOrder(id, tableToken || undefined);
+      setActiveOrderStatuses((prev) => ({ ...prev, [id]: order }));
+      if (id === orderId) {
+        setCancelDeadline(null);
+        if (currentView === "orderPlaced") applyOrderStatus(order);
+      }
+      toast.success("Order cancelled");
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Could not cancel the order");
+    }
+  };
+
+  const canCancel = (order?: Order) => !!order && order.status === "PENDING" && !!order.cancellableUntil && order.cancellableUntil > now;
+  const cancelWindowOpen =
+    (!!cancelDeadline && cancelDeadline > now && (pollingStatus === "PENDING" || !pollingStatus)) ||
+    activeOrders.some((id) => canCancel(activeOrderStatuses[id]));
+
+  // Tick while a cancel window is open so the countdown and Cancel buttons expire on time
   useEffect(() => {
+    if (!cancelWindowOpen) return;
+    const iv = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(iv);
+  }, [cancelWindowOpen]);
+
+  // Orders this diner follows for live updates and the table total
+  const followedOrders = Array.from(new Set([orderId, ...activeOrders].filter(Boolean))).slice(0, MAX_FOLLOWED_ORDERS);
+
+  // Running total for every order placed at this table
+  const loadTableSession = async (sessionId: string) => {
+    try {
+      setTableSession(await getSession(sessionId, followedOrders));
+    } catch (e) {
+      // session total is informational only
+    }
+  };
+
+  // Voided lines (order id and line index) the diner already knows about, so a later update to the
+  // order, such as a kitchen bump, doesn't announce the same void again
+  const seenVoids = useRef(new Set<string>());
+
+  // Records the order's voided lines; unless `quiet`, names the most recent of those not seen before
+  const announceVoids = (order: Order, quiet = false) => {
+    const fresh = order.items
+      .map((it, index) => ({ it, key: `${order.id}:${index}` }))
+      .filter(({ it, key }) => it.voided && !seenVoids.current.has(key));
+    fresh.forEach(({ key }) => seenVoids.current.add(key));
+    const removed = fresh.map(({ it }) => it).sort((a, b) => b.voided!.at - a.voided!.at)[0];
+    if (removed && !quiet) toast.warning(`${removed.name} was removed from your order (${describeVoidReason(removed.voided!.reason)})`);
+  };
+
+  const checkOrderStatus = async () => {
     if (currentView !== "orderPlaced" || !orderId) return;
-    let active = true;
-    const check = async () => {
-      try {
-        const res = await fetch(`${API}/orders/${orderId}`);
-        if (!active) return;
-        if (res.ok) {
-          const order = await res.json();
-          if (order.status && order.status !== pollingStatus) {
-            setPollingStatus(order.status);
-            toast(`Order status: ${order.status.replace("_", " ")}`);
-
-            // Show notification for status changes
-            if (order.status === "PREPARING") {
-              showNotification('Order Accepted! 👨‍🍳', {
-                body: `Your order #${orderId} is being prepared`,
-                tag: 'order-preparing'
-              });
-            } else if (order.status === "READY") {
-              showNotification('Order Ready! ✅', {
-                body: `Your order #${orderId} is ready for pickup`,
-                tag: 'order-ready',
-                requireInteraction: true // Keep notification until user interacts
-              });
-            }
-            // If completed, reset after short delay
-            if (order.status === "COMPLETED") {
-              setTimeout(() => {
-                setCart([]);
-                setTableNumber("");
-                setCustomerName("");
-                setOrderId("");
-                setCurrentView("welcome");
-                setPollingStatus(null);
-                // remove from activeOrders
-                try {
-                  const key = `activeOrders:${phone}`;
-                  const existing = JSON.parse(localStorage.getItem(key) || "[]");
-                  const next = (existing || []).filter((id) => id !== orderId);
-                  localStorage.setItem(key, JSON.stringify(next));
-                  setActiveOrders(next);
-                } catch (e) { }
-              }, 3000);
-            }
-          }
-        }
-      } catch (e) {
-        // ignore polling errors
+    try {
+      const order = await getOrder(orderId);
+      // Voids already on the order when it loads were shown on the order, not announced
+      announceVoids(order, true);
+      applyOrderStatus(order);
+      if (order.sessionId) loadTableSession(order.sessionId);
+    } catch (e) {
+      // ignore polling errors
+    }
+  };
+
+  const loadActiveOrderStatuses = async () => {
+    if (!isAuthenticated || !phone) return;
+    try {
+      const key = `activeOrders:${phone}`;
+      const stored = JSON.parse(localStorage.getItem(key) || "[]");
+      if (stored && stored.length) {
+        setActiveOrders(stored);
+        const statuses: Record<string, Order> = {};
+        await Promise.all(
+          stored.map(async (id: string) => {
+            try {
+              statuses[id] = await getOrder(id);
+            } catch (e) { }
+          })
+        );
+        setActiveOrderStatuses(statuses);
       }
-    };
+    } catch (e) { }
+  };
 
-    // initial check and interval
-    check();
-    const iv = setInterval(check, 5000);
-    return () => {
-      active = false;
-      clearInterval(iv);
-    };
-  }, [currentView, orderId, pollingStatus]);
+  // Live status updates pushed from the backend; polls as a fallback while the stream is down
+  useOrderEvents((event) => {
+    if (event.type === "session.updated" && event.session.orderIds.includes(orderId)) {
+      setTableSession(event.session);
+      return;
+    }
+    if (event.type !== "order.status_changed" && event.type !== "order.updated" && event.type !== "order.round_added") return;
+    const changed = event.order;
+    // The kitchen voided a line (bumps send order.updated too, so only new voids are named)
+    if (event.type === "order.updated" && changed.id === orderId) announceVoids(changed);
+    if (currentView === "orderPlaced" && changed.id === orderId) {
+      applyOrderStatus(changed);
+    }
+    if (activeOrders.includes(changed.id)) {
+      setActiveOrderStatuses((prev) => ({ ...prev, [changed.id]: changed }));
+    }
+  }, {
+    orderIds: followedOrders,
+    onFallbackPoll: () => {
+      checkOrderStatus();
+      loadActiveOrderStatuses();
+    },
+  });
 
-  // Load active orders from localStorage only after authentication, and periodically refresh their statuses
+  // Fetch the current status once when entering the orderPlaced view
   useEffect(() => {
-    if (!isAuthenticated || !phone) return;
-    let cancelled = false;
-    const loadActive = async () => {
-      try {
-        const key = `activeOrders:${phone}`;
-        const stored = JSON.parse(localStorage.getItem(key) || "[]");
-        if (stored && stored.length) {
-          setActiveOrders(stored);
-          const statuses: Record<string, any> = {};
-          await Promise.all(
-            stored.map(async (id: string) => {
-              try {
-                const res = await fetch(`${API}/orders/${id}`);
-                if (!cancelled && res.ok) {
-                  const o = await res.json();
-                  statuses[id] = o;
-                }
-              } catch (e) { }
-            })
-          );
-          if (!cancelled) setActiveOrderStatuses(statuses);
-        }
-      } catch (e) { }
-    };
-    loadActive();
-    const iv = window.setInterval(loadActive, 10000);
-    return () => {
-      cancelled = true;
-      clearInterval(iv);
-    };
+    checkOrderStatus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentView, orderId]);
+
+  // Load active orders from localStorage only after authentication
+  useEffect(() => {
+    loadActiveOrderStatuses();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAuthenticated, phone]);
 
   // Allow user to manually refresh active orders list
@@ -385,15 +617,11 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
       const key = `activeOrders:${phone}`;
       const stored = JSON.parse(localStorage.getItem(key) || "[]");
       if (stored && stored.length) {
-        const statuses: Record<string, any> = {};
+        const statuses: Record<string, Order> = {};
         await Promise.all(
           stored.map(async (id: string) => {
             try {
-              const res = await fetch(`${API}/orders/${id}`);
-              if (res.ok) {
-                const o = await res.json();
-                statuses[id] = o;
-              }
+              statuses[id] = await getOrder(id);
             } catch (e) { }
           })
         );
@@ -415,24 +643,29 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
     setActiveOrders([]);
     setActiveOrderStatuses({});
     setCart([]);
+    setOrderNote("");
+    setAllergens([]);
     setCurrentView('welcome');
     setTableNumber('');
+    setTableToken(null);
     setCustomerName('');
     onLogout();
   };
 
+  useEffect(() => {
+    setLineErrors({});
+  }, [cart]);
+
+  const tableLabel = tables.find((t) => t.tableNumber === parseInt(tableNumber))?.label || `Table ${tableNumber}`;
+
   // Listen for cross-tab menu updates (triggered by admin actions) and refresh menu immediately
   useEffect(() => {
     const onStorage = (e: StorageEvent) => {
       if (e.key === "menu-updated") {
         (async () => {
           try {
-            const res = await fetch(`${API}/menu`);
-            if (res.ok) {
-              const data = await res.json();
-              setMenu(data);
-              toast("Menu updated");
-            }
+            setMenu(await getMenu());
+            toast("Menu updated");
           } catch (err) {
             // ignore
           }
@@ -454,17 +687,26 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
             <p className="text-muted-foreground">Let's get your order started!</p>
           </div>
           <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium mb-2 block">Table Number (1-40)</label>
-              <Input
-                type="number"
-                placeholder="Enter your table number"
-                value={tableNumber}
-                onChange={(e) => setTableNumber(e.target.value)}
-                min="1"
-                max="40"
-              />
-            </div>
+            {tableToken ? (
+              <div className="p-3 rounded-lg bg-primary/10 text-center font-semibold text-primary">
+                You're at {tableLabel}
+              </div>
+            ) : !canTypeTable ? (
+              <div className="p-3 rounded-lg bg-muted text-center text-sm text-muted-foreground">
+                Scan the QR code on your table to order
+              </div>
+            ) : (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Table Number</label>
+                <Input
+                  type="number"
+                  placeholder="Enter your table number"
+                  value={tableNumber}
+                  onChange={(e) => setTableNumber(e.target.value)}
+                  min="1"
+                />
+              </div>
+            )}
             <div>
               <label className="text-sm font-medium mb-2 block">Your Name</label>
               <Input
@@ -506,17 +748,38 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                     return (
                       <div key={id} className="flex items-center justify-between p-3 bg-muted/50 rounded">
                         <div>
-                          <div className="font-medium">Order {id}</div>
+                          <div className="font-medium">Order {o ? orderLabel(o) : id}</div>
                           <div className="text-sm text-muted-foreground">{o ? o.status : 'Loading...'}</div>
                         </div>
                         <div className="flex items-center gap-2">
-                          <Button size="sm" onClick={() => {
-                            setOrderId(id);
-                            setCurrentView('orderPlaced');
-                            setPollingStatus(o?.status || null);
-                          }}>
-                            View
-                          </Button>
+                          {canCancel(o) && (
+                            <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleCancelOrder(id)}>
+                              Cancel
+                            </Button>
+                          )}
+                          {o?.status === "READY" && o.tableNumber && (
+                            <Button size="sm" variant="outline" onClick={() => handleRequestBill(o.tableNumber)}>
+                              Request Bill
+                            </Button>
+                          )}
+                          {o?.billId ? (
+                            <Button size="sm" onClick={() => {
+                              setOrderId(id);
+                              setOrderNumber(o?.displayNumber || "");
+                              showBill(o.billId);
+                            }}>
+                              View Bill
+                            </Button>
+                          ) : (
+                            <Button size="sm" onClick={() => {
+                              setOrderId(id);
+                              setOrderNumber(o?.displayNumber || "");
+                              setCurrentView('orderPlaced');
+                              setPollingStatus(o?.status || null);
+                            }}>
+                              View
+                            </Button>
+                          )}
                         </div>
                       </div>
                     );
@@ -546,8 +809,11 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                 <Coffee className="h-5 w-5 text-primary" />
               </div>
               <div>
-                <h2 className="font-semibold text-sm md:text-base">Table {tableNumber}</h2>
-                <p className="text-xs text-muted-foreground">{customerName}</p>
+                <h2 className="font-semibold text-sm md:text-base">{tableLabel}</h2>
+                <p className="text-xs text-muted-foreground">
+                  {customerName}
+                  {addingToOrder ? ` · adding to ${addingToOrder}` : ""}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -653,7 +919,7 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {visibleItems.map((item: any) => {
-                    const qty = cart.find(i => i.id === item.id)?.quantity || 0;
+                    const qty = cart.filter(i => i.id === item.id).reduce((sum, i) => sum + i.quantity, 0);
                     return (
                       <div key={item.id} className="group flex gap-4 p-4 rounded-xl border bg-card/50 hover:bg-card transition-all hover:shadow-md">
                         <div className="flex-1 flex flex-col justify-between space-y-2">
@@ -662,7 +928,10 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                             <p className="text-sm text-muted-foreground line-clamp-2 mt-1">{item.description || "Delicious and freshly prepared."}</p>
                           </div>
                           <div className="flex items-center justify-between mt-2">
-                            <p className="font-medium text-foreground">₹{item.price}</p>
+                            <p className="font-medium text-foreground">
+                              ₹{item.price}
+                              {item.modifierGroups?.length ? <span className="ml-2 text-xs text-muted-foreground">Customisable</span> : null}
+                            </p>
                             {item.available === false && (
                               <Badge variant="destructive" className="text-[10px]">Unavailable</Badge>
                             )}
@@ -681,11 +950,11 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                           <div className="absolute bottom-2 right-2">
                             {qty > 0 ? (
                               <div className="flex items-center bg-background rounded-full shadow-lg border p-0.5 h-8">
-                                <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-secondary/30" onClick={() => updateQuantity(item.id, -1)}>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-secondary/30" onClick={() => decrementItem(item.id)}>
                                   <Minus className="w-3 h-3" />
                                 </Button>
                                 <span className="w-6 text-center font-medium text-xs">{qty}</span>
-                                <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-secondary/30" onClick={() => addToCart(item)}>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-secondary/30" onClick={() => handleAddItem(item)}>
                                   <Plus className="w-3 h-3" />
                                 </Button>
                               </div>
@@ -693,7 +962,7 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                               <Button
                                 size="icon"
                                 className="h-8 w-8 rounded-full shadow-lg"
-                                onClick={() => addToCart(item)}
+                                onClick={() => handleAddItem(item)}
                                 disabled={item.available === false}
                               >
                                 <Plus className="w-4 h-4" />
@@ -713,6 +982,8 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
           })}
         </div>
 
+        <ModifierPickerDialog item={pickerItem} onClose={() => setPickerItem(null)} onConfirm={handlePickerConfirm} />
+
         {/* Floating Cart Bar */}
         {cart.length > 0 && (
           <div className="fixed bottom-4 left-4 right-4 z-50 max-w-5xl mx-auto">
@@ -767,41 +1038,84 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
           <>
             <div className="flex-1 p-4 md:p-6 space-y-4 overflow-y-auto pb-32 max-w-3xl mx-auto w-full">
               {cart.map((item) => (
-                <Card key={item.id} className="p-4 border-0 bg-card/50 shadow-sm flex items-center justify-between gap-4">
-                  <div className="flex-1">
-                    <h4 className="font-semibold text-lg">{item.name}</h4>
-                    <p className="text-sm text-muted-foreground">₹{item.price} each</p>
-                  </div>
+                <Card key={item.lineKey} className="p-4 border-0 bg-card/50 shadow-sm space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1">
+                      <h4 className="font-semibold text-lg">{item.name}</h4>
+                      {item.modifiers?.length ? <p className="text-sm text-muted-foreground">{describeModifiers(item.modifiers)}</p> : null}
+                      <p className="text-sm text-muted-foreground">₹{item.price} each</p>
+                    </div>
 
-                  <div className="flex items-center gap-3 bg-background rounded-full border p-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 rounded-full"
-                      onClick={() => updateQuantity(item.id, -1)}
-                    >
-                      <Minus className="w-3 h-3" />
-                    </Button>
-                    <span className="font-medium w-6 text-center text-sm">{item.quantity}</span>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 rounded-full"
-                      onClick={() => updateQuantity(item.id, 1)}
-                    >
-                      <Plus className="w-3 h-3" />
-                    </Button>
-                  </div>
+                    <div className="flex items-center gap-3 bg-background rounded-full border p-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 rounded-full"
+                        onClick={() => updateQuantity(item.lineKey, -1)}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="font-medium w-6 text-center text-sm">{item.quantity}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 rounded-full"
+                        onClick={() => updateQuantity(item.lineKey, 1)}
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </div>
 
-                  <div className="text-right min-w-[80px]">
-                    <p className="font-bold">₹{item.price * item.quantity}</p>
-                  </div>
+                    <div className="text-right min-w-[80px]">
+                      <p className="font-bold">₹{item.price * item.quantity}</p>
+                    </div>
 
-                  <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive" onClick={() => removeFromCart(item.id)}>
-                    <X className="w-4 h-4" />
-                  </Button>
+                    <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive" onClick={() => removeFromCart(item.lineKey)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {lineErrors[item.lineKey] && <p className="text-sm font-medium text-destructive">{lineErrors[item.lineKey]}</p>}
+                  <Input
+                    placeholder="Add a note, e.g. no onions"
+                    maxLength={MAX_NOTE_LENGTH}
+                    value={item.notes || ""}
+                    onChange={(e) => setLineNote(item.lineKey, e.target.value)}
+                    className="h-9 text-sm"
+                  />
                 </Card>
               ))}
+
+              <Card className="p-4 border-0 bg-card/50 shadow-sm space-y-4">
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Instructions for the kitchen</h4>
+                  <Textarea
+                    placeholder="Anything the kitchen should know about this order"
+                    maxLength={MAX_NOTE_LENGTH}
+                    value={orderNote}
+                    onChange={(e) => setOrderNote(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <h4 className="font-semibold flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-destructive" />
+                    Allergies
+                  </h4>
+                  <div className="flex flex-wrap gap-2">
+                    {ALLERGENS.map((a) => (
+                      <Button
+                        key={a.id}
+                        type="button"
+                        size="sm"
+                        variant={allergens.includes(a.id) ? "destructive" : "outline"}
+                        className="rounded-full"
+                        onClick={() => toggleAllergen(a.id)}
+                      >
+                        {a.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </Card>
             </div>
 
             <div className="fixed bottom-0 left-0 right-0 border-t border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 p-4 md:p-6 z-40">
@@ -811,7 +1125,7 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
                   <span className="text-2xl font-bold">₹{getTotalAmount()}</span>
                 </div>
                 <Button onClick={handlePlaceOrder} className="w-full rounded-full text-lg h-12 shadow-lg shadow-primary/20" size="lg">
-                  Place Order
+                  {addingToOrder ? "Add to My Order" : "Place Order"}
                 </Button>
               </div>
             </div>
@@ -846,7 +1160,7 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
             <h2 className="text-2xl font-bold">Order Placed!</h2>
             <p className="text-muted-foreground">Your order is being processed</p>
             <div className="flex items-center justify-center gap-3">
-              <p className="text-sm font-medium text-foreground">Order ID: {orderId}</p>
+              <p className="text-sm font-medium text-foreground">Order {orderRef}</p>
               {pollingStatus && (
                 <span className="inline-flex items-center px-2 py-1 rounded-full text-sm font-medium bg-secondary/10 text-secondary">
                   {pollingStatus.replace("_", " ")}
@@ -855,10 +1169,46 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
             </div>
           </div>
           <div className="space-y-3 pt-4">
+            {tableSession && (
+              <div className="flex justify-between text-sm bg-muted/50 rounded p-3">
+                <span className="text-muted-foreground">Table total so far ({tableSession.orderCount} orders)</span>
+                <span className="font-semibold">₹{tableSession.runningTotal}</span>
+              </div>
+            )}
+            {pollingStatus === "READY" && (
+              <Button onClick={() => handleRequestBill(parseInt(tableNumber) || activeOrderStatuses[orderId]?.tableNumber)} className="w-full">
+                Request Bill
+              </Button>
+            )}
+            {cancelDeadline && cancelDeadline > now && (pollingStatus === "PENDING" || !pollingStatus) && (
+              <Button onClick={() => handleCancelOrder(orderId)} variant="outline" className="w-full text-destructive">
+                Cancel Order ({Math.ceil((cancelDeadline - now) / 1000)}s)
+              </Button>
+            )}
+            {pollingStatus === "BILL_REQUESTED" && (
+              <p className="text-sm text-muted-foreground">Bill requested — your bill will appear here once it's ready.</p>
+            )}
+            {(pollingStatus === "PENDING" || pollingStatus === "PREPARING") && (
+              <Button
+                onClick={() => {
+                  setAddingToOrder(orderId);
+                  setCart([]);
+                  setOrderNote("");
+                  setCurrentView("menu");
+                }}
+                variant="outline"
+                className="w-full"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add More Items
+              </Button>
+            )}
             <Button
               onClick={() => {
+                setAddingToOrder(null);
                 setCurrentView("welcome");
                 setCart([]);
+                setOrderNote("");
                 setTableNumber("");
                 setCustomerName("");
               }}
@@ -873,5 +1223,73 @@ export const CustomerApp = ({ onLogout, onSwitchView }: CustomerAppProps) => {
     );
   }
 
+  // Bill Screen
+  if (currentView === "bill" && bill) {
+    const canToggleService = !!bill.taxConfig?.serviceCharge.enabled && !!bill.taxConfig.serviceCharge.declinable && !bill.parentBillId && !(bill.splitIds || []).length &&
+      !bill.creditNote && !(bill.payments || []).some((p) => p.status !== "CANCELLED");
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8 space-y-6">
+          <div className="text-center space-y-1">
+            <h2 className="text-2xl font-bold">Your Bill</h2>
+            <p className="text-sm text-muted-foreground">
+              {bill.invoiceNumber || bill.id}
+              {bill.tableNumber ? ` · Table ${bill.tableNumber}` : ""}
+            </p>
+          </div>
+          <div className="space-y-2">
+            {bill.items.map((item, idx) => (
+              <div key={idx} className="flex justify-between text-sm">
+                <span>
+                  {item.quantity}x {item.name}
+                  {item.modifiers?.length ? <span className="text-muted-foreground"> ({describeModifiers(item.modifiers)})</span> : null}
+                </span>
+                <span>₹{(item.price || 0) * (item.quantity || 1)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="border-t pt-4 space-y-1 text-sm">
+            <div className="flex justify-between text-muted-foreground">
+              <span>{bill.pricesIncludeTax ? "Taxable value" : "Subtotal"}</span>
+              <span>₹{bill.subtotal}</span>
+            </div>
+            {(bill.taxLines || [{ label: "Tax", amount: bill.tax }]).map((line) => (
+              <div key={line.label} className="flex justify-between text-muted-foreground">
+                <span>{line.label}</span>
+                <span>₹{line.amount}</span>
+              </div>
+            ))}
+            {(bill.service > 0 || bill.serviceDeclined) && (
+              <div className="flex justify-between items-center text-muted-foreground">
+                <span>
+                  Service{bill.serviceRate ? ` (${bill.serviceRate}%)` : ""}
+                  {canToggleService && (
+                    <button className="ml-2 text-xs underline" onClick={() => handleToggleServiceCharge(!bill.serviceDeclined)}>
+                      {bill.serviceDeclined ? "Add back" : "Remove"}
+                    </button>
+                  )}
+                </span>
+                <span>{bill.serviceDeclined ? "Declined" : `₹${bill.service}`}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-lg font-bold pt-2">
+              <span>Total</span>
+              <span>₹{bill.total}</span>
+            </div>
+          </div>
+          <PrintButton
+            label="Print Invoice"
+            size="default"
+            className="w-full"
+            documentUrl={(opts) => invoiceUrl(bill.id, opts)}
+          />
+          <Button onClick={() => resetAfterOrder(bill.orderId || orderId)} className="w-full">
+            Done
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   return null;
 };
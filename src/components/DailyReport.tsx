@@ -1,48 +1,31 @@
 import { useState, useEffect } from "react";
-import { Calendar, TrendingUp, IndianRupee, ShoppingBag, Users } from "lucide-react";
+import { Ban, Calendar, Timer, TrendingUp, IndianRupee, ShoppingBag, Users, Wallet } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useDailyReport, type DailyReport as DailyReportData } from "@/lib/api";
+import { describeVoidReason } from "@/lib/voids";
+import { describeTender } from "@/lib/payments";
 
-// Backend API
-const API = (import.meta.env && import.meta.env.VITE_API_URL) || "http://localhost:4001";
-
-const fetchDailyReport = async (date: string) => {
-  try {
-    const res = await fetch(`${API}/reports/daily?date=${encodeURIComponent(date)}`);
-    if (!res.ok) throw new Error("Failed to fetch report");
-    return await res.json();
-  } catch (e) {
-    console.warn("Failed to load report from backend, falling back to placeholder", e);
-    return {
-      date,
-      totalOrders: 0,
-      totalRevenue: 0,
-      averageOrderValue: 0,
-      totalCustomers: 0,
-      topItems: [],
-      hourlyBreakdown: [],
-    };
-  }
-};
-
-type DailyReportData = {
-  date: string;
-  totalOrders: number;
-  totalRevenue: number;
-  averageOrderValue: number;
-  totalCustomers: number;
-  topItems: Array<{ name: string; quantity: number; revenue: number }>;
-  hourlyBreakdown: Array<{ hour: string; orders: number; revenue: number }>;
-};
+// Shown when the backend is unreachable so the dashboard still renders
+const emptyReport = (date: string): DailyReportData => ({
+  date,
+  totalOrders: 0,
+  totalRevenue: 0,
+  averageOrderValue: 0,
+  totalCustomers: 0,
+  topItems: [],
+  hourlyBreakdown: [],
+  credits: { count: 0, amount: 0 },
+  payments: { byTender: [], collected: 0, refunded: 0, outstanding: 0 },
+  voids: { count: 0, amount: 0, byReason: [] },
+  prepTimes: { count: 0, averageMinutes: 0, breached: 0, breachRate: 0 },
+});
 
 export const DailyReport = ({ refreshKey }: { refreshKey?: number }) => {
   const [reportDate, setReportDate] = useState(new Date().toISOString().split("T")[0]);
-  const [report, setReport] = useState<DailyReportData | null>(null);
-
-  useEffect(() => {
-    loadReport();
-  }, [reportDate]);
+  const { data, isError, refetch } = useDailyReport(reportDate);
+  const report = data ?? (isError ? emptyReport(reportDate) : null);
 
   // Listen for cross-tab report updates (e.g., when kitchen generates a bill)
   useEffect(() => {
@@ -63,9 +46,8 @@ export const DailyReport = ({ refreshKey }: { refreshKey?: number }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [refreshKey]);
 
-  const loadReport = async () => {
-    const data = await fetchDailyReport(reportDate);
-    setReport(data);
+  const loadReport = () => {
+    refetch();
   };
 
   if (!report)
@@ -92,11 +74,10 @@ export const DailyReport = ({ refreshKey }: { refreshKey?: number }) => {
               max={new Date().toISOString().split("T")[0]}
             />
             <Button onClick={() => {
-              // set to today's date and reload explicitly
+              // switching the date re-runs the report query
               const today = new Date().toISOString().split("T")[0];
+              if (today === reportDate) loadReport();
               setReportDate(today);
-              // ensure immediate reload (loadReport reads reportDate state)
-              setTimeout(() => loadReport(), 0);
             }} size="sm">Today</Button>
             <Button onClick={() => loadReport()} size="sm" className="ml-2">Refresh</Button>
         </div>
@@ -121,6 +102,11 @@ export const DailyReport = ({ refreshKey }: { refreshKey?: number }) => {
             <div>
               <p className="text-sm text-muted-foreground">Total Revenue</p>
               <p className="text-3xl font-bold mt-2">₹{report.totalRevenue}</p>
+              {report.credits.count > 0 && (
+                <p className="text-sm text-destructive">
+                  Net of ₹{report.credits.amount} credited ({report.credits.count} credit {report.credits.count === 1 ? "note" : "notes"})
+                </p>
+              )}
             </div>
             <div className="p-3 bg-primary/10 rounded-lg">
               <IndianRupee className="w-6 h-6 text-primary" />
@@ -153,6 +139,84 @@ export const DailyReport = ({ refreshKey }: { refreshKey?: number }) => {
         </Card>
       </div>
 
+      {/* Ticket times: order placed to ready, against each order's prep-time target */}
+      <Card className="p-6">
+        <div className="flex items-start justify-between">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Timer className="w-5 h-5" />
+            Kitchen Ticket Times
+          </h3>
+          <span className="text-sm text-muted-foreground">{report.prepTimes.count} orders made</span>
+        </div>
+        <div className="grid grid-cols-2 gap-4 mt-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Avg. Ticket Time</p>
+            <p className="text-3xl font-bold mt-1">{report.prepTimes.averageMinutes} min</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Missed Target</p>
+            <p className={`text-3xl font-bold mt-1 ${report.prepTimes.breached ? "text-destructive" : ""}`}>
+              {report.prepTimes.breachRate}%
+            </p>
+            <p className="text-sm text-muted-foreground">{report.prepTimes.breached} late</p>
+          </div>
+        </div>
+      </Card>
+
+      {/* Money taken at the counter, by tender */}
+      <Card className="p-6">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Payments by Tender
+          </h3>
+          <div className="text-right">
+            <p className="font-bold text-xl">₹{report.payments.collected}</p>
+            <p className={`text-sm ${report.payments.outstanding ? "text-destructive" : "text-muted-foreground"}`}>
+              ₹{report.payments.outstanding} outstanding
+            </p>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {report.payments.byTender.map((entry) => (
+            <div key={entry.tender} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+              <span className="font-medium">{describeTender(entry.tender)}</span>
+              <span className="text-sm text-muted-foreground">
+                {entry.count} · ₹{entry.amount}
+                {entry.refunded ? ` (after ₹${entry.refunded} refunded)` : ""}
+              </span>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Voids and cancellations, kept out of revenue */}
+      <Card className="p-6">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Ban className="w-5 h-5" />
+            Voids
+          </h3>
+          <div className="text-right">
+            <p className="font-bold text-xl">₹{report.voids.amount}</p>
+            <p className="text-sm text-muted-foreground">{report.voids.count} voided</p>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {report.voids.byReason.length === 0 && (
+            <div className="text-muted-foreground">No voids for the selected date.</div>
+          )}
+          {report.voids.byReason.map((entry) => (
+            <div key={entry.reason} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+              <span className="font-medium">{describeVoidReason(entry.reason)}</span>
+              <span className="text-sm text-muted-foreground">
+                {entry.count} · ₹{entry.amount}
+              </span>
+            </div>
+          ))}
+        </div>
+      </Card>
+
       {/* Top Items */}
       <Card className="p-6">
         <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
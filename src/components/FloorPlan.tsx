@@ -0,0 +1,74 @@
+import { Users } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useTables, type Order, type TableSessionSummary } from "@/lib/api";
+import { TABLE_AREAS, TABLE_STATES, tableState, type TableState } from "@/lib/tables";
+
+interface FloorPlanProps {
+  orders: Order[];
+  sessions: TableSessionSummary[];
+}
+
+const STATE_STYLES: Record<TableState, string> = {
+  free: "border-border bg-card",
+  ordering: "border-sky-400 bg-sky-50 dark:bg-sky-950/40",
+  waiting_food: "border-amber-400 bg-amber-50 dark:bg-amber-950/40",
+  bill_requested: "border-destructive bg-destructive/10",
+};
+
+const STATE_DOTS: Record<TableState, string> = {
+  free: "bg-muted-foreground/40",
+  ordering: "bg-sky-500",
+  waiting_food: "bg-amber-500",
+  bill_requested: "bg-destructive",
+};
+
+// Every active table by area, coloured by what is happening there right now
+export const FloorPlan = ({ orders, sessions }: FloorPlanProps) => {
+  const { data: tables = [], isLoading } = useTables();
+  const active = tables.filter((t) => t.active);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4">
+        {TABLE_STATES.map((state) => (
+          <div key={state.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span className={`w-3 h-3 rounded-full ${STATE_DOTS[state.id]}`} />
+            {state.label}
+          </div>
+        ))}
+      </div>
+
+      {isLoading && <Card className="p-12 text-center text-muted-foreground">Loading tables...</Card>}
+
+      {TABLE_AREAS.map((area) => {
+        const inArea = active.filter((t) => t.area === area.id);
+        if (inArea.length === 0) return null;
+        return (
+          <div key={area.id} className="space-y-3">
+            <h3 className="font-semibold">{area.label}</h3>
+            <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-8 gap-3">
+              {inArea.map((table) => {
+                const state = tableState(table, orders, sessions);
+                return (
+                  <Card key={table.tableNumber} className={`p-3 border-2 space-y-1 ${STATE_STYLES[state]}`}>
+                    <div className="font-semibold truncate">{table.label}</div>
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Users className="w-3 h-3" />
+                      {table.seats}
+                    </div>
+                    {state !== "free" && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {TABLE_STATES.find((s) => s.id === state)?.label}
+                      </Badge>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { AlertTriangle, ChefHat, PackagePlus, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import {
+  isApiError,
+  useAdjustStock,
+  useInventory,
+  useMenuItems,
+  useSaveIngredient,
+  useSaveRecipe,
+  type Ingredient,
+  type IngredientUnit,
+  type MenuItem,
+} from "@/lib/api";
+import { INGREDIENT_UNITS, formatStock } from "@/lib/inventory";
+
+interface InventoryManagementProps {
+  /** Managers add ingredients and edit recipes; everyone else restocks and recounts */
+  canEdit: boolean;
+}
+
+type IngredientForm = { name: string; unit: IngredientUnit; stock: string; lowStockThreshold: string };
+type RecipeLineForm = { ingredientId: string; quantity: string };
+
+const emptyForm: IngredientForm = { name: "", unit: "kg", stock: "0", lowStockThreshold: "0" };
+
+// Ingredient stock with restocking, plus the recipes that decide when a dish runs out
+export const InventoryManagement = ({ canEdit }: InventoryManagementProps) => {
+  const { data, isLoading } = useInventory();
+  const { data: menuItems = [] } = useMenuItems();
+  const saveIngredient = useSaveIngredient();
+  const adjustStock = useAdjustStock();
+  const saveRecipe = useSaveRecipe();
+  const ingredients = data?.ingredients || [];
+  const recipes = data?.recipes || [];
+
+  const [editing, setEditing] = useState<Ingredient | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<IngredientForm>(emptyForm);
+  const [restocking, setRestocking] = useState<Ingredient | null>(null);
+  const [restockAmount, setRestockAmount] = useState("");
+  const [recipeItem, setRecipeItem] = useState<MenuItem | null>(null);
+  const [recipeLines, setRecipeLines] = useState<RecipeLineForm[]>([]);
+
+  const openNew = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (ingredient: Ingredient) => {
+    setEditing(ingredient);
+    setForm({
+      name: ingredient.name,
+      unit: ingredient.unit,
+      stock: String(ingredient.stock),
+      lowStockThreshold: String(ingredient.lowStockThreshold),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return toast.error("Please enter a name");
+    try {
+      await saveIngredient.mutateAsync({
+        id: editing?.id,
+        ingredient: {
+          name: form.name.trim(),
+          unit: form.unit,
+          stock: parseFloat(form.stock) || 0,
+          lowStockThreshold: parseFloat(form.lowStockThreshold) || 0,
+        },
+      });
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to save ingredient");
+      return;
+    }
+    toast.success(editing ? "Ingredient updated" : "Ingredient added");
+    setIsDialogOpen(false);
+  };
+
+  // "Add" tops up what's on the shelf; "Set count" replaces it after a stock take
+  const handleAdjust = async (mode: "add" | "count") => {
+    if (!restocking) return;
+    const amount = parseFloat(restockAmount);
+    if (Number.isNaN(amount)) return toast.error("Please enter an amount");
+    try {
+      const { ingredient } = await adjustStock.mutateAsync({
+        id: restocking.id,
+        adjustment: mode === "add" ? { delta: amount } : { count: amount },
+      });
+      toast.success(`${ingredient.name}: ${formatStock(ingredient)} in stock`);
+      setRestocking(null);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to update stock");
+    }
+  };
+
+  const openRecipe = (item: MenuItem) => {
+    const recipe = recipes.find((r) => r.menuItemId === item.id);
+    setRecipeItem(item);
+    setRecipeLines((recipe?.lines || []).map((l) => ({ ingredientId: l.ingredientId, quantity: String(l.quantity) })));
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!recipeItem) return;
+    try {
+      await saveRecipe.mutateAsync({
+        menuItemId: recipeItem.id,
+        lines: recipeLines.filter((l) => l.ingredientId).map((l) => ({ ingredientId: l.ingredientId, quantity: parseFloat(l.quantity) || 0 })),
+      });
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to save recipe");
+      return;
+    }
+    toast.success(`Recipe for ${recipeItem.name} saved`);
+    setRecipeItem(null);
+  };
+
+  const describeRecipe = (item: MenuItem) => {
+    const recipe = recipes.find((r) => r.menuItemId === item.id);
+    if (!recipe?.lines.length) return null;
+    return recipe.lines
+      .map((l) => {
+        const ingredient = ingredients.find((i) => i.id === l.ingredientId);
+        return ingredient ? `${l.quantity} ${ingredient.unit} ${ingredient.name}` : null;
+      })
+      .filter(Boolean)
+      .join(", ");
+  };
+
+  const unitOf = (ingredientId: string) => ingredients.find((i) => i.id === ingredientId)?.unit || "";
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold">Stock</h2>
+            <p className="text-muted-foreground">Dishes come off the menu by themselves when an ingredient runs out</p>
+          </div>
+          {canEdit && (
+            <Button onClick={openNew} size="lg">
+              <Plus className="w-5 h-5 mr-2" />
+              Add Ingredient
+            </Button>
+          )}
+        </div>
+
+        {isLoading && <Card className="p-12 text-center text-muted-foreground">Loading stock...</Card>}
+        {!isLoading && ingredients.length === 0 && (
+          <Card className="p-12 text-center text-muted-foreground">No ingredients tracked yet</Card>
+        )}
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {ingredients.map((ingredient) => (
+            <Card
+              key={ingredient.id}
+              className={`p-4 flex items-center justify-between gap-3 ${ingredient.low ? "border-destructive" : ""}`}
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="font-semibold truncate">{ingredient.name}</div>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className={ingredient.stock <= 0 ? "text-destructive font-semibold" : ""}>{formatStock(ingredient)}</span>
+                  {ingredient.stock <= 0 ? (
+                    <Badge variant="destructive">Out</Badge>
+                  ) : ingredient.low ? (
+                    <Badge className="bg-amber-500 text-white">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Low
+                    </Badge>
+                  ) : null}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setRestocking(ingredient);
+                    setRestockAmount("");
+                  }}
+                >
+                  <PackagePlus className="w-4 h-4 mr-1" />
+                  Restock
+                </Button>
+                {canEdit && (
+                  <Button variant="ghost" size="icon" onClick={() => openEdit(ingredient)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="space-y-4">
+          <div>
+            <h2 className="text-2xl font-bold">Recipes</h2>
+            <p className="text-muted-foreground">What one serving uses; stock is taken when the kitchen starts an order</p>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-3">
+            {menuItems.map((item) => (
+              <Card key={item.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <span className="truncate">{item.name}</span>
+                    {item.autoUnavailable && !item.available && <Badge variant="destructive">Out of stock</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{describeRecipe(item) || "No recipe — not stock tracked"}</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => openRecipe(item)} disabled={ingredients.length === 0}>
+                  <ChefHat className="w-4 h-4" />
+                </Button>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : "Add Ingredient"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="ingredient-name">Name</Label>
+              <Input id="ingredient-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Unit</Label>
+                <Select value={form.unit} onValueChange={(unit) => setForm({ ...form, unit: unit as IngredientUnit })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INGREDIENT_UNITS.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="ingredient-stock">In stock</Label>
+                <Input id="ingredient-stock" type="number" min="0" step="any" value={form.stock} onChange={(e) => setForm({ ...form, stock: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="ingredient-low">Low at</Label>
+                <Input
+                  id="ingredient-low"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.lowStockThreshold}
+                  onChange={(e) => setForm({ ...form, lowStockThreshold: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button onClick={handleSave} className="flex-1" disabled={saveIngredient.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button onClick={() => setIsDialogOpen(false)} variant="outline" className="flex-1">
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!restocking} onOpenChange={(open) => !open && setRestocking(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Restock {restocking?.name}</DialogTitle>
+            <DialogDescription>{restocking ? `${formatStock(restocking)} in stock now` : ""}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="restock-amount">Amount ({restocking?.unit})</Label>
+            <Input id="restock-amount" type="number" step="any" value={restockAmount} onChange={(e) => setRestockAmount(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => handleAdjust("add")} className="flex-1" disabled={adjustStock.isPending}>
+              Add to stock
+            </Button>
+            <Button onClick={() => handleAdjust("count")} variant="outline" className="flex-1" disabled={adjustStock.isPending}>
+              Set count
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recipeItem} onOpenChange={(open) => !open && setRecipeItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Recipe: {recipeItem?.name}</DialogTitle>
+            <DialogDescription>Quantities for a single serving, without modifiers</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {recipeLines.map((line, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <Select
+                  value={line.ingredientId}
+                  onValueChange={(ingredientId) => setRecipeLines(recipeLines.map((l, i) => (i === idx ? { ...l, ingredientId } : l)))}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Ingredient" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ingredients.map((ingredient) => (
+                      <SelectItem key={ingredient.id} value={ingredient.id}>
+                        {ingredient.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="w-24"
+                  value={line.quantity}
+                  onChange={(e) => setRecipeLines(recipeLines.map((l, i) => (i === idx ? { ...l, quantity: e.target.value } : l)))}
+                />
+                <span className="w-8 text-sm text-muted-foreground">{unitOf(line.ingredientId)}</span>
+                <Button variant="ghost" size="icon" onClick={() => setRecipeLines(recipeLines.filter((_, i) => i !== idx))}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setRecipeLines([...recipeLines, { ingredientId: "", quantity: "" }])}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add ingredient
+            </Button>
+          </div>
+          <Button onClick={handleSaveRecipe} disabled={saveRecipe.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Recipe
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
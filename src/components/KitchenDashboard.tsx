@@ -1,67 +1,113 @@
-import { useState, useEffect } from "react";
-import { Clock, CheckCircle, AlertCircle, User, UtensilsCrossed, FileText } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Clock, CheckCircle, AlertCircle, AlertTriangle, User, Users, UtensilsCrossed, FileText, Percent, Lock, QrCode, LayoutGrid, X, Package, Monitor, Volume2, VolumeX } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MenuManagement } from "./MenuManagement";
 import { DailyReport } from "./DailyReport";
-import { requestNotificationPermission, showNotification } from "@/lib/notifications";
+import { TaxSettings } from "./TaxSettings";
+import { StaffManagement } from "./StaffManagement";
+import { StaffPinLock } from "./StaffPinLock";
+import { TableQrCodes } from "./TableQrCodes";
+import { TableRegistry } from "./TableRegistry";
+import { FloorPlan } from "./FloorPlan";
+import { InventoryManagement } from "./InventoryManagement";
+import { KitchenDisplay } from "./KitchenDisplay";
+import { PrepTimeSettings } from "./PrepTimeSettings";
+import { OrderHistory } from "./OrderHistory";
+import { playAlertTone, requestNotificationPermission, showNotification } from "@/lib/notifications";
+import { useOrderEvents } from "@/hooks/use-order-events";
+import { useIdleLock } from "@/hooks/use-idle-lock";
+import { useNow } from "@/hooks/use-now";
+import { createBill, invoiceUrl, isApiError, kotUrl, listOrders, listSessions, logout, queryKeys, updateOrder, usePrepTargets, type Actor, type AuthSession, type AuthUser, type Order, type OrderItem, type OrderStatus, type TableSessionSummary } from "@/lib/api";
+import { describeModifiers } from "@/lib/modifiers";
+import { describeAllergens } from "@/lib/allergens";
+import { describeVoidReason } from "@/lib/voids";
+import { itemRound } from "@/lib/rounds";
+import { orderLabel } from "@/lib/orders";
+import { stationName, waitingStations } from "@/lib/stations";
+import { formatStock } from "@/lib/inventory";
+import { formatTicketAge, isTicking, ticketAgeMs, ticketLevel, type TicketLevel } from "@/lib/prepTimes";
+import { clearSession, getRefreshToken, getSessionUser, hasRole, isStaff } from "@/lib/auth";
+import { OrderStatusTimeline } from "./OrderStatusTimeline";
+import { SplitBillDialog } from "./SplitBillDialog";
+import { PaymentDialog } from "./PaymentDialog";
+import { PrintButton } from "./PrintButton";
+import { VoidDialog, type VoidTarget } from "./VoidDialog";
+import { toast } from "sonner";
+
+// The logged-in user, recorded as the actor on status changes (the server prefers the token's identity)
+const getCurrentActor = (): Actor => {
+  const user = getSessionUser();
+  if (user) return { id: user.id || user.phone, name: user.name || user.email || user.phone || "Kitchen", role: user.role || "kitchen" };
+  return { name: "Kitchen", role: "kitchen" };
+};
+
+const isClosed = (status: OrderStatus) => status === "COMPLETED" || status === "CANCELLED";
 
-// API base
-const API = (import.meta.env && import.meta.env.VITE_API_URL) || "http://localhost:4001";
 
-const fetchLiveOrders = async () => {
+// Mirrors server/voids.js: lines can be voided until the order is billed
+const canVoidLines = (order: Order) =>
+  !order.billId && ["PENDING", "PREPARING", "READY", "BILL_REQUESTED"].includes(order.status);
+
+const fetchLiveOrders = async (): Promise<Order[]> => {
   try {
-    const res = await fetch(`${API}/orders`);
-    if (!res.ok) return [];
-    return await res.json();
+    // Closed orders are paged in from the history API by the Completed tab
+    return await listOrders({ openOnly: true });
   } catch (e) {
     console.warn("Failed to fetch orders from backend, falling back to empty list", e);
     return [];
   }
 };
 
-const updateOrderStatus = async (orderId: string, newStatus: string) => {
+const fetchActiveSessions = async (): Promise<TableSessionSummary[]> => {
   try {
-    const res = await fetch(`${API}/orders/${orderId}`, {
-      method: "PATCH",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ status: newStatus }),
-    });
-    return res.ok ? await res.json() : { success: false };
+    return await listSessions({ openOnly: true });
   } catch (e) {
-    console.warn("Failed to update order status", e);
-    return { success: false };
+    console.warn("Failed to fetch table sessions", e);
+    return [];
   }
 };
 
-const generateBillForOrder = async (order: any) => {
+// What a bill is generated for: one order, or a whole table session
+type BillTarget = Order | { sessionId: string };
+
+const generateBillForOrder = async (target: BillTarget) => {
   try {
-    const res = await fetch(`${API}/bills`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ tableNumber: order.tableNumber, customerName: order.customerName, items: order.items }),
-    });
-    if (!res.ok) return { success: false };
-    const body = await res.json();
-    // mark order completed
-    await updateOrderStatus(order.id, "COMPLETED");
+    // Orders in a table session are billed together; the backend merges items and marks them COMPLETED
+    const body = await createBill(
+      "id" in target && !target.sessionId
+        ? { orderId: target.id, tableNumber: target.tableNumber, customerName: target.customerName, items: target.items, actor: getCurrentActor() }
+        : { sessionId: target.sessionId || undefined, actor: getCurrentActor() }
+    );
     return { success: true, bill: body.bill };
   } catch (e) {
     console.warn("Failed to generate bill", e);
-    return { success: false };
+    return { success: false, message: isApiError(e) ? e.message : undefined };
   }
 };
 
-type Order = {
-  id: string;
-  tableNumber: number;
-  customerName: string;
-  items: Array<{ name: string; quantity: number }>;
-  totalAmount: number;
-  status: string;
-  timestamp: number;
+// Orders in a table session are billed as one
+const billKey = (target: BillTarget) => target.sessionId || ("id" in target ? target.id : "");
+
+// Shared tablets lock themselves after this long without a tap or key press
+const AUTO_LOCK_MS = 5 * 60 * 1000;
+
+// Per-device choice to beep when a ticket misses its prep-time target
+const SOUND_ALERTS_KEY = "kitchen-sound-alerts";
+
+const TICKET_STYLES: Record<TicketLevel, string> = {
+  on_time: "border-2 border-emerald-500",
+  due_soon: "border-2 border-amber-500 bg-amber-50/60 dark:bg-amber-950/30",
+  late: "border-2 border-destructive bg-destructive/5",
+};
+
+const TIMER_STYLES: Record<TicketLevel, string> = {
+  on_time: "text-emerald-600",
+  due_soon: "text-amber-600",
+  late: "text-destructive",
 };
 
 interface KitchenDashboardProps {
@@ -70,9 +116,30 @@ interface KitchenDashboardProps {
 }
 
 export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardProps) => {
+  const queryClient = useQueryClient();
   const [orders, setOrders] = useState<Order[]>([]);
   const [reportTick, setReportTick] = useState(0);
   const [previousOrderCount, setPreviousOrderCount] = useState(0);
+  const [sessions, setSessions] = useState<Record<string, TableSessionSummary>>({});
+  const [splitBillId, setSplitBillId] = useState<string | null>(null);
+  const [paymentBillId, setPaymentBillId] = useState<string | null>(null);
+  const [voidTarget, setVoidTarget] = useState<VoidTarget | null>(null);
+  // Session (or order) whose bill is being generated, so a double-click can't send it twice
+  const [billingKey, setBillingKey] = useState<string | null>(null);
+  // Latest round per order the cooks have acknowledged; later rounds stay highlighted
+  const [seenRounds, setSeenRounds] = useState<Record<string, number>>({});
+  const [staffUser, setStaffUser] = useState<AuthUser | null>(() => getSessionUser());
+  const [rememberedId, setRememberedId] = useState<string | null>(() => getSessionUser()?.id || null);
+  const { locked, lock, unlock } = useIdleLock(AUTO_LOCK_MS, isStaff(staffUser));
+  const isManager = hasRole(staffUser, "manager");
+  const now = useNow();
+  const { data: prepTargets } = usePrepTargets();
+  const defaultPrepMinutes = prepTargets?.defaultMinutes ?? 10;
+  const [soundAlerts, setSoundAlerts] = useState(() => {
+    try { return localStorage.getItem(SOUND_ALERTS_KEY) === "1"; } catch (e) { return false; }
+  });
+  // Orders already flagged as late, so each one alerts once
+  const alertedLate = useRef(new Set<string>());
 
   useEffect(() => {
     // Request notification permission
@@ -82,16 +149,117 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
       }
     });
 
-    // Initial fetch
+    // Initial fetch; subsequent updates arrive via the event stream below
     loadOrders();
+  }, []);
 
-    // Simulate real-time updates every 5 seconds
-    const interval = setInterval(() => {
-      loadOrders();
-    }, 5000);
+  // Live order updates pushed from the backend (falls back to polling while disconnected)
+  const { connected: liveConnected } = useOrderEvents((event) => {
+    switch (event.type) {
+      case "order.created":
+        setOrders((prev) => (prev.some((o) => o.id === event.order.id) ? prev : [...prev, event.order]));
+        setPreviousOrderCount((c) => c + 1);
+        showNotification('New Order! 🔔', {
+          body: `${orderLabel(event.order)} · Table ${event.order.tableNumber} - ${event.order.customerName} (${event.order.items.length} items)${
+            event.order.allergens?.length ? ` · Allergy: ${describeAllergens(event.order.allergens)}` : ""
+          }`,
+          tag: `order-${event.order.id}`,
+          requireInteraction: true
+        });
+        break;
+      case "order.status_changed":
+        // Only open orders are kept here, so a re-opened one comes back in from the event
+        setOrders((prev) =>
+          prev.some((o) => o.id === event.orderId)
+            ? prev.map((o) => (o.id === event.orderId ? { ...o, ...event.order } : o))
+            : isClosed(event.status) ? prev : [...prev, event.order]
+        );
+        if (isClosed(event.status) || isClosed(event.previousStatus)) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.orderHistories });
+        }
+        break;
+      case "order.updated":
+        setOrders((prev) => prev.map((o) => (o.id === event.order.id ? { ...o, ...event.order } : o)));
+        break;
+      case "order.round_added":
+        setOrders((prev) => prev.map((o) => (o.id === event.order.id ? { ...o, ...event.order } : o)));
+        showNotification('More Items! 🔔', {
+          body: `Table ${event.order.tableNumber} added ${event.round.itemCount} items to ${orderLabel(event.order)} (round ${event.round.number})`,
+          tag: `order-${event.order.id}-round-${event.round.number}`,
+          requireInteraction: true
+        });
+        break;
+      case "bill.requested":
+        toast.warning(`Table ${event.tableNumber} requested the bill`);
+        showNotification('Bill Requested 🧾', {
+          body: `Table ${event.tableNumber} - ${event.customerName} (${event.orderIds.length} orders)`,
+          tag: `bill-${event.tableNumber}`,
+          requireInteraction: true
+        });
+        break;
+      case "bill.generated":
+        setReportTick((t) => t + 1);
+        break;
+      case "bill.credited":
+        setReportTick((t) => t + 1);
+        queryClient.invalidateQueries({ queryKey: queryKeys.bill(event.bill.id) });
+        break;
+      case "bill.payment":
+        setReportTick((t) => t + 1);
+        queryClient.invalidateQueries({ queryKey: queryKeys.bill(event.bill.id) });
+        if (event.bill.parentBillId) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.bill(event.bill.parentBillId) });
+          queryClient.invalidateQueries({ queryKey: queryKeys.billSplits(event.bill.parentBillId) });
+        }
+        break;
+      case "inventory.updated":
+        queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+        queryClient.invalidateQueries({ queryKey: queryKeys.menu });
+        event.lowStock.forEach((ingredient) =>
+          toast.warning(`${ingredient.name} is running low: ${formatStock(ingredient)} left`)
+        );
+        event.menuChanges.forEach((change) =>
+          change.available
+            ? toast.success(`${change.name} is back on the menu`)
+            : toast.error(`${change.name} is off the menu — out of ingredients`)
+        );
+        break;
+      case "session.updated":
+        setSessions((prev) => {
+          const next = { ...prev };
+          if (event.session.status === "CLOSED") delete next[event.session.id];
+          else next[event.session.id] = event.session;
+          return next;
+        });
+        break;
+    }
+  }, { onFallbackPoll: () => loadOrders() });
 
-    return () => clearInterval(interval);
-  }, []);
+  // Alert when tickets go past their prep-time target
+  useEffect(() => {
+    const newlyLate = orders.filter(
+      (o) => isTicking(o) && !alertedLate.current.has(o.id) && ticketLevel(o, now, defaultPrepMinutes) === "late"
+    );
+    if (newlyLate.length === 0) return;
+    newlyLate.forEach((o) => alertedLate.current.add(o.id));
+    toast.error(
+      newlyLate.length === 1
+        ? `${orderLabel(newlyLate[0])} for Table ${newlyLate[0].tableNumber} is past its prep-time target`
+        : `${newlyLate.length} orders are past their prep-time target`
+    );
+    if (soundAlerts) playAlertTone();
+  }, [now, orders, defaultPrepMinutes, soundAlerts]);
+
+  const toggleSoundAlerts = () => {
+    const next = !soundAlerts;
+    setSoundAlerts(next);
+    try {
+      localStorage.setItem(SOUND_ALERTS_KEY, next ? "1" : "0");
+    } catch (e) {
+      // the choice just won't survive a reload
+    }
+    if (next) playAlertTone();
+  };
 
   const loadOrders = async () => {
     const fetchedOrders = await fetchLiveOrders();
@@ -102,7 +270,7 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
       newOrders.forEach(order => {
         if (order.status === 'PENDING') {
           showNotification('New Order! 🔔', {
-            body: `Table ${order.tableNumber} - ${order.customerName} (${order.items.length} items)`,
+            body: `${orderLabel(order)} · Table ${order.tableNumber} - ${order.customerName} (${order.items.length} items)`,
             tag: `order-${order.id}`,
             requireInteraction: true
           });
@@ -112,13 +280,26 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
 
     setPreviousOrderCount(fetchedOrders.length);
     setOrders(fetchedOrders);
+    const activeSessions = await fetchActiveSessions();
+    setSessions(Object.fromEntries(activeSessions.map((x) => [x.id, x])));
   };
 
-  const handleStatusChange = async (orderId: string, newStatus: string) => {
-    await updateOrderStatus(orderId, newStatus);
-    setOrders((prevOrders) =>
-      prevOrders.map((order) => (order.id === orderId ? { ...order, status: newStatus } : order))
-    );
+  const billedSessions = Object.values(sessions).filter((x) => x.status === "BILLED" || x.needsBill);
+
+  const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
+    try {
+      const { order: updated } = await updateOrder(orderId, { status: newStatus, actor: getCurrentActor() });
+      setOrders((prevOrders) => prevOrders.map((order) => (order.id === orderId ? updated : order)));
+    } catch (e) {
+      console.warn("Failed to update order status", e);
+      // 409 means someone else already moved the order — resync with the server
+      if (isApiError(e) && e.status === 409) {
+        toast.error(e.message);
+        loadOrders();
+      } else {
+        toast.error("Failed to update order status");
+      }
+    }
   };
 
   const getStatusColor = (status: string) => {
@@ -133,11 +314,43 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
         return "bg-destructive text-destructive-foreground animate-pulse";
       case "COMPLETED":
         return "bg-muted text-muted-foreground";
+      case "CANCELLED":
+        return "bg-destructive/20 text-destructive";
       default:
         return "bg-muted";
     }
   };
 
+  // One line of an order card, with its modifiers, note and void control
+  const renderOrderLine = (order: Order, item: OrderItem, idx: number) => (
+    <div key={idx} className="text-lg">
+      <div className="flex items-center justify-between gap-2">
+        <span className={item.voided ? "line-through text-muted-foreground" : ""}>
+          {item.quantity}x {item.name}
+        </span>
+        {item.voided ? (
+          <Badge variant="outline" className="text-destructive">Void · {describeVoidReason(item.voided.reason)}</Badge>
+        ) : canVoidLines(order) && order.items.filter((it) => !it.voided).length > 1 ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+            aria-label={`Void ${item.name}`}
+            onClick={() => setVoidTarget({ order, lineIndex: idx })}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        ) : null}
+      </div>
+      {item.modifiers?.length ? (
+        <p className="text-sm text-muted-foreground pl-6">{describeModifiers(item.modifiers)}</p>
+      ) : null}
+      {item.notes && (
+        <p className="ml-6 mt-1 inline-block rounded bg-amber-100 px-2 text-sm font-medium text-amber-900">{item.notes}</p>
+      )}
+    </div>
+  );
+
   const getActionButton = (order: Order) => {
     switch (order.status) {
       case "PENDING":
@@ -150,7 +363,16 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
             Accept Order
           </Button>
         );
-      case "PREPARING":
+      case "PREPARING": {
+        // In KDS mode station screens bump the lines; the order turns ready by itself after the last one
+        const waiting = waitingStations(order);
+        if (waiting.length) {
+          return (
+            <p className="text-center text-sm text-muted-foreground">
+              Waiting on {waiting.map(stationName).join(", ")}
+            </p>
+          );
+        }
         return (
           <Button
             onClick={() => handleStatusChange(order.id, "READY")}
@@ -160,7 +382,10 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
             Mark Ready
           </Button>
         );
+      }
       case "READY":
+        // A table session is completed by its bill (the Generate Table Bill button below)
+        if (order.sessionId) return null;
         return (
           <Button
             onClick={() => handleStatusChange(order.id, "COMPLETED")}
@@ -174,11 +399,12 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
       case "BILL_REQUESTED":
         return (
           <Button
-            onClick={() => handleStatusChange(order.id, "COMPLETED")}
+            onClick={() => handleGenerateBill(order)}
+            disabled={billingKey === billKey(order)}
             className="w-full bg-warning hover:bg-warning/90 text-warning-foreground"
             size="lg"
           >
-            Generate Bill & Close
+            Generate Bill & Take Payment
           </Button>
         );
       default:
@@ -186,6 +412,28 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
     }
   };
 
+  const handleGenerateBill = async (target: BillTarget) => {
+    if (billingKey) return;
+    setBillingKey(billKey(target));
+    const r = await generateBillForOrder(target);
+    setBillingKey(null);
+    if (r.success) {
+      // reload orders to reflect completed status
+      loadOrders();
+      // trigger report refresh in this tab
+      setReportTick((t) => t + 1);
+      try {
+        localStorage.setItem("reports-updated", Date.now().toString());
+      } catch (e) {
+        // ignore if localStorage not available
+      }
+      toast.success("Bill generated and order completed");
+      setPaymentBillId(r.bill.id);
+    } else {
+      toast.error(r.message || "Failed to generate bill");
+    }
+  };
+
   const getTimeSince = (timestamp: number) => {
     const minutes = Math.floor((Date.now() - timestamp) / 60000);
     if (minutes < 1) return "Just now";
@@ -197,13 +445,32 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
     // Bill requested orders first
     if (a.status === "BILL_REQUESTED" && b.status !== "BILL_REQUESTED") return -1;
     if (b.status === "BILL_REQUESTED" && a.status !== "BILL_REQUESTED") return 1;
-    // Then by timestamp (oldest first)
-    return a.timestamp - b.timestamp;
+    // Then by creation time (oldest first)
+    return a.createdAt - b.createdAt;
   });
 
+  const handleUnlock = (session: AuthSession) => {
+    setStaffUser(session.user);
+    setRememberedId(session.user.id);
+    unlock();
+    loadOrders();
+  };
+
+  // Hand the tablet to someone else: end this session and go back to the name list
+  const handleSwitchUser = () => {
+    logout(getRefreshToken()).catch(() => undefined);
+    clearSession();
+    setStaffUser(null);
+    setRememberedId(null);
+  };
+
+  if (!isStaff(staffUser) || locked) {
+    return <StaffPinLock rememberedId={rememberedId} onUnlock={handleUnlock} onExit={onSwitchView} />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
-      <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 px-6 py-4">
+      <header className="print:hidden sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 px-6 py-4">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-bold flex items-center gap-3 text-foreground">
@@ -211,10 +478,17 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
               Kitchen Dashboard
             </h1>
             <p className="text-sm text-muted-foreground mt-1">
-              Manage orders, menu, and view reports
+              Signed in as {staffUser.name || staffUser.email || staffUser.phone} · <span className="capitalize">{staffUser.role}</span>
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <Badge
+              variant="outline"
+              className={liveConnected ? "border-primary/40 text-primary" : "text-muted-foreground"}
+              title={liveConnected ? "Receiving live updates" : "Live updates unavailable — polling every 5s"}
+            >
+              {liveConnected ? "Live" : "Polling"}
+            </Badge>
             <Button
               variant="outline"
               size="sm"
@@ -226,7 +500,22 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
             >
               Refresh
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleSoundAlerts}
+              title={soundAlerts ? "Beep when an order is late: on" : "Beep when an order is late: off"}
+            >
+              {soundAlerts ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+            </Button>
             <div className="h-6 w-px bg-border mx-2" />
+            <Button variant="ghost" size="sm" onClick={lock}>
+              <Lock className="w-4 h-4 mr-1" />
+              Lock
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleSwitchUser}>
+              Switch User
+            </Button>
             <Button variant="ghost" size="sm" onClick={onSwitchView}>
               Switch View
             </Button>
@@ -239,30 +528,93 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
 
       <div className="p-6 max-w-7xl mx-auto">
         <Tabs defaultValue="orders" className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-4 mb-6">
+          <TabsList className={`grid w-full mb-6 print:hidden ${isManager ? "max-w-5xl grid-cols-10" : "max-w-lg grid-cols-5"}`}>
             <TabsTrigger value="orders" className="flex items-center gap-2">
               <CheckCircle className="w-4 h-4" />
               Orders
-              {orders.filter(o => o.status !== "COMPLETED").length > 0 && (
-                <Badge className="ml-1 bg-primary/20 text-primary">{orders.filter(o => o.status !== "COMPLETED").length}</Badge>
+              {orders.filter(o => !isClosed(o.status)).length > 0 && (
+                <Badge className="ml-1 bg-primary/20 text-primary">{orders.filter(o => !isClosed(o.status)).length}</Badge>
               )}
             </TabsTrigger>
-            <TabsTrigger value="menu" className="flex items-center gap-2">
-              <UtensilsCrossed className="w-4 h-4" />
-              Menu
+            <TabsTrigger value="kds" className="flex items-center gap-2">
+              <Monitor className="w-4 h-4" />
+              KDS
+            </TabsTrigger>
+            <TabsTrigger value="floor" className="flex items-center gap-2">
+              <LayoutGrid className="w-4 h-4" />
+              Floor
             </TabsTrigger>
-            <TabsTrigger value="reports" className="flex items-center gap-2">
-              <FileText className="w-4 h-4" />
-              Reports
+            <TabsTrigger value="stock" className="flex items-center gap-2">
+              <Package className="w-4 h-4" />
+              Stock
             </TabsTrigger>
+            {isManager && (
+              <>
+                <TabsTrigger value="menu" className="flex items-center gap-2">
+                  <UtensilsCrossed className="w-4 h-4" />
+                  Menu
+                </TabsTrigger>
+                <TabsTrigger value="reports" className="flex items-center gap-2">
+                  <FileText className="w-4 h-4" />
+                  Reports
+                </TabsTrigger>
+              </>
+            )}
             <TabsTrigger value="completed" className="flex items-center gap-2">
               <CheckCircle className="w-4 h-4" />
               Completed
             </TabsTrigger>
+            {isManager && (
+              <>
+                <TabsTrigger value="tax" className="flex items-center gap-2">
+                  <Percent className="w-4 h-4" />
+                  Tax
+                </TabsTrigger>
+                <TabsTrigger value="tables" className="flex items-center gap-2">
+                  <QrCode className="w-4 h-4" />
+                  Tables
+                </TabsTrigger>
+                <TabsTrigger value="staff" className="flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Staff
+                </TabsTrigger>
+              </>
+            )}
           </TabsList>
 
           <TabsContent value="orders">
-            {orders.filter((o) => o.status !== "COMPLETED").length === 0 ? (
+            {billedSessions.length > 0 && (
+              <Card className="p-4 mb-6 space-y-2">
+                <h3 className="font-semibold">Awaiting payment</h3>
+                {billedSessions.map((x) => (
+                  <div key={x.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                    <span>
+                      Table {x.tableNumber} · {x.orderCount} orders · ₹{x.runningTotal}
+                      <span className="text-muted-foreground text-sm ml-2">({x.billId || "not billed yet"})</span>
+                    </span>
+                    <div className="flex gap-2">
+                      {x.needsBill && (
+                        <Button size="sm" disabled={billingKey === x.id} onClick={() => handleGenerateBill({ sessionId: x.id })}>
+                          Generate Table Bill
+                        </Button>
+                      )}
+                      {x.billId && <PrintButton label="Invoice" documentUrl={(opts) => invoiceUrl(x.billId, opts)} />}
+                      {x.billId && (
+                        <Button size="sm" variant="outline" onClick={() => setSplitBillId(x.billId)}>
+                          Split
+                        </Button>
+                      )}
+                      {x.billId && (
+                        <Button size="sm" onClick={() => setPaymentBillId(x.billId)}>
+                          Take Payment
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </Card>
+            )}
+            {orders.filter((o) => !isClosed(o.status)).length === 0 ? (
               <Card className="p-12 text-center">
                 <AlertCircle className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
                 <h2 className="text-2xl font-medium text-muted-foreground">No Active Orders</h2>
@@ -272,11 +624,11 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
               </Card>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {sortedOrders.filter(o => o.status !== "COMPLETED").map((order) => (
+                {sortedOrders.filter(o => !isClosed(o.status)).map((order) => (
                   <Card
                     key={order.id}
                     className={`p-6 space-y-4 ${order.status === "BILL_REQUESTED" ? "ring-2 ring-destructive" : ""
-                      }`}
+                      } ${isTicking(order) ? TICKET_STYLES[ticketLevel(order, now, defaultPrepMinutes)] : ""}`}
                   >
                     <div className="flex items-start justify-between">
                       <div>
@@ -291,20 +643,54 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
                           <span className="text-lg">{order.customerName}</span>
                         </div>
                       </div>
-                      <div className="text-right">
-                        <p className="text-sm text-muted-foreground">Order ID</p>
-                        <p className="font-mono font-medium">{order.id}</p>
+                      <div className="text-right space-y-2">
+                        <div>
+                          <p className="text-sm text-muted-foreground">Order</p>
+                          <p className="font-mono text-xl font-bold">{orderLabel(order)}</p>
+                        </div>
+                        <PrintButton label="KOT" documentUrl={(opts) => kotUrl(order.id, opts)} />
                       </div>
                     </div>
 
+                    {order.allergens?.length ? (
+                      <div className="flex items-center gap-2 rounded-lg bg-destructive px-4 py-2 font-bold text-destructive-foreground">
+                        <AlertTriangle className="w-5 h-5" />
+                        Allergy: {describeAllergens(order.allergens)}
+                      </div>
+                    ) : null}
+                    {order.notes && (
+                      <div className="rounded-lg border-2 border-amber-400 bg-amber-50 px-4 py-2 font-medium text-amber-900">Note: {order.notes}</div>
+                    )}
+
                     <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-                      {order.items.map((item, idx) => (
-                        <div key={idx} className="flex justify-between text-lg">
-                          <span>
-                            {item.quantity}x {item.name}
-                          </span>
-                        </div>
-                      ))}
+                      {order.items.map((item, idx) => (itemRound(item) === 1 ? renderOrderLine(order, item, idx) : null))}
+                      {(order.rounds || []).map((round) => {
+                        const isNew = round.number > (seenRounds[order.id] || 1);
+                        return (
+                          <div
+                            key={round.number}
+                            className={`rounded-lg border-2 p-3 space-y-2 ${isNew ? "border-amber-400 bg-amber-50 dark:bg-amber-950/40" : "border-dashed"}`}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="flex items-center gap-2 font-semibold">
+                                Round {round.number}
+                                {isNew && <Badge className="bg-amber-500 text-white">NEW</Badge>}
+                                <span className="text-sm font-normal text-muted-foreground">{getTimeSince(round.at)}</span>
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <PrintButton label="KOT" documentUrl={(opts) => kotUrl(order.id, opts, round.number)} />
+                                {isNew && (
+                                  <Button size="sm" variant="outline" onClick={() => setSeenRounds((prev) => ({ ...prev, [order.id]: round.number }))}>
+                                    Got it
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                            {round.notes && <p className="text-sm font-medium text-amber-900">Note: {round.notes}</p>}
+                            {order.items.map((item, idx) => (itemRound(item) === round.number ? renderOrderLine(order, item, idx) : null))}
+                          </div>
+                        );
+                      })}
                       <div className="border-t pt-2 mt-2">
                         <div className="flex justify-between font-bold text-xl">
                           <span>Total</span>
@@ -313,9 +699,27 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
                       </div>
                     </div>
 
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Clock className="w-4 h-4" />
-                      <span>{getTimeSince(order.timestamp)}</span>
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      {isTicking(order) ? (
+                        <div className={`flex items-center gap-2 font-mono text-base font-bold ${TIMER_STYLES[ticketLevel(order, now, defaultPrepMinutes)]}`}>
+                          <Clock className="w-4 h-4" />
+                          <span>
+                            {formatTicketAge(ticketAgeMs(order, now))} / {order.prepTargetMinutes || defaultPrepMinutes} min
+                          </span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Clock className="w-4 h-4" />
+                          <span>
+                            {order.prepTime ? `Ready in ${order.prepTime.minutes} min` : getTimeSince(order.createdAt)}
+                          </span>
+                        </div>
+                      )}
+                      {order.sessionId && sessions[order.sessionId] && (
+                        <span>
+                          Table session: {sessions[order.sessionId].orderCount} orders · ₹{sessions[order.sessionId].runningTotal}
+                        </span>
+                      )}
                     </div>
 
                     <div>
@@ -323,93 +727,88 @@ export const KitchenDashboard = ({ onLogout, onSwitchView }: KitchenDashboardPro
                       {order.status === "READY" && (
                         <div className="mt-2">
                           <Button
-                            onClick={async () => {
-                              const r = await generateBillForOrder(order);
-                              if (r.success) {
-                                // reload orders to reflect completed status
-                                loadOrders();
-                                // trigger report refresh in this tab
-                                setReportTick((t) => t + 1);
-                                try {
-                                  localStorage.setItem("reports-updated", Date.now().toString());
-                                } catch (e) {
-                                  // ignore if localStorage not available
-                                }
-                                alert("Bill generated and order completed");
-                              } else {
-                                alert("Failed to generate bill");
-                              }
-                            }}
+                            onClick={() => handleGenerateBill(order)}
+                            disabled={billingKey === billKey(order)}
                             className="w-full bg-secondary"
                           >
-                            Generate Bill
+                            {order.sessionId ? "Generate Table Bill" : "Generate Bill"}
                           </Button>
                         </div>
                       )}
+                      {(order.status === "PENDING" || order.status === "PREPARING") && (
+                        <Button
+                          onClick={() => setVoidTarget({ order })}
+                          variant="ghost"
+                          className="w-full mt-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          Void Order
+                        </Button>
+                      )}
                     </div>
+
+                    <OrderStatusTimeline history={order.statusHistory} />
                   </Card>
                 ))}
               </div>
             )}
           </TabsContent>
 
-          <TabsContent value="menu">
-            <MenuManagement />
+          <TabsContent value="kds">
+            <KitchenDisplay
+              orders={orders}
+              onOrderChange={(updated) => setOrders((prev) => prev.map((o) => (o.id === updated.id ? updated : o)))}
+              onStatusChange={handleStatusChange}
+            />
           </TabsContent>
 
-          <TabsContent value="reports">
-            <DailyReport refreshKey={reportTick} />
+          <TabsContent value="floor">
+            <FloorPlan orders={orders} sessions={Object.values(sessions)} />
           </TabsContent>
 
+          <TabsContent value="stock">
+            <InventoryManagement canEdit={isManager} />
+          </TabsContent>
+
+          {isManager && (
+            <>
+              <TabsContent value="menu" className="space-y-10">
+                <MenuManagement />
+                <PrepTimeSettings actor={getCurrentActor()} />
+              </TabsContent>
+
+              <TabsContent value="reports">
+                <DailyReport refreshKey={reportTick} />
+              </TabsContent>
+
+              <TabsContent value="tax">
+                <TaxSettings actor={getCurrentActor()} />
+              </TabsContent>
+
+              <TabsContent value="tables" className="space-y-10">
+                <div className="print:hidden">
+                  <TableRegistry />
+                </div>
+                <TableQrCodes />
+              </TabsContent>
+
+              <TabsContent value="staff">
+                <StaffManagement currentUser={staffUser} />
+              </TabsContent>
+            </>
+          )}
+
           <TabsContent value="completed">
-            {sortedOrders.filter(o => o.status === "COMPLETED").length === 0 ? (
-              <Card className="p-12 text-center">
-                <h2 className="text-2xl font-medium text-muted-foreground">No Completed Orders</h2>
-              </Card>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {sortedOrders.filter(o => o.status === "COMPLETED").map(order => (
-                  <Card key={order.id} className="p-6 space-y-4">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <div className="flex items-center gap-3 mb-2">
-                          <h2 className="text-3xl font-bold">Table {order.tableNumber}</h2>
-                          <Badge className={getStatusColor(order.status)}>
-                            {order.status.replace("_", " ")}
-                          </Badge>
-                        </div>
-                        <div className="flex items-center gap-2 text-muted-foreground">
-                          <User className="w-4 h-4" />
-                          <span className="text-lg">{order.customerName}</span>
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm text-muted-foreground">Order ID</p>
-                        <p className="font-mono font-medium">{order.id}</p>
-                      </div>
-                    </div>
-                    <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-                      {order.items.map((item, idx) => (
-                        <div key={idx} className="flex justify-between text-lg">
-                          <span>
-                            {item.quantity}x {item.name}
-                          </span>
-                        </div>
-                      ))}
-                      <div className="border-t pt-2 mt-2">
-                        <div className="flex justify-between font-bold text-xl">
-                          <span>Total</span>
-                          <span>₹{order.totalAmount}</span>
-                        </div>
-                      </div>
-                    </div>
-                  </Card>
-                ))}
-              </div>
-            )}
+            <OrderHistory isManager={isManager} actor={getCurrentActor()} />
           </TabsContent>
         </Tabs>
       </div>
+      <SplitBillDialog billId={splitBillId} onClose={() => setSplitBillId(null)} />
+      <PaymentDialog billId={paymentBillId} actor={getCurrentActor()} onClose={() => setPaymentBillId(null)} />
+      <VoidDialog
+        target={voidTarget}
+        onClose={() => setVoidTarget(null)}
+        onVoided={(updated) => setOrders((prev) => prev.map((o) => (o.id === updated.id ? updated : o)))}
+      />
     </div>
   );
 };
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle, ChefHat, Clock, Monitor, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { bumpOrderLine, isApiError, recallOrderLine, usePrepTargets, type Order, type OrderStatus, type StationId } from "@/lib/api";
+import { describeModifiers } from "@/lib/modifiers";
+import { describeAllergens } from "@/lib/allergens";
+import { orderLabel } from "@/lib/orders";
+import { formatTicketAge, isTicking, ticketAgeMs, ticketLevel, type TicketLevel } from "@/lib/prepTimes";
+import { STATIONS, stationBacklog, stationLines, stationName, stationProgress } from "@/lib/stations";
+import { useNow } from "@/hooks/use-now";
+import { toast } from "sonner";
+
+interface KitchenDisplayProps {
+  orders: Order[];
+  onOrderChange: (order: Order) => void;
+  onStatusChange: (orderId: string, status: OrderStatus) => void;
+}
+
+type Screen = StationId | "expo";
+
+const TIMER_STYLES: Record<TicketLevel, string> = {
+  on_time: "bg-emerald-600 text-white",
+  due_soon: "bg-amber-500 text-white",
+  late: "bg-destructive text-destructive-foreground animate-pulse",
+};
+
+const byAge = (a: Order, b: Order) => a.createdAt - b.createdAt;
+
+// KDS mode: pick a station (or the expo) and it takes over the whole screen
+export const KitchenDisplay = ({ orders, onOrderChange, onStatusChange }: KitchenDisplayProps) => {
+  const [screen, setScreen] = useState<Screen | null>(null);
+  // The last line bumped from this screen, so a mis-tap can be undone after its ticket is gone
+  const [lastBump, setLastBump] = useState<{ order: Order; index: number } | null>(null);
+  const [busyLine, setBusyLine] = useState<string | null>(null);
+  const now = useNow();
+  const { data: prepTargets } = usePrepTargets();
+  const defaultPrepMinutes = prepTargets?.defaultMinutes ?? 10;
+
+  const cooking = orders.filter((o) => o.status === "PREPARING").sort(byAge);
+
+  useEffect(() => {
+    setLastBump(null);
+    if (!screen) return;
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    };
+  }, [screen]);
+
+  const handleBump = async (order: Order, index: number) => {
+    setBusyLine(`${order.id}:${index}`);
+    try {
+      const { order: updated } = await bumpOrderLine(order.id, index);
+      onOrderChange(updated);
+      setLastBump({ order: updated, index });
+      if (updated.status === "READY") toast.success(`${orderLabel(updated)} is ready for Table ${updated.tableNumber}`);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to bump item");
+    } finally {
+      setBusyLine(null);
+    }
+  };
+
+  const handleRecall = async () => {
+    if (!lastBump) return;
+    try {
+      const { order: updated } = await recallOrderLine(lastBump.order.id, lastBump.index);
+      onOrderChange(updated);
+      setLastBump(null);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to recall item");
+    }
+  };
+
+  if (!screen) {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {STATIONS.map((station) => {
+          const backlog = stationBacklog(cooking, station.id);
+          return (
+            <Card key={station.id} className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xl font-semibold flex items-center gap-2">
+                  <ChefHat className="w-5 h-5" />
+                  {station.name}
+                </h3>
+                <Badge variant={backlog ? "default" : "outline"}>{backlog} to make</Badge>
+              </div>
+              <Button className="w-full" onClick={() => setScreen(station.id)}>
+                <Monitor className="w-4 h-4 mr-2" />
+                Open Station Screen
+              </Button>
+            </Card>
+          );
+        })}
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold flex items-center gap-2">
+              <CheckCircle className="w-5 h-5" />
+              Expo
+            </h3>
+            <Badge variant="outline">{orders.filter((o) => o.status === "READY").length} ready</Badge>
+          </div>
+          <Button className="w-full" variant="outline" onClick={() => setScreen("expo")}>
+            <Monitor className="w-4 h-4 mr-2" />
+            Open Expo Screen
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const renderTicketHeader = (order: Order) => (
+    <>
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-2xl font-bold">{orderLabel(order)}</span>
+        <span className="text-lg font-semibold">Table {order.tableNumber ?? "-"}</span>
+      </div>
+      {isTicking(order) ? (
+        <div className={`flex items-center gap-1 rounded px-2 py-1 font-mono text-lg font-bold ${TIMER_STYLES[ticketLevel(order, now, defaultPrepMinutes)]}`}>
+          <Clock className="w-4 h-4" />
+          {formatTicketAge(ticketAgeMs(order, now))} / {order.prepTargetMinutes || defaultPrepMinutes} min
+        </div>
+      ) : order.prepTime ? (
+        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Clock className="w-4 h-4" />
+          Ready in {order.prepTime.minutes} min
+        </div>
+      ) : null}
+      {order.allergens?.length ? (
+        <div className="flex items-center gap-2 rounded bg-destructive px-3 py-1 font-bold text-destructive-foreground">
+          <AlertTriangle className="w-4 h-4" />
+          {describeAllergens(order.allergens)}
+        </div>
+      ) : null}
+    </>
+  );
+
+  const renderStation = (station: StationId) => {
+    const tickets = cooking.filter((order) => stationLines(order, station).some(({ item }) => !item.bumped));
+    if (tickets.length === 0) {
+      return <p className="p-12 text-center text-2xl text-muted-foreground">Nothing to make</p>;
+    }
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-4 gap-4">
+        {tickets.map((order) => (
+          <Card key={order.id} className="p-4 space-y-3">
+            {renderTicketHeader(order)}
+            <div className="space-y-2">
+              {stationLines(order, station).map(({ item, index }) => (
+                <button
+                  key={index}
+                  type="button"
+                  disabled={!!item.bumped || busyLine === `${order.id}:${index}`}
+                  onClick={() => handleBump(order, index)}
+                  className={`w-full rounded-lg border-2 p-3 text-left transition-colors ${
+                    item.bumped ? "border-dashed text-muted-foreground line-through" : "border-primary/40 hover:bg-primary/10"
+                  }`}
+                >
+                  <div className="text-xl font-semibold">
+                    {item.quantity}x {item.name}
+                  </div>
+                  {item.modifiers?.length ? <div className="text-sm font-medium">{describeModifiers(item.modifiers)}</div> : null}
+                  {item.notes && <div className="mt-1 inline-block rounded bg-amber-100 px-2 text-sm font-medium text-amber-900">{item.notes}</div>}
+                </button>
+              ))}
+            </div>
+            {order.notes && <p className="text-sm font-medium text-amber-900">Note: {order.notes}</p>}
+          </Card>
+        ))}
+      </div>
+    );
+  };
+
+  const renderExpo = () => {
+    const tickets = orders.filter((o) => o.status === "PREPARING" || o.status === "READY").sort(byAge);
+    if (tickets.length === 0) {
+      return <p className="p-12 text-center text-2xl text-muted-foreground">No orders in the kitchen</p>;
+    }
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-4 gap-4">
+        {tickets.map((order) => (
+          <Card key={order.id} className={`p-4 space-y-3 ${order.status === "READY" ? "ring-2 ring-primary" : ""}`}>
+            {renderTicketHeader(order)}
+            <div className="space-y-2">
+              {stationProgress(order).map((p) => (
+                <div key={p.station} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-1 font-medium">
+                      {p.bumped === p.total && <CheckCircle className="w-4 h-4 text-primary" />}
+                      {stationName(p.station)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {p.bumped}/{p.total}
+                    </span>
+                  </div>
+                  <Progress value={(p.bumped / p.total) * 100} className="h-2" />
+                </div>
+              ))}
+            </div>
+            {order.status === "READY" && !order.sessionId && (
+              <Button className="w-full" onClick={() => onStatusChange(order.id, "COMPLETED")}>
+                Complete & Serve
+              </Button>
+            )}
+          </Card>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-auto bg-background p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold">{screen === "expo" ? "Expo" : stationName(screen)}</h1>
+        <div className="flex items-center gap-2">
+          {screen !== "expo" && lastBump && (
+            <Button variant="outline" size="lg" onClick={handleRecall}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Recall {lastBump.order.items[lastBump.index]?.name}
+            </Button>
+          )}
+          <Button variant="ghost" size="lg" onClick={() => setScreen(null)}>
+            <X className="w-5 h-5 mr-1" />
+            Exit
+          </Button>
+        </div>
+      </div>
+      {screen === "expo" ? renderExpo() : renderStation(screen)}
+    </div>
+  );
+};
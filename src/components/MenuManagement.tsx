@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Plus, Pencil, Trash2, Save, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -13,61 +13,14 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
-
-// Backend API
-const API = (import.meta.env && import.meta.env.VITE_API_URL) || "http://localhost:4001";
-
-const fetchMenuItems = async () => {
-  try {
-    const res = await fetch(`${API}/menu`);
-    if (!res.ok) throw new Error("Failed to fetch menu");
-    const data = await res.json();
-    // flatten into array
-    const list: MenuItem[] = [];
-    Object.entries(data).forEach(([category, items]: any) => {
-      (items || []).forEach((it: any) => list.push({ id: it.id, name: it.name, category, price: it.price, available: it.available ?? true }));
-    });
-    return list;
-  } catch (e) {
-    console.warn("Failed to load menu from backend, falling back to local placeholder", e);
-    return [];
-  }
-};
-
-const saveMenuItem = async (item: MenuItem) => {
-  try {
-    if (!item.id || item.id.startsWith("item-")) {
-      const res = await fetch(`${API}/menu`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(item) });
-      return res.ok ? await res.json() : { success: false };
-    }
-    const res = await fetch(`${API}/menu/${item.id}`, { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(item) });
-    return res.ok ? await res.json() : { success: false };
-  } catch (e) {
-    console.warn("Failed to save menu item", e);
-    return { success: false };
-  }
-};
-
-const deleteMenuItem = async (itemId: string) => {
-  try {
-    const res = await fetch(`${API}/menu/${itemId}`, { method: "DELETE" });
-    return res.ok ? await res.json() : { success: false };
-  } catch (e) {
-    console.warn("Failed to delete menu item", e);
-    return { success: false };
-  }
-};
-
-type MenuItem = {
-  id: string;
-  name: string;
-  category: string;
-  price: number;
-  available: boolean;
-};
+import { fromModifierForms, toModifierForms, type ModifierGroupForm } from "@/lib/modifiers";
+import { ModifierGroupsEditor } from "./ModifierGroupsEditor";
+import { useDeleteMenuItem, useMenuItems, useSaveMenuItem, type MenuItem } from "@/lib/api";
 
 export const MenuManagement = () => {
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const { data: menuItems = [] } = useMenuItems();
+  const saveMenuItem = useSaveMenuItem();
+  const deleteMenuItem = useDeleteMenuItem();
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
@@ -76,15 +29,17 @@ export const MenuManagement = () => {
     price: "",
     available: true,
     newCategory: "",
+    hsn: "",
   });
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroupForm[]>([]);
 
-  useEffect(() => {
-    loadMenuItems();
-  }, []);
-
-  const loadMenuItems = async () => {
-    const items = await fetchMenuItems();
-    setMenuItems(items);
+  // notify other tabs (customer view) to refresh menu immediately
+  const broadcastMenuUpdate = () => {
+    try {
+      localStorage.setItem("menu-updated", Date.now().toString());
+    } catch (e) {
+      /* ignore if localStorage not available */
+    }
   };
 
   const handleSave = async () => {
@@ -102,26 +57,21 @@ export const MenuManagement = () => {
       category,
       price: parseFloat(formData.price),
       available: typeof formData.available === "boolean" ? formData.available : (editingItem?.available ?? true),
+      hsn: formData.hsn.trim() || null,
+      modifierGroups: fromModifierForms(modifierGroups),
     };
 
-    await saveMenuItem(item);
-
-    if (editingItem) {
-      setMenuItems((prev) => prev.map((i) => (i.id === item.id ? item : i)));
-      toast.success("Menu item updated");
-    } else {
-      setMenuItems((prev) => [...prev, item]);
-      toast.success("Menu item added");
+    try {
+      await saveMenuItem.mutateAsync({ isNew: !editingItem, item });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save menu item");
+      return;
     }
+    toast.success(editingItem ? "Menu item updated" : "Menu item added");
 
     resetForm();
     setIsDialogOpen(false);
-    // notify other tabs (customer view) to refresh menu immediately
-    try {
-      localStorage.setItem("menu-updated", Date.now().toString());
-    } catch (e) {
-      /* ignore if localStorage not available */
-    }
+    broadcastMenuUpdate();
   };
 
   const handleEdit = (item: MenuItem) => {
@@ -132,32 +82,39 @@ export const MenuManagement = () => {
       price: item.price.toString(),
       available: item.available ?? true,
       newCategory: "",
+      hsn: item.hsn || "",
     });
+    setModifierGroups(toModifierForms(item.modifierGroups));
     setIsDialogOpen(true);
   };
 
   const handleDelete = async (itemId: string) => {
-    await deleteMenuItem(itemId);
-    setMenuItems((prev) => prev.filter((i) => i.id !== itemId));
-    toast.success("Menu item deleted");
     try {
-      localStorage.setItem("menu-updated", Date.now().toString());
-    } catch (e) {}
+      await deleteMenuItem.mutateAsync(itemId);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to delete menu item");
+      return;
+    }
+    toast.success("Menu item deleted");
+    broadcastMenuUpdate();
   };
 
   const toggleAvailability = async (item: MenuItem) => {
     const updatedItem = { ...item, available: !item.available };
-    await saveMenuItem(updatedItem);
-    setMenuItems((prev) => prev.map((i) => (i.id === item.id ? updatedItem : i)));
-    toast.success(updatedItem.available ? "Item marked available" : "Item marked unavailable");
     try {
-      localStorage.setItem("menu-updated", Date.now().toString());
-    } catch (e) {}
+      await saveMenuItem.mutateAsync({ isNew: false, item: updatedItem });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update menu item");
+      return;
+    }
+    toast.success(updatedItem.available ? "Item marked available" : "Item marked unavailable");
+    broadcastMenuUpdate();
   };
 
   const resetForm = () => {
     setEditingItem(null);
-    setFormData({ name: "", category: "", price: "", available: true, newCategory: "" });
+    setFormData({ name: "", category: "", price: "", available: true, newCategory: "", hsn: "" });
+    setModifierGroups([]);
   };
 
   const groupedItems = menuItems.reduce((acc, item) => {
@@ -180,7 +137,7 @@ export const MenuManagement = () => {
               Add Item
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingItem ? "Edit Menu Item" : "Add New Menu Item"}</DialogTitle>
             </DialogHeader>
@@ -224,10 +181,20 @@ export const MenuManagement = () => {
                   placeholder="e.g., 20"
                 />
               </div>
+              <div>
+                <Label htmlFor="hsn">HSN/SAC code</Label>
+                <Input
+                  id="hsn"
+                  value={formData.hsn}
+                  onChange={(e) => setFormData({ ...formData, hsn: e.target.value })}
+                  placeholder="Leave blank to use the default"
+                />
+              </div>
               <div className="flex items-center gap-3">
                 <input id="available" type="checkbox" checked={!!formData.available} onChange={(e) => setFormData({ ...formData, available: e.target.checked })} />
                 <label htmlFor="available" className="text-sm">Available</label>
               </div>
+              <ModifierGroupsEditor value={modifierGroups} onChange={setModifierGroups} />
               <div className="flex gap-2 pt-4">
                 <Button onClick={handleSave} className="flex-1">
                   <Save className="w-4 h-4 mr-2" />
@@ -272,6 +239,9 @@ export const MenuManagement = () => {
                       >
                         {item.available ? "Available" : "Unavailable"}
                       </Badge>
+                      {item.autoUnavailable && !item.available && (
+                        <Badge variant="outline" className="text-destructive">Out of stock</Badge>
+                      )}
                     </div>
                     <span className="text-muted-foreground">₹{item.price}</span>
                   </div>
@@ -0,0 +1,91 @@
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { ModifierGroupForm, ModifierOptionForm } from "@/lib/modifiers";
+
+const emptyOption = (): ModifierOptionForm => ({ name: "", priceDelta: "0" });
+const emptyGroup = (): ModifierGroupForm => ({ name: "", required: false, min: "0", max: "1", options: [emptyOption()] });
+
+interface ModifierGroupsEditorProps {
+  value: ModifierGroupForm[];
+  onChange: (groups: ModifierGroupForm[]) => void;
+}
+
+export const ModifierGroupsEditor = ({ value, onChange }: ModifierGroupsEditorProps) => {
+  const updateGroup = (index: number, changes: Partial<ModifierGroupForm>) =>
+    onChange(value.map((g, i) => (i === index ? { ...g, ...changes } : g)));
+
+  const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<ModifierOptionForm>) =>
+    updateGroup(groupIndex, {
+      options: value[groupIndex].options.map((o, i) => (i === optionIndex ? { ...o, ...changes } : o)),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Options</Label>
+        <Button type="button" size="sm" variant="outline" onClick={() => onChange([...value, emptyGroup()])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add group
+        </Button>
+      </div>
+      {value.length === 0 && <p className="text-sm text-muted-foreground">No sizes or add-ons for this item</p>}
+      {value.map((group, gi) => (
+        <div key={group.id || gi} className="rounded-lg border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input placeholder="Group name, e.g. Size" value={group.name} onChange={(e) => updateGroup(gi, { name: e.target.value })} />
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== gi))}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <Switch
+                checked={group.required}
+                onCheckedChange={(required) => updateGroup(gi, { required, min: required && group.min === "0" ? "1" : group.min })}
+              />
+              Required
+            </label>
+            <label className="flex items-center gap-2">
+              Min
+              <Input type="number" className="w-16 h-8" value={group.min} onChange={(e) => updateGroup(gi, { min: e.target.value })} />
+            </label>
+            <label className="flex items-center gap-2">
+              Max
+              <Input type="number" className="w-16 h-8" value={group.max} onChange={(e) => updateGroup(gi, { max: e.target.value })} />
+            </label>
+          </div>
+          <div className="space-y-2">
+            {group.options.map((option, oi) => (
+              <div key={option.id || oi} className="flex items-center gap-2">
+                <Input placeholder="Option" value={option.name} onChange={(e) => updateOption(gi, oi, { name: e.target.value })} />
+                <Input
+                  type="number"
+                  className="w-24"
+                  placeholder="+₹"
+                  value={option.priceDelta}
+                  onChange={(e) => updateOption(gi, oi, { priceDelta: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={group.options.length === 1}
+                  onClick={() => updateGroup(gi, { options: group.options.filter((_, i) => i !== oi) })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" size="sm" variant="ghost" onClick={() => updateGroup(gi, { options: [...group.options, emptyOption()] })}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add option
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
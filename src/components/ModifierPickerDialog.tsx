@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { MenuItem, ModifierGroup, ModifierOption, SelectedModifier } from "@/lib/api";
+import { selectionError, unitPrice } from "@/lib/modifiers";
+
+interface ModifierPickerDialogProps {
+  item: MenuItem | null;
+  onClose: () => void;
+  onConfirm: (item: MenuItem, modifiers: SelectedModifier[], quantity: number) => void;
+}
+
+const toSelected = (group: ModifierGroup, option: ModifierOption): SelectedModifier => ({
+  groupId: group.id,
+  groupName: group.name,
+  optionId: option.id,
+  name: option.name,
+  priceDelta: option.priceDelta,
+});
+
+// Required single-choice groups (sizes) start on their first option
+const defaultSelection = (groups: ModifierGroup[]) =>
+  groups.filter((g) => g.required && g.max === 1 && g.options.length > 0).map((g) => toSelected(g, g.options[0]));
+
+const formatDelta = (delta: number) => (delta > 0 ? `+₹${delta}` : delta < 0 ? `-₹${Math.abs(delta)}` : "");
+
+export const ModifierPickerDialog = ({ item, onClose, onConfirm }: ModifierPickerDialogProps) => {
+  const groups = item?.modifierGroups || [];
+  const [selected, setSelected] = useState<SelectedModifier[]>([]);
+  const [quantity, setQuantity] = useState(1);
+
+  useEffect(() => {
+    setSelected(defaultSelection(item?.modifierGroups || []));
+    setQuantity(1);
+  }, [item]);
+
+  const isPicked = (option: ModifierOption) => selected.some((m) => m.optionId === option.id);
+
+  const toggle = (group: ModifierGroup, option: ModifierOption) => {
+    const inGroup = selected.filter((m) => m.groupId === group.id);
+    if (isPicked(option)) {
+      // single-choice required groups always keep one option
+      if (group.max === 1 && group.required) return;
+      setSelected(selected.filter((m) => m.optionId !== option.id));
+    } else if (group.max === 1) {
+      setSelected([...selected.filter((m) => m.groupId !== group.id), toSelected(group, option)]);
+    } else if (inGroup.length < group.max) {
+      setSelected([...selected, toSelected(group, option)]);
+    }
+  };
+
+  if (!item) return null;
+
+  // menu order, so the same choices always read the same way
+  const ordered = groups.flatMap((g) => g.options.filter(isPicked).map((o) => toSelected(g, o)));
+  const error = selectionError(groups, ordered);
+  const price = unitPrice(item.price, ordered);
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+          <DialogDescription>₹{item.price}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold">{group.name}</h4>
+                {group.required ? (
+                  <Badge variant="secondary" className="text-[10px]">Required</Badge>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Optional{group.max > 1 ? ` · up to ${group.max}` : ""}</span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {group.options.map((option) => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    size="sm"
+                    variant={isPicked(option) ? "default" : "outline"}
+                    className="rounded-full"
+                    onClick={() => toggle(group, option)}
+                  >
+                    {option.name}
+                    {option.priceDelta !== 0 && <span className="ml-1 opacity-70">{formatDelta(option.priceDelta)}</span>}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <div className="flex items-center gap-3 bg-background rounded-full border p-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" onClick={() => setQuantity(Math.max(1, quantity - 1))}>
+              <Minus className="w-3 h-3" />
+            </Button>
+            <span className="font-medium w-6 text-center text-sm">{quantity}</span>
+            <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" onClick={() => setQuantity(quantity + 1)}>
+              <Plus className="w-3 h-3" />
+            </Button>
+          </div>
+          <Button disabled={!!error} onClick={() => onConfirm(item, ordered, quantity)} className="rounded-full">
+            Add · ₹{price * quantity}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-muted-foreground text-right">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
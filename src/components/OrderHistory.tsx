@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Receipt, Search, User, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOrderHistory, type Actor, type Order, type OrderHistoryQuery, type OrderStatus } from "@/lib/api";
+import { describeModifiers } from "@/lib/modifiers";
+import { describeVoidReason } from "@/lib/voids";
+import { orderLabel } from "@/lib/orders";
+import { OrderStatusTimeline } from "./OrderStatusTimeline";
+import { BillDrawer } from "./BillDrawer";
+
+const STATUS_FILTERS: { value: string; label: string; statuses: OrderStatus[] }[] = [
+  { value: "closed", label: "Completed & cancelled", statuses: ["COMPLETED", "CANCELLED"] },
+  { value: "completed", label: "Completed", statuses: ["COMPLETED"] },
+  { value: "cancelled", label: "Cancelled", statuses: ["CANCELLED"] },
+];
+
+const STATUS_STYLES: Partial<Record<OrderStatus, string>> = {
+  COMPLETED: "bg-muted text-muted-foreground",
+  CANCELLED: "bg-destructive/20 text-destructive",
+};
+
+// Form values are kept as strings so fields can be cleared while typing
+type HistoryForm = {
+  q: string;
+  table: string;
+  from: string;
+  to: string;
+  status: string;
+};
+
+const EMPTY_FORM: HistoryForm = { q: "", table: "", from: "", to: "", status: "closed" };
+
+const toQuery = (form: HistoryForm): OrderHistoryQuery => ({
+  q: form.q.trim() || undefined,
+  table: form.table ? Number(form.table) : undefined,
+  from: form.from || undefined,
+  to: form.to || undefined,
+  status: STATUS_FILTERS.find((s) => s.value === form.status)?.statuses,
+});
+
+interface OrderHistoryProps {
+  isManager: boolean;
+  actor?: Actor;
+}
+
+// Closed orders, searched and paged on the server so the dashboard only keeps live orders in memory
+export const OrderHistory = ({ isManager, actor }: OrderHistoryProps) => {
+  const [form, setForm] = useState<HistoryForm>(EMPTY_FORM);
+  const [billOrder, setBillOrder] = useState<Order | null>(null);
+  const [query, setQuery] = useState<OrderHistoryQuery>(() => toQuery(EMPTY_FORM));
+  const { data, error, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useOrderHistory(query);
+  const orders = data?.pages.flatMap((page) => page.orders) ?? [];
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(toQuery(form));
+  };
+
+  const handleClear = () => {
+    setForm(EMPTY_FORM);
+    setQuery(toQuery(EMPTY_FORM));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-4">
+        <form onSubmit={handleSearch} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          <div className="col-span-2">
+            <Label htmlFor="history-search">Search</Label>
+            <Input
+              id="history-search"
+              placeholder="Order #, id, customer or phone"
+              value={form.q}
+              onChange={(e) => setForm({ ...form, q: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="history-table">Table</Label>
+            <Input
+              id="history-table"
+              type="number"
+              min={1}
+              value={form.table}
+              onChange={(e) => setForm({ ...form, table: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="history-from">From</Label>
+            <Input id="history-from" type="date" value={form.from} max={form.to || undefined} onChange={(e) => setForm({ ...form, from: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="history-to">To</Label>
+            <Input id="history-to" type="date" value={form.to} min={form.from || undefined} onChange={(e) => setForm({ ...form, to: e.target.value })} />
+          </div>
+          <div>
+            <Label>Status</Label>
+            <Select value={form.status} onValueChange={(status) => setForm({ ...form, status })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_FILTERS.map((s) => (
+                  <SelectItem key={s.value} value={s.value}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 md:col-span-6 flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={handleClear}>
+              <X className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+            <Button type="submit">
+              <Search className="w-4 h-4 mr-2" />
+              Search
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      {isLoading ? (
+        <Card className="p-12 text-center text-muted-foreground">Loading order history...</Card>
+      ) : error ? (
+        <Card className="p-12 text-center text-destructive">{error.message || "Failed to load order history"}</Card>
+      ) : orders.length === 0 ? (
+        <Card className="p-12 text-center">
+          <h2 className="text-2xl font-medium text-muted-foreground">No Completed Orders</h2>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {orders.map((order) => (
+              <Card key={order.id} className="p-6 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center gap-3 mb-2">
+                      <h2 className="text-3xl font-bold">Table {order.tableNumber}</h2>
+                      <Badge className={STATUS_STYLES[order.status] || ""}>{order.status.replace("_", " ")}</Badge>
+                    </div>
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <User className="w-4 h-4" />
+                      <span className="text-lg">{order.customerName}</span>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-muted-foreground">{new Date(order.createdAt).toLocaleString()}</p>
+                    <p className="font-mono font-medium">{orderLabel(order)}</p>
+                  </div>
+                </div>
+                {order.voided && (
+                  <p className="text-sm text-destructive">
+                    Voided: {describeVoidReason(order.voided.reason)}
+                    {order.voided.note ? ` · ${order.voided.note}` : ""}
+                    {order.voided.actor?.name ? ` · by ${order.voided.actor.name}` : ""}
+                  </p>
+                )}
+                <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                  {order.items.map((item, idx) => (
+                    <div key={idx} className="text-lg">
+                      <span className={item.voided ? "line-through text-muted-foreground" : ""}>
+                        {item.quantity}x {item.name}
+                      </span>
+                      {item.voided && (
+                        <span className="ml-2 text-sm text-destructive">Void · {describeVoidReason(item.voided.reason)}</span>
+                      )}
+                      {item.modifiers?.length ? (
+                        <p className="text-sm text-muted-foreground pl-6">{describeModifiers(item.modifiers)}</p>
+                      ) : null}
+                      {item.notes && (
+                        <p className="ml-6 mt-1 inline-block rounded bg-amber-100 px-2 text-sm font-medium text-amber-900">{item.notes}</p>
+                      )}
+                    </div>
+                  ))}
+                  <div className="border-t pt-2 mt-2">
+                    <div className="flex justify-between font-bold text-xl">
+                      <span>Total</span>
+                      <span>₹{order.totalAmount}</span>
+                    </div>
+                  </div>
+                </div>
+                <OrderStatusTimeline history={order.statusHistory} />
+                {(order.billId || (isManager && order.status === "COMPLETED")) && (
+                  <Button variant="outline" className="w-full" onClick={() => setBillOrder(order)}>
+                    <Receipt className="w-4 h-4 mr-2" />
+                    {order.billId ? "View Bill" : "Re-open"}
+                  </Button>
+                )}
+              </Card>
+            ))}
+          </div>
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+      <BillDrawer order={billOrder} isManager={isManager} actor={actor} onClose={() => setBillOrder(null)} />
+    </div>
+  );
+};
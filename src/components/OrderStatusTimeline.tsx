@@ -0,0 +1,34 @@
+import type { StatusHistoryEntry } from "@/lib/api";
+import { describeCreditReason } from "@/lib/creditNotes";
+
+interface OrderStatusTimelineProps {
+  history?: StatusHistoryEntry[];
+}
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Compact vertical list of an order's status changes (oldest first)
+export const OrderStatusTimeline = ({ history }: OrderStatusTimelineProps) => {
+  if (!history || history.length === 0) return null;
+
+  return (
+    <ol className="space-y-1 border-l pl-3 text-xs text-muted-foreground">
+      {history.map((entry, idx) => (
+        <li key={idx} className="relative">
+          <span className="absolute -left-[17px] top-1.5 h-2 w-2 rounded-full bg-primary/60" />
+          <span className="font-medium text-foreground">
+            {entry.from ? `${entry.from.replace("_", " ")} → ` : ""}
+            {entry.to.replace("_", " ")}
+          </span>
+          {" · "}
+          {formatTime(entry.at)}
+          {" · "}
+          {entry.actor?.name || "unknown"}
+          {entry.actor?.role ? ` (${entry.actor.role})` : ""}
+          {entry.reason ? ` · ${describeCreditReason(entry.reason)}` : ""}
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { Banknote, CheckCircle, CreditCard, QrCode, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  isApiError,
+  useBill,
+  useBillSplits,
+  useCancelPayment,
+  useConfirmPayment,
+  useRecordPayment,
+  type Actor,
+  type Bill,
+  type Payment,
+  type Tender,
+} from "@/lib/api";
+import { PAYMENT_STATUS_LABELS, TENDERS, balanceDue, changeDue, describeTender } from "@/lib/payments";
+import { toast } from "sonner";
+
+interface PaymentDialogProps {
+  billId: string | null;
+  actor?: Actor;
+  onClose: () => void;
+}
+
+const TENDER_ICONS: Record<Tender, typeof Banknote> = { CASH: Banknote, UPI: QrCode, CARD: CreditCard };
+
+const STATUS_STYLES = {
+  UNPAID: "bg-destructive/20 text-destructive",
+  PARTIALLY_PAID: "bg-warning text-warning-foreground",
+  PAID: "bg-primary/20 text-primary",
+} as const;
+
+const describePayment = (p: Payment) =>
+  [
+    p.tender === "CASH" && p.tendered !== undefined ? `₹${p.tendered} given · ₹${p.change ?? 0} change` : null,
+    p.reference ? `Ref ${p.reference}` : null,
+    p.refundId ? "refunded" : null,
+    p.status !== "CAPTURED" ? p.status.toLowerCase() : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// Payment step after billing: cash with change, UPI by QR, card by slip reference, in any mix.
+// A split bill is paid share by share.
+export const PaymentDialog = ({ billId, actor, onClose }: PaymentDialogProps) => {
+  const { data: bill } = useBill(billId);
+  const isSplit = !!bill?.splitIds?.length;
+  const { data: shares = [] } = useBillSplits(isSplit ? billId : null);
+  const [shareId, setShareId] = useState<string | null>(null);
+  const payingBill: Bill | undefined = isSplit ? shares.find((s) => s.id === shareId) : bill;
+
+  const recordPayment = useRecordPayment();
+  const confirmPayment = useConfirmPayment();
+  const cancelPayment = useCancelPayment();
+  const [tender, setTender] = useState<Tender>("CASH");
+  const [amount, setAmount] = useState("");
+  const [tendered, setTendered] = useState("");
+  const [reference, setReference] = useState("");
+  // QR for the UPI payment started from this dialog; it isn't stored on the bill
+  const [upiQr, setUpiQr] = useState<{ paymentId: string; svg: string } | null>(null);
+
+  useEffect(() => {
+    setShareId(null);
+    setTender("CASH");
+  }, [billId]);
+
+  const due = payingBill ? balanceDue(payingBill) : 0;
+  useEffect(() => {
+    setAmount(due ? String(due) : "");
+    setTendered("");
+    setReference("");
+  }, [payingBill?.id, due]);
+
+  const busy = recordPayment.isPending || confirmPayment.isPending || cancelPayment.isPending;
+  const change = tendered ? changeDue(Number(tendered), Number(amount)) : null;
+
+  const handleRecord = async () => {
+    if (!payingBill) return;
+    try {
+      const { payment, qrSvg } = await recordPayment.mutateAsync({
+        billId: payingBill.id,
+        tender,
+        amount: Number(amount),
+        tendered: tender === "CASH" && tendered ? Number(tendered) : undefined,
+        reference: tender === "CARD" ? reference : undefined,
+        actor,
+      });
+      if (payment.status === "PENDING" && qrSvg) setUpiQr({ paymentId: payment.id, svg: qrSvg });
+      else toast.success(`${describeTender(payment.tender)} ₹${payment.amount} received${payment.change ? ` · give ₹${payment.change} change` : ""}`);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to record payment");
+    }
+  };
+
+  const handleConfirm = async (paymentId: string) => {
+    if (!payingBill) return;
+    try {
+      const { payment } = await confirmPayment.mutateAsync({ billId: payingBill.id, paymentId });
+      toast.success(`UPI ₹${payment.amount} received`);
+      setUpiQr(null);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to confirm payment");
+    }
+  };
+
+  const handleCancel = async (paymentId: string) => {
+    if (!payingBill) return;
+    try {
+      await cancelPayment.mutateAsync({ billId: payingBill.id, paymentId });
+      setUpiQr(null);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to cancel payment");
+    }
+  };
+
+  const renderShares = () => (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">This bill is split; take payment from each diner</p>
+      {shares.map((share) => (
+        <div key={share.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+          <span>
+            {share.customerName} · ₹{share.total}
+          </span>
+          <div className="flex items-center gap-2">
+            <Badge className={STATUS_STYLES[share.paymentStatus || "UNPAID"]}>{PAYMENT_STATUS_LABELS[share.paymentStatus || "UNPAID"]}</Badge>
+            {share.paymentStatus !== "PAID" && (
+              <Button size="sm" onClick={() => setShareId(share.id)}>
+                Pay
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderPayments = (target: Bill) =>
+    target.payments?.length ? (
+      <div className="space-y-2">
+        {target.payments.map((p) => (
+          <div key={p.id} className={`flex items-center justify-between text-sm ${p.status === "CANCELLED" ? "text-muted-foreground line-through" : ""}`}>
+            <span>
+              {describeTender(p.tender)} ₹{p.amount}
+              {describePayment(p) && <span className="text-muted-foreground"> · {describePayment(p)}</span>}
+            </span>
+            {p.status === "PENDING" && (
+              <div className="flex gap-1">
+                <Button size="sm" variant="outline" onClick={() => handleConfirm(p.id)} disabled={busy}>
+                  Received
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleCancel(p.id)} disabled={busy}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    ) : null;
+
+  const renderTenderForm = (target: Bill) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {TENDERS.map((t) => {
+          const Icon = TENDER_ICONS[t.id];
+          return (
+            <Button key={t.id} variant={tender === t.id ? "default" : "outline"} onClick={() => setTender(t.id)}>
+              <Icon className="w-4 h-4 mr-2" />
+              {t.label}
+            </Button>
+          );
+        })}
+      </div>
+      <div>
+        <Label htmlFor="payment-amount">Amount (₹)</Label>
+        <Input id="payment-amount" type="number" min={0} max={balanceDue(target)} value={amount} onChange={(e) => setAmount(e.target.value)} />
+        <p className="text-sm text-muted-foreground mt-1">Enter less than the balance to take part of the bill</p>
+      </div>
+      {tender === "CASH" && (
+        <div>
+          <Label htmlFor="payment-tendered">Cash given (₹)</Label>
+          <Input id="payment-tendered" type="number" min={0} value={tendered} onChange={(e) => setTendered(e.target.value)} />
+          {tendered && (
+            <p className={`text-sm mt-1 ${change === null ? "text-destructive" : "font-medium"}`}>
+              {change === null ? "Not enough to cover the amount" : `Change: ₹${change}`}
+            </p>
+          )}
+        </div>
+      )}
+      {tender === "CARD" && (
+        <div>
+          <Label htmlFor="payment-reference">Slip reference</Label>
+          <Input id="payment-reference" maxLength={40} value={reference} onChange={(e) => setReference(e.target.value)} />
+        </div>
+      )}
+      <Button
+        className="w-full"
+        onClick={handleRecord}
+        disabled={busy || !(Number(amount) > 0) || (tender === "CASH" && !!tendered && change === null) || (tender === "CARD" && !reference.trim())}
+      >
+        {tender === "UPI" ? "Show UPI QR" : `Record ${describeTender(tender)} Payment`}
+      </Button>
+    </div>
+  );
+
+  const renderUpiQr = () =>
+    upiQr && (
+      <div className="space-y-3 text-center">
+        <div className="mx-auto w-56 h-56" dangerouslySetInnerHTML={{ __html: upiQr.svg }} />
+        <p className="text-sm text-muted-foreground">Ask the diner to scan with any UPI app</p>
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={() => handleCancel(upiQr.paymentId)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={() => handleConfirm(upiQr.paymentId)} disabled={busy}>
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Payment Received
+          </Button>
+        </div>
+      </div>
+    );
+
+  return (
+    <Dialog open={!!billId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Take Payment</DialogTitle>
+          <DialogDescription>
+            {bill ? `${bill.invoiceNumber || bill.id} · Table ${bill.tableNumber ?? "-"} · Total ₹${bill.total}` : "Loading bill..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {bill && (
+          <div className="space-y-4">
+            {isSplit && payingBill && (
+              <Button variant="ghost" size="sm" onClick={() => setShareId(null)}>
+                ← All shares
+              </Button>
+            )}
+            {payingBill ? (
+              <>
+                <div className="flex items-center justify-between rounded-lg bg-muted/50 p-3">
+                  <div>
+                    {isSplit && <p className="text-sm text-muted-foreground">{payingBill.customerName}</p>}
+                    <p className="text-sm">
+                      Paid ₹{payingBill.paidAmount ?? 0} of ₹{payingBill.total}
+                    </p>
+                    <p className="text-xl font-bold">₹{balanceDue(payingBill)} due</p>
+                  </div>
+                  <Badge className={STATUS_STYLES[payingBill.paymentStatus || "UNPAID"]}>
+                    {PAYMENT_STATUS_LABELS[payingBill.paymentStatus || "UNPAID"]}
+                  </Badge>
+                </div>
+                {renderPayments(payingBill)}
+                {upiQr ? renderUpiQr() : balanceDue(payingBill) > 0 ? renderTenderForm(payingBill) : (
+                  <Button className="w-full" onClick={isSplit ? () => setShareId(null) : onClose}>
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {isSplit ? "Back to shares" : "Done"}
+                  </Button>
+                )}
+              </>
+            ) : (
+              renderShares()
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
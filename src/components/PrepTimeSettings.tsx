@@ -0,0 +1,109 @@
+import { useEffect, useMemo, useState } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { isApiError, useMenuItems, usePrepTargets, useUpdatePrepTargets, type Actor } from "@/lib/api";
+
+interface PrepTimeSettingsProps {
+  actor?: Actor;
+}
+
+// Form values are kept as strings so fields can be cleared while typing
+type PrepForm = {
+  defaultMinutes: string;
+  categoryMinutes: Record<string, string>;
+};
+
+// Managers set how long each menu category should take; kitchen tickets turn amber and red against these
+export const PrepTimeSettings = ({ actor }: PrepTimeSettingsProps) => {
+  const { data: config } = usePrepTargets();
+  const { data: menuItems = [] } = useMenuItems();
+  const updatePrepTargets = useUpdatePrepTargets();
+  const [form, setForm] = useState<PrepForm | null>(null);
+
+  useEffect(() => {
+    if (config) {
+      setForm({
+        defaultMinutes: String(config.defaultMinutes),
+        categoryMinutes: Object.fromEntries(Object.entries(config.categoryMinutes).map(([c, m]) => [c, String(m)])),
+      });
+    }
+  }, [config]);
+
+  // Menu categories plus any category that still has a target configured
+  const categories = useMemo(() => {
+    const names = new Set(menuItems.map((it) => it.category));
+    Object.keys(config?.categoryMinutes || {}).forEach((c) => names.add(c));
+    return Array.from(names).sort();
+  }, [menuItems, config]);
+
+  if (!form) {
+    return <Card className="p-12 text-center text-muted-foreground">Loading prep-time targets...</Card>;
+  }
+
+  const handleSave = async () => {
+    const categoryMinutes = Object.fromEntries(
+      Object.entries(form.categoryMinutes)
+        .filter(([, minutes]) => minutes.trim() !== "")
+        .map(([c, minutes]) => [c, Number(minutes)])
+    );
+    try {
+      await updatePrepTargets.mutateAsync({ defaultMinutes: Number(form.defaultMinutes), categoryMinutes, actor });
+      toast.success("Prep-time targets saved");
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to save prep-time targets");
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4 max-w-2xl">
+      <div>
+        <h3 className="font-semibold">Prep-time targets</h3>
+        <p className="text-sm text-muted-foreground">
+          Minutes from order to ready. An order's target is its slowest item's; changes apply to new orders.
+        </p>
+      </div>
+      <div>
+        <Label htmlFor="default-prep-minutes">Default target (min)</Label>
+        <Input
+          id="default-prep-minutes"
+          type="number"
+          className="w-28"
+          value={form.defaultMinutes}
+          onChange={(e) => setForm({ ...form, defaultMinutes: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Target by category (min)</Label>
+        <p className="text-sm text-muted-foreground">Leave blank to use the default target</p>
+        {categories.map((category) => (
+          <div key={category} className="flex items-center gap-3">
+            <span className="flex-1">{category}</span>
+            <Input
+              type="number"
+              className="w-28"
+              placeholder={form.defaultMinutes}
+              value={form.categoryMinutes[category] ?? ""}
+              onChange={(e) => setForm({ ...form, categoryMinutes: { ...form.categoryMinutes, [category]: e.target.value } })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-4">
+        <Button onClick={handleSave} disabled={updatePrepTargets.isPending}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+        {config?.updatedAt && (
+          <span className="text-sm text-muted-foreground">
+            Last changed {new Date(config.updatedAt).toLocaleString()}
+            {config.updatedBy ? ` by ${config.updatedBy.name}` : ""}
+          </span>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,48 @@
+import { FileDown, Printer } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { DocumentOptions } from "@/lib/api";
+
+interface PrintButtonProps {
+  /** Builds the document URL for a format, e.g. `(opts) => kotUrl(order.id, opts)` */
+  documentUrl: (options: DocumentOptions) => string;
+  label?: string;
+  size?: ButtonProps["size"];
+  variant?: ButtonProps["variant"];
+  className?: string;
+}
+
+const open = (url: string) => window.open(url, "_blank", "noopener");
+
+// Print in the browser, or fetch the same document as PDF or thermal-printer output
+export const PrintButton = ({ documentUrl, label = "Print", size = "sm", variant = "outline", className }: PrintButtonProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button size={size} variant={variant} className={className}>
+        <Printer className="w-4 h-4 mr-2" />
+        {label}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={() => open(documentUrl({ format: "html", print: true }))}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => open(documentUrl({ format: "pdf", width: 80 }))}>
+        <FileDown className="mr-2 h-4 w-4" />
+        PDF
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onClick={() => open(documentUrl({ format: "text", width: 58 }))}>Thermal text · 58mm</DropdownMenuItem>
+      <DropdownMenuItem onClick={() => open(documentUrl({ format: "text", width: 80 }))}>Thermal text · 80mm</DropdownMenuItem>
+      <DropdownMenuItem onClick={() => open(documentUrl({ format: "escpos", width: 58 }))}>ESC/POS · 58mm</DropdownMenuItem>
+      <DropdownMenuItem onClick={() => open(documentUrl({ format: "escpos", width: 80 }))}>ESC/POS · 80mm</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Plus, Scissors, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { isApiError, useBill, useBillSplits, useSplitBill, type Bill, type BillSplitMode, type SplitBillRequest } from "@/lib/api";
+import { toast } from "sonner";
+
+interface SplitBillDialogProps {
+  billId: string | null;
+  onClose: () => void;
+}
+
+// Per line, how many units each diner takes (indexed [line][diner])
+type ItemGrid = number[][];
+
+const defaultDiners = ["Diner 1", "Diner 2"];
+
+export const SplitBillDialog = ({ billId, onClose }: SplitBillDialogProps) => {
+  const { data: bill } = useBill(billId);
+  const { data: existingSplits, refetch: refetchSplits } = useBillSplits(billId);
+  const splitMutation = useSplitBill();
+
+  const [mode, setMode] = useState<BillSplitMode>("even");
+  const [ways, setWays] = useState("2");
+  const [diners, setDiners] = useState<string[]>(defaultDiners);
+  const [grid, setGrid] = useState<ItemGrid>([]);
+  const [amounts, setAmounts] = useState<string[]>(["", ""]);
+
+  // Start every line on the first diner whenever a different bill is opened
+  useEffect(() => {
+    if (!bill) return;
+    setDiners(defaultDiners);
+    setGrid(bill.items.map((it) => [it.quantity || 1, 0]));
+    setAmounts(["", ""]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bill?.id]);
+
+  const addDiner = () => {
+    setDiners([...diners, `Diner ${diners.length + 1}`]);
+    setGrid(grid.map((row) => [...row, 0]));
+    setAmounts([...amounts, ""]);
+  };
+
+  const removeDiner = (idx: number) => {
+    if (diners.length <= 2) return;
+    setDiners(diners.filter((_, i) => i !== idx));
+    setGrid(grid.map((row) => row.filter((_, i) => i !== idx)));
+    setAmounts(amounts.filter((_, i) => i !== idx));
+  };
+
+  const setUnits = (line: number, diner: number, value: string) => {
+    const units = Math.max(0, parseInt(value, 10) || 0);
+    setGrid(grid.map((row, i) => (i === line ? row.map((q, j) => (j === diner ? units : q)) : row)));
+  };
+
+  // compare in paise so ₹0.10 + ₹0.20 still matches a ₹0.30 total
+  const amountsTotal = amounts.reduce((s, a) => s + Math.round((parseFloat(a) || 0) * 100), 0) / 100;
+
+  const buildRequest = (): SplitBillRequest => {
+    if (mode === "even") return { mode, ways: parseInt(ways, 10) || 0 };
+    if (mode === "items") {
+      return {
+        mode,
+        assignments: diners.map((diner, d) => ({
+          diner,
+          lines: grid.map((row, index) => ({ index, quantity: row[d] || 0 })).filter((l) => l.quantity > 0),
+        })),
+      };
+    }
+    return { mode, amounts: diners.map((diner, d) => ({ diner, amount: parseFloat(amounts[d]) || 0 })) };
+  };
+
+  const handleSplit = async () => {
+    if (!billId) return;
+    try {
+      const result = await splitMutation.mutateAsync({ id: billId, split: buildRequest() });
+      toast.success(`Bill split into ${result.splits.length} parts`);
+      refetchSplits();
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to split bill");
+    }
+  };
+
+  const renderDinerNames = () => (
+    <div className="space-y-2">
+      {diners.map((name, d) => (
+        <div key={d} className="flex items-center gap-2">
+          <Input value={name} onChange={(e) => setDiners(diners.map((n, i) => (i === d ? e.target.value : n)))} />
+          {mode === "amounts" && (
+            <Input
+              type="number"
+              step="0.01"
+              className="w-28"
+              placeholder="₹"
+              value={amounts[d] || ""}
+              onChange={(e) => setAmounts(amounts.map((a, i) => (i === d ? e.target.value : a)))}
+            />
+          )}
+          <Button variant="ghost" size="icon" disabled={diners.length <= 2} onClick={() => removeDiner(d)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addDiner}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add diner
+      </Button>
+    </div>
+  );
+
+  const renderSplits = (splits: Bill[]) => (
+    <div className="space-y-2 border-t pt-4">
+      <h4 className="font-semibold">Current split</h4>
+      {splits.map((s) => (
+        <div key={s.id} className="flex items-center justify-between text-sm p-2 rounded bg-muted/50">
+          <span>
+            {s.customerName}
+            <span className="text-muted-foreground ml-2">
+              ₹{s.subtotal} + tax ₹{s.tax} + service ₹{s.service}
+            </span>
+          </span>
+          <span className="font-semibold">₹{s.total}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={!!billId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split Bill</DialogTitle>
+          <DialogDescription>
+            {bill ? `${bill.invoiceNumber || bill.id} · Table ${bill.tableNumber ?? "-"} · Total ₹${bill.total}` : "Loading bill..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {bill && (
+          <Tabs value={mode} onValueChange={(v) => setMode(v as BillSplitMode)}>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="even">Evenly</TabsTrigger>
+              <TabsTrigger value="items">By item</TabsTrigger>
+              <TabsTrigger value="amounts">Custom</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="even" className="space-y-2">
+              <Label htmlFor="split-ways">Number of people</Label>
+              <Input id="split-ways" type="number" min={2} max={20} value={ways} onChange={(e) => setWays(e.target.value)} />
+            </TabsContent>
+
+            <TabsContent value="items" className="space-y-4">
+              {renderDinerNames()}
+              <div className="space-y-2">
+                {bill.items.map((it, line) => {
+                  const assigned = (grid[line] || []).reduce((s, q) => s + q, 0);
+                  const quantity = it.quantity || 1;
+                  return (
+                    <div key={line} className="p-2 rounded border space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">
+                          {it.name} × {quantity}
+                        </span>
+                        <span className={assigned === quantity ? "text-muted-foreground" : "text-destructive"}>
+                          {assigned}/{quantity} assigned
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {diners.map((name, d) => (
+                          <label key={d} className="flex items-center gap-1 text-xs">
+                            {name}
+                            <Input
+                              type="number"
+                              min={0}
+                              className="w-16 h-8"
+                              value={grid[line]?.[d] ?? 0}
+                              onChange={(e) => setUnits(line, d, e.target.value)}
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="amounts" className="space-y-2">
+              {renderDinerNames()}
+              <p className={`text-sm ${amountsTotal === bill.total ? "text-muted-foreground" : "text-destructive"}`}>
+                ₹{amountsTotal} of ₹{bill.total} allocated
+              </p>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <Button onClick={handleSplit} disabled={!bill || splitMutation.isPending}>
+          <Scissors className="w-4 h-4 mr-2" />
+          {existingSplits && existingSplits.length > 0 ? "Replace Split" : "Split Bill"}
+        </Button>
+
+        {existingSplits && existingSplits.length > 0 && renderSplits(existingSplits)}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Pencil, Plus, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { isApiError, useSaveStaff, useStaff, type AuthUser, type StaffMember, type StaffRole } from "@/lib/api";
+import { hasRole } from "@/lib/auth";
+
+interface StaffManagementProps {
+  currentUser: AuthUser | null;
+}
+
+const ROLES: StaffRole[] = ["kitchen", "manager", "admin"];
+
+type StaffForm = { name: string; role: StaffRole; pin: string; active: boolean };
+
+const emptyForm: StaffForm = { name: "", role: "kitchen", pin: "", active: true };
+
+export const StaffManagement = ({ currentUser }: StaffManagementProps) => {
+  const { data: staff = [], isLoading } = useStaff();
+  const saveStaff = useSaveStaff();
+  const [editing, setEditing] = useState<StaffMember | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<StaffForm>(emptyForm);
+
+  // Managers can hand out roles up to their own
+  const grantable = ROLES.filter((role) => hasRole(currentUser, role));
+
+  const openNew = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (member: StaffMember) => {
+    setEditing(member);
+    setForm({ name: member.name, role: member.role, pin: "", active: member.active });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return toast.error("Please enter a name");
+    if (!editing && !/^[0-9]{4,6}$/.test(form.pin)) return toast.error("PIN must be 4 to 6 digits");
+    try {
+      await saveStaff.mutateAsync({
+        id: editing?.id,
+        member: { name: form.name.trim(), role: form.role, active: form.active, pin: form.pin || undefined },
+      });
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to save staff member");
+      return;
+    }
+    toast.success(editing ? "Staff member updated" : "Staff member added");
+    setIsDialogOpen(false);
+  };
+
+  const toggleActive = async (member: StaffMember) => {
+    try {
+      await saveStaff.mutateAsync({ id: member.id, member: { active: !member.active } });
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to update staff member");
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Staff</h2>
+          <p className="text-muted-foreground">People who can unlock the kitchen with a PIN</p>
+        </div>
+        <Button onClick={openNew} size="lg">
+          <Plus className="w-5 h-5 mr-2" />
+          Add Staff
+        </Button>
+      </div>
+
+      {isLoading && <Card className="p-12 text-center text-muted-foreground">Loading staff...</Card>}
+      {!isLoading && staff.length === 0 && <Card className="p-12 text-center text-muted-foreground">No staff accounts yet</Card>}
+
+      <div className="space-y-3">
+        {staff.map((member) => (
+          <Card key={member.id} className="p-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <span className={`font-semibold ${member.active ? "" : "text-muted-foreground line-through"}`}>{member.name}</span>
+              <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                checked={member.active}
+                disabled={!hasRole(currentUser, member.role)}
+                onCheckedChange={() => toggleActive(member)}
+                aria-label="Active"
+              />
+              <Button variant="ghost" size="icon" disabled={!hasRole(currentUser, member.role)} onClick={() => openEdit(member)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Staff Member" : "Add Staff Member"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="staff-name">Name</Label>
+              <Input id="staff-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as StaffRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grantable.map((role) => (
+                    <SelectItem key={role} value={role} className="capitalize">
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="staff-pin">PIN</Label>
+              <Input
+                id="staff-pin"
+                inputMode="numeric"
+                maxLength={6}
+                placeholder={editing ? "Leave blank to keep the current PIN" : "4 to 6 digits"}
+                value={form.pin}
+                onChange={(e) => setForm({ ...form, pin: e.target.value.replace(/[^0-9]/g, "") })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="staff-active">Active</Label>
+              <Switch id="staff-active" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button onClick={handleSave} className="flex-1" disabled={saveStaff.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button onClick={() => setIsDialogOpen(false)} variant="outline" className="flex-1">
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
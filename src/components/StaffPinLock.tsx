@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft, Delete, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { isApiError, pinLogin, useStaffDirectory, type AuthSession, type StaffDirectoryEntry } from "@/lib/api";
+import { saveSession } from "@/lib/auth";
+
+interface StaffPinLockProps {
+  /** Staff member to go straight to the PIN pad for, e.g. after an auto-lock */
+  rememberedId?: string | null;
+  onUnlock: (session: AuthSession) => void;
+  onExit?: () => void;
+}
+
+const MIN_PIN = 4;
+const MAX_PIN = 6;
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+// Full-screen lock for shared kitchen tablets: pick your name, then enter your PIN
+export const StaffPinLock = ({ rememberedId, onUnlock, onExit }: StaffPinLockProps) => {
+  const { data: staff = [], isLoading } = useStaffDirectory();
+  const [selected, setSelected] = useState<StaffDirectoryEntry | null>(null);
+  const [pin, setPin] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [usedRemembered, setUsedRemembered] = useState(false);
+
+  // Preselect once; "back" still leads to the full list
+  useEffect(() => {
+    if (usedRemembered || !rememberedId || staff.length === 0) return;
+    setSelected(staff.find((m) => m.id === rememberedId) || null);
+    setUsedRemembered(true);
+  }, [rememberedId, staff, usedRemembered]);
+
+  const press = (digit: string) => setPin((p) => (p.length < MAX_PIN ? p + digit : p));
+  const backspace = () => setPin((p) => p.slice(0, -1));
+
+  const submit = async () => {
+    if (!selected || pin.length < MIN_PIN || submitting) return;
+    setSubmitting(true);
+    try {
+      const session = await pinLogin({ staffId: selected.id, pin });
+      saveSession(session);
+      onUnlock(session);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Could not sign in");
+    } finally {
+      setPin("");
+      setSubmitting(false);
+    }
+  };
+
+  // Hardware keyboards work on the PIN pad too
+  useEffect(() => {
+    if (!selected) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (/^[0-9]$/.test(e.key)) press(e.key);
+      else if (e.key === "Backspace") backspace();
+      else if (e.key === "Enter") submit();
+      else if (e.key === "Escape") setSelected(null);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
+            <Lock className="w-6 h-6 text-primary" />
+          </div>
+          <h2 className="text-2xl font-bold">{selected ? selected.name : "Who's working?"}</h2>
+          <p className="text-muted-foreground">{selected ? "Enter your PIN" : "Tap your name to unlock the kitchen"}</p>
+        </div>
+
+        {!selected ? (
+          <div className="space-y-3">
+            {isLoading && <p className="text-center text-muted-foreground">Loading staff...</p>}
+            {!isLoading && staff.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                No staff accounts yet. A manager can add them from the Staff tab after signing in.
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              {staff.map((member) => (
+                <Button key={member.id} variant="outline" className="h-16 flex flex-col gap-1" onClick={() => setSelected(member)}>
+                  <span className="font-semibold">{member.name}</span>
+                  <Badge variant="secondary" className="text-[10px] capitalize">{member.role}</Badge>
+                </Button>
+              ))}
+            </div>
+            {onExit && (
+              <Button variant="ghost" className="w-full" onClick={onExit}>
+                Back
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex justify-center gap-3">
+              {Array.from({ length: MAX_PIN }).map((_, i) => (
+                <div key={i} className={`w-4 h-4 rounded-full border-2 border-primary ${i < pin.length ? "bg-primary" : ""}`} />
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {KEYS.map((digit) => (
+                <Button key={digit} variant="outline" className="h-16 text-2xl" onClick={() => press(digit)}>
+                  {digit}
+                </Button>
+              ))}
+              <Button variant="ghost" className="h-16" onClick={() => { setSelected(null); setPin(""); }}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <Button variant="outline" className="h-16 text-2xl" onClick={() => press("0")}>
+                0
+              </Button>
+              <Button variant="ghost" className="h-16" onClick={backspace}>
+                <Delete className="w-5 h-5" />
+              </Button>
+            </div>
+            <Button className="w-full h-12" disabled={pin.length < MIN_PIN || submitting} onClick={submit}>
+              Unlock
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
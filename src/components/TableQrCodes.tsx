@@ -0,0 +1,69 @@
+import { Printer, QrCode, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "sonner";
+import { isApiError, useRotateTableLink, useTableLinks, type TableLink } from "@/lib/api";
+
+// QR links open the customer app this page is served from
+const baseUrl = window.location.origin;
+
+// Printable sheet of table QR codes; each code binds the diner's order to its table
+export const TableQrCodes = () => {
+  const { data: tables = [], isLoading, error } = useTableLinks(baseUrl);
+  const rotateLink = useRotateTableLink();
+
+  const handleRotate = async (table: TableLink) => {
+    if (!window.confirm(`Replace the QR code for ${table.label}? The printed code will stop working.`)) return;
+    try {
+      await rotateLink.mutateAsync({ tableNumber: table.tableNumber, baseUrl });
+      toast.success(`New QR code for ${table.label}; print and replace it`);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to replace the QR code");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <div>
+          <h2 className="text-2xl font-bold">Table QR Codes</h2>
+          <p className="text-muted-foreground">Diners scan the code on their table to order without typing a table number</p>
+        </div>
+        <Button onClick={() => window.print()} size="lg" disabled={tables.length === 0}>
+          <Printer className="w-5 h-5 mr-2" />
+          Print Sheet
+        </Button>
+      </div>
+
+      {isLoading && <Card className="p-12 text-center text-muted-foreground">Loading tables...</Card>}
+      {error && (
+        <Card className="p-12 text-center text-muted-foreground">
+          {isApiError(error) ? error.message : "Failed to load table QR codes"}
+        </Card>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 print:grid-cols-3">
+        {tables.map((table) => (
+          <Card key={table.tableNumber} className="p-4 flex flex-col items-center gap-2 break-inside-avoid">
+            <div className="flex items-center gap-2 font-bold text-lg">
+              <QrCode className="w-5 h-5 text-primary print:hidden" />
+              {table.label}
+            </div>
+            <div className="w-40 h-40" dangerouslySetInnerHTML={{ __html: table.qrSvg }} />
+            <p className="text-xs text-muted-foreground">Scan to order</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="print:hidden"
+              disabled={rotateLink.isPending}
+              onClick={() => handleRotate(table)}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Replace code
+            </Button>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
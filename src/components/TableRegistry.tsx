@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Pencil, Plus, Save, Trash2, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { isApiError, useDeleteTable, useSaveTable, useTables, type Table, type TableArea } from "@/lib/api";
+import { TABLE_AREAS } from "@/lib/tables";
+
+type TableForm = { tableNumber: string; label: string; area: TableArea; seats: string; active: boolean };
+
+const emptyForm: TableForm = { tableNumber: "", label: "", area: "indoor", seats: "4", active: true };
+
+// Manager list of tables: number, label, area, seats and whether diners can order there
+export const TableRegistry = () => {
+  const { data: tables = [], isLoading } = useTables();
+  const saveTable = useSaveTable();
+  const deleteTable = useDeleteTable();
+  const [editing, setEditing] = useState<Table | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<TableForm>(emptyForm);
+
+  const openNew = () => {
+    const next = tables.reduce((max, t) => Math.max(max, t.tableNumber), 0) + 1;
+    setEditing(null);
+    setForm({ ...emptyForm, tableNumber: String(next) });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (table: Table) => {
+    setEditing(table);
+    setForm({ tableNumber: String(table.tableNumber), label: table.label, area: table.area, seats: String(table.seats), active: table.active });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const tableNumber = parseInt(form.tableNumber);
+    if (!editing && !(tableNumber > 0)) return toast.error("Please enter a table number");
+    try {
+      await saveTable.mutateAsync({
+        tableNumber: editing?.tableNumber,
+        table: { tableNumber, label: form.label.trim(), area: form.area, seats: parseInt(form.seats), active: form.active },
+      });
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to save table");
+      return;
+    }
+    toast.success(editing ? "Table updated" : "Table added");
+    setIsDialogOpen(false);
+  };
+
+  const toggleActive = async (table: Table) => {
+    try {
+      await saveTable.mutateAsync({ tableNumber: table.tableNumber, table: { active: !table.active } });
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to update table");
+    }
+  };
+
+  const handleDelete = async (table: Table) => {
+    if (!window.confirm(`Remove ${table.label}? Its QR code will stop working.`)) return;
+    try {
+      await deleteTable.mutateAsync(table.tableNumber);
+      toast.success(`${table.label} removed`);
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to remove table");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Tables</h2>
+          <p className="text-muted-foreground">Inactive tables don't accept orders and are left off the floor plan</p>
+        </div>
+        <Button onClick={openNew} size="lg">
+          <Plus className="w-5 h-5 mr-2" />
+          Add Table
+        </Button>
+      </div>
+
+      {isLoading && <Card className="p-12 text-center text-muted-foreground">Loading tables...</Card>}
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {tables.map((table) => (
+          <Card key={table.tableNumber} className="p-4 flex items-center justify-between gap-3">
+            <div className="space-y-1 min-w-0">
+              <div className={`font-semibold truncate ${table.active ? "" : "text-muted-foreground line-through"}`}>
+                {table.label} <span className="text-xs text-muted-foreground">#{table.tableNumber}</span>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="secondary">{TABLE_AREAS.find((a) => a.id === table.area)?.label || table.area}</Badge>
+                <Users className="w-3 h-3" />
+                {table.seats}
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <Switch checked={table.active} onCheckedChange={() => toggleActive(table)} aria-label="Active" />
+              <Button variant="ghost" size="icon" onClick={() => openEdit(table)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="text-destructive" onClick={() => handleDelete(table)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.label}` : "Add Table"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="table-number">Table Number</Label>
+                <Input
+                  id="table-number"
+                  type="number"
+                  min="1"
+                  disabled={!!editing}
+                  value={form.tableNumber}
+                  onChange={(e) => setForm({ ...form, tableNumber: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="table-seats">Seats</Label>
+                <Input id="table-seats" type="number" min="1" value={form.seats} onChange={(e) => setForm({ ...form, seats: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="table-label">Label</Label>
+              <Input
+                id="table-label"
+                placeholder={`Table ${form.tableNumber || ""}`.trim()}
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Area</Label>
+              <Select value={form.area} onValueChange={(area) => setForm({ ...form, area: area as TableArea })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TABLE_AREAS.map((area) => (
+                    <SelectItem key={area.id} value={area.id}>
+                      {area.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="table-active">Taking orders</Label>
+              <Switch id="table-active" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button onClick={handleSave} className="flex-1" disabled={saveTable.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button onClick={() => setIsDialogOpen(false)} variant="outline" className="flex-1">
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { isApiError, useMenuItems, useTaxConfig, useUpdateTaxConfig, type Actor, type TaxConfig } from "@/lib/api";
+
+interface TaxSettingsProps {
+  actor?: Actor;
+}
+
+// Form values are kept as strings so fields can be cleared while typing
+type TaxForm = {
+  pricesIncludeTax: boolean;
+  defaultGstRate: string;
+  categoryRates: Record<string, string>;
+  splitGst: boolean;
+  serviceEnabled: boolean;
+  serviceRate: string;
+  serviceDeclinable: boolean;
+  defaultHsn: string;
+  business: TaxConfig["business"];
+};
+
+const toForm = (config: TaxConfig): TaxForm => ({
+  pricesIncludeTax: config.pricesIncludeTax,
+  defaultGstRate: String(config.defaultGstRate),
+  categoryRates: Object.fromEntries(Object.entries(config.categoryRates).map(([c, r]) => [c, String(r)])),
+  splitGst: config.splitGst,
+  serviceEnabled: config.serviceCharge.enabled,
+  serviceRate: String(config.serviceCharge.rate),
+  serviceDeclinable: config.serviceCharge.declinable,
+  defaultHsn: config.defaultHsn,
+  business: config.business,
+});
+
+export const TaxSettings = ({ actor }: TaxSettingsProps) => {
+  const { data: config } = useTaxConfig();
+  const { data: menuItems = [] } = useMenuItems();
+  const updateTaxConfig = useUpdateTaxConfig();
+  const [form, setForm] = useState<TaxForm | null>(null);
+
+  useEffect(() => {
+    if (config) setForm(toForm(config));
+  }, [config]);
+
+  // Menu categories plus any category that still has a rate configured
+  const categories = useMemo(() => {
+    const names = new Set(menuItems.map((it) => it.category));
+    Object.keys(config?.categoryRates || {}).forEach((c) => names.add(c));
+    return Array.from(names).sort();
+  }, [menuItems, config]);
+
+  if (!form) {
+    return <Card className="p-12 text-center text-muted-foreground">Loading tax settings...</Card>;
+  }
+
+  const setBusiness = (changes: Partial<TaxConfig["business"]>) => setForm({ ...form, business: { ...form.business, ...changes } });
+
+  const handleSave = async () => {
+    const categoryRates = Object.fromEntries(
+      Object.entries(form.categoryRates)
+        .filter(([, rate]) => rate.trim() !== "")
+        .map(([c, rate]) => [c, Number(rate)])
+    );
+    try {
+      await updateTaxConfig.mutateAsync({
+        pricesIncludeTax: form.pricesIncludeTax,
+        defaultGstRate: Number(form.defaultGstRate),
+        categoryRates,
+        splitGst: form.splitGst,
+        serviceCharge: { enabled: form.serviceEnabled, rate: Number(form.serviceRate), declinable: form.serviceDeclinable },
+        defaultHsn: form.defaultHsn,
+        business: form.business,
+        actor,
+      });
+      toast.success("Tax settings saved");
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to save tax settings");
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div>
+        <h2 className="text-2xl font-bold">Tax & Service Charge</h2>
+        <p className="text-muted-foreground">Changes apply to bills generated from now on</p>
+      </div>
+
+      <Card className="p-6 space-y-4">
+        <h3 className="font-semibold">Invoice details</h3>
+        <div>
+          <Label htmlFor="business-name">Business name</Label>
+          <Input id="business-name" value={form.business.name} onChange={(e) => setBusiness({ name: e.target.value })} />
+        </div>
+        <div>
+          <Label htmlFor="business-address">Address</Label>
+          <Input id="business-address" value={form.business.address} onChange={(e) => setBusiness({ address: e.target.value })} />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="business-gstin">GSTIN</Label>
+            <Input
+              id="business-gstin"
+              placeholder="e.g. 29ABCDE1234F1Z5"
+              value={form.business.gstin}
+              onChange={(e) => setBusiness({ gstin: e.target.value.toUpperCase() })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="invoice-prefix">Invoice number prefix</Label>
+            <Input id="invoice-prefix" value={form.business.invoicePrefix} onChange={(e) => setBusiness({ invoicePrefix: e.target.value })} />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="business-upi">UPI ID</Label>
+          <Input
+            id="business-upi"
+            placeholder="e.g. snappyserve@okaxis"
+            value={form.business.upiId ?? ""}
+            onChange={(e) => setBusiness({ upiId: e.target.value })}
+          />
+          <p className="text-sm text-muted-foreground mt-1">UPI payment QR codes on bills pay into this account</p>
+        </div>
+        <div>
+          <Label htmlFor="default-hsn">Default HSN/SAC code</Label>
+          <Input id="default-hsn" value={form.defaultHsn} onChange={(e) => setForm({ ...form, defaultHsn: e.target.value })} />
+          <p className="text-sm text-muted-foreground mt-1">Used for menu items without their own code</p>
+        </div>
+      </Card>
+
+      <Card className="p-6 space-y-4">
+        <h3 className="font-semibold">GST</h3>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="prices-include-tax">Menu prices include GST</Label>
+          <Switch id="prices-include-tax" checked={form.pricesIncludeTax} onCheckedChange={(v) => setForm({ ...form, pricesIncludeTax: v })} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="split-gst">Show as CGST + SGST</Label>
+          <Switch id="split-gst" checked={form.splitGst} onCheckedChange={(v) => setForm({ ...form, splitGst: v })} />
+        </div>
+        <div>
+          <Label htmlFor="default-gst">Default GST rate (%)</Label>
+          <Input
+            id="default-gst"
+            type="number"
+            value={form.defaultGstRate}
+            onChange={(e) => setForm({ ...form, defaultGstRate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Rate by category (%)</Label>
+          <p className="text-sm text-muted-foreground">Leave blank to use the default rate</p>
+          {categories.map((category) => (
+            <div key={category} className="flex items-center gap-3">
+              <span className="flex-1">{category}</span>
+              <Input
+                type="number"
+                className="w-28"
+                placeholder={form.defaultGstRate}
+                value={form.categoryRates[category] ?? ""}
+                onChange={(e) => setForm({ ...form, categoryRates: { ...form.categoryRates, [category]: e.target.value } })}
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <Card className="p-6 space-y-4">
+        <h3 className="font-semibold">Service charge</h3>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="service-enabled">Add service charge</Label>
+          <Switch id="service-enabled" checked={form.serviceEnabled} onCheckedChange={(v) => setForm({ ...form, serviceEnabled: v })} />
+        </div>
+        <div>
+          <Label htmlFor="service-rate">Service charge (%)</Label>
+          <Input
+            id="service-rate"
+            type="number"
+            disabled={!form.serviceEnabled}
+            value={form.serviceRate}
+            onChange={(e) => setForm({ ...form, serviceRate: e.target.value })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="service-declinable">Customers can decline it</Label>
+          <Switch
+            id="service-declinable"
+            disabled={!form.serviceEnabled}
+            checked={form.serviceDeclinable}
+            onCheckedChange={(v) => setForm({ ...form, serviceDeclinable: v })}
+          />
+        </div>
+      </Card>
+
+      <div className="flex items-center gap-4">
+        <Button onClick={handleSave} disabled={updateTaxConfig.isPending}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+        {config?.updatedAt && (
+          <span className="text-sm text-muted-foreground">
+            Last changed {new Date(config.updatedAt).toLocaleString()}
+            {config.updatedBy ? ` by ${config.updatedBy.name}` : ""}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { isApiError, voidOrder, voidOrderLine, type Order, type VoidReason } from "@/lib/api";
+import { orderLabel } from "@/lib/orders";
+import { VOID_REASONS } from "@/lib/voids";
+import { toast } from "sonner";
+
+/** What is being voided: a whole order, or one line of it (by index in `items`) */
+export type VoidTarget = { order: Order; lineIndex?: number };
+
+interface VoidDialogProps {
+  target: VoidTarget | null;
+  onClose: () => void;
+  onVoided: (order: Order) => void;
+}
+
+// Staff pick a reason code before an order or line is voided; the reason shows on the KOT and daily report
+export const VoidDialog = ({ target, onClose, onVoided }: VoidDialogProps) => {
+  const [reason, setReason] = useState<VoidReason | null>(null);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason(null);
+    setNote("");
+  }, [target]);
+
+  const line = target?.lineIndex !== undefined ? target.order.items[target.lineIndex] : null;
+
+  const handleVoid = async () => {
+    if (!target || !reason) return;
+    setSubmitting(true);
+    try {
+      const body = { reason, note: note.trim() || undefined };
+      const { order } = line
+        ? await voidOrderLine(target.order.id, target.lineIndex!, body)
+        : await voidOrder(target.order.id, body);
+      toast.success(line ? `${line.name} voided` : `Order ${orderLabel(target.order)} voided`);
+      onVoided(order);
+      onClose();
+    } catch (e) {
+      toast.error(isApiError(e) ? e.message : "Failed to void");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{line ? `Void ${line.quantity}x ${line.name}` : "Void Order"}</DialogTitle>
+          <DialogDescription>
+            {target ? `${orderLabel(target.order)} · Table ${target.order.tableNumber}` : ""}
+            {line ? " · the order total is recalculated" : " · the order is cancelled"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2">
+            {VOID_REASONS.map((r) => (
+              <Button key={r.id} variant={reason === r.id ? "default" : "outline"} onClick={() => setReason(r.id)}>
+                {r.label}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="void-note">Note (optional)</Label>
+            <Textarea id="void-note" maxLength={200} value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+
+        <Button variant="destructive" onClick={handleVoid} disabled={!reason || submitting}>
+          <Ban className="w-4 h-4 mr-2" />
+          {line ? "Void Line" : "Void Order"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
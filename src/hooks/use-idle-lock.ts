@@ -0,0 +1,29 @@
+import * as React from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel"] as const;
+
+/**
+ * Lock the screen after `timeoutMs` without pointer or keyboard activity.
+ * The timer only runs while `enabled` and unlocked.
+ */
+export function useIdleLock(timeoutMs: number, enabled = true) {
+  const [locked, setLocked] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!enabled || locked) return;
+    let timer = window.setTimeout(() => setLocked(true), timeoutMs);
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => setLocked(true), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, restart, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, restart));
+    };
+  }, [timeoutMs, enabled, locked]);
+
+  const lock = React.useCallback(() => setLocked(true), []);
+  const unlock = React.useCallback(() => setLocked(false), []);
+  return { locked, lock, unlock };
+}
@@ -0,0 +1,107 @@
+import * as React from "react";
+import { getAccessToken } from "@/lib/auth";
+import { buildUrl, type Bill, type Ingredient, type MenuAvailabilityChange, type Order, type OrderRound, type OrderStatus, type Payment, type TableSession } from "@/lib/api";
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const DEFAULT_FALLBACK_POLL_MS = 5000;
+
+export type OrderEvent =
+  | { type: "order.created"; order: Order; emittedAt: number }
+  | { type: "order.status_changed"; orderId: string; status: OrderStatus; previousStatus: OrderStatus; order: Order; emittedAt: number }
+  | { type: "order.updated"; order: Order; emittedAt: number }
+  | { type: "order.round_added"; order: Order; round: OrderRound; emittedAt: number }
+  | { type: "bill.requested"; tableNumber: number; orderIds: string[]; customerName: string; emittedAt: number }
+  | { type: "bill.generated"; bill: Bill; orderId: string | null; sessionId: string | null; emittedAt: number }
+  | { type: "bill.split"; bill: Bill; splits: Bill[]; emittedAt: number }
+  | { type: "bill.credited"; bill: Bill; creditNote: Bill; emittedAt: number }
+  | { type: "bill.payment"; bill: Bill; payment: Payment; emittedAt: number }
+  | { type: "session.updated"; session: TableSession; emittedAt: number }
+  | { type: "inventory.updated"; ingredients: Ingredient[]; lowStock: Ingredient[]; menuChanges: MenuAvailabilityChange[]; emittedAt: number };
+
+const EVENT_TYPES: OrderEvent["type"][] = ["order.created", "order.status_changed", "order.updated", "order.round_added", "bill.requested", "bill.generated", "bill.split", "bill.credited", "bill.payment", "session.updated", "inventory.updated"];
+
+type UseOrderEventsOptions = {
+  /** Called on an interval while the event stream is down, so callers keep getting updates */
+  onFallbackPoll?: () => void;
+  fallbackPollMs?: number;
+  enabled?: boolean;
+  /** Follow only these orders (and their table session) on the diner stream; staff leave it out */
+  orderIds?: string[];
+};
+
+/**
+ * Subscribe to the backend's event stream (Server-Sent Events): `/events` for signed-in staff,
+ * `/events/diner` for a diner's own orders. EventSource can't send headers, so staff pass the
+ * access token in the URL; it is read again on every reconnect to pick up refreshed tokens.
+ * Reconnects with exponential backoff and falls back to polling while disconnected.
+ */
+export function useOrderEvents(onEvent: (event: OrderEvent) => void, options: UseOrderEventsOptions = {}) {
+  const { onFallbackPoll, fallbackPollMs = DEFAULT_FALLBACK_POLL_MS, enabled = true, orderIds } = options;
+  // Joined so a new array with the same orders doesn't reconnect
+  const followed = orderIds ? orderIds.join(",") : null;
+  const [connected, setConnected] = React.useState(false);
+
+  // Keep the latest callbacks in refs so re-renders don't tear down the connection
+  const onEventRef = React.useRef(onEvent);
+  const onFallbackPollRef = React.useRef(onFallbackPoll);
+  onEventRef.current = onEvent;
+  onFallbackPollRef.current = onFallbackPoll;
+
+  React.useEffect(() => {
+    // A diner with no orders yet has nothing to follow
+    if (!enabled || followed === "" || typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+    let retryTimer: number | undefined;
+    let attempt = 0;
+    let disposed = false;
+
+    const handleMessage = (e: MessageEvent) => {
+      try {
+        onEventRef.current(JSON.parse(e.data) as OrderEvent);
+      } catch (err) {
+        console.warn("Failed to parse order event", err);
+      }
+    };
+
+    const connect = () => {
+      if (disposed) return;
+      source = new EventSource(
+        followed !== null ? buildUrl("/events/diner", { orders: followed }) : buildUrl("/events", { token: getAccessToken() })
+      );
+      source.onopen = () => {
+        attempt = 0;
+        setConnected(true);
+      };
+      source.onerror = () => {
+        // Drop the browser's built-in retry and schedule our own with backoff
+        source?.close();
+        source = null;
+        setConnected(false);
+        const delay = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+        attempt += 1;
+        retryTimer = window.setTimeout(connect, delay);
+      };
+      EVENT_TYPES.forEach((type) => source?.addEventListener(type, handleMessage));
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [enabled, followed]);
+
+  // Polling fallback while the stream is unavailable
+  React.useEffect(() => {
+    if (!enabled || connected) return;
+    const iv = window.setInterval(() => onFallbackPollRef.current?.(), fallbackPollMs);
+    return () => clearInterval(iv);
+  }, [enabled, connected, fallbackPollMs]);
+
+  return { connected };
+}
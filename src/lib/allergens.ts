@@ -0,0 +1,25 @@
+/**
+ * Allergy flags customers can attach to an order; keys match server/orderNotes.js
+ */
+
+import type { Allergen } from "@/lib/api";
+
+export const ALLERGENS: { id: Allergen; label: string }[] = [
+    { id: "peanuts", label: "Peanuts" },
+    { id: "tree_nuts", label: "Tree nuts" },
+    { id: "dairy", label: "Dairy" },
+    { id: "gluten", label: "Gluten" },
+    { id: "egg", label: "Egg" },
+    { id: "soy", label: "Soy" },
+    { id: "sesame", label: "Sesame" },
+    { id: "fish", label: "Fish" },
+    { id: "shellfish", label: "Shellfish" },
+];
+
+/** Matches the server's limit on order and line notes */
+export const MAX_NOTE_LENGTH = 200;
+
+/** "Peanuts, Dairy" */
+export function describeAllergens(allergens: Allergen[] = []): string {
+    return allergens.map((a) => ALLERGENS.find((x) => x.id === a)?.label || a).join(", ");
+}
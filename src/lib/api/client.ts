@@ -0,0 +1,166 @@
+/**
+ * Low-level HTTP client for the backend API
+ * Adds request timeouts, retries for idempotent calls, the signed-in user's token and uniform ApiError objects
+ */
+
+import { clearSession, getAccessToken, getRefreshToken, saveSession } from "@/lib/auth";
+import type { AuthSession } from "./types";
+
+export const API_BASE_URL: string = (import.meta.env && import.meta.env.VITE_API_URL) || "http://localhost:4001";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const RETRY_BASE_DELAY_MS = 300;
+const IDEMPOTENT_METHODS = ["GET", "PUT", "DELETE"];
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type ApiErrorKind = "network" | "timeout" | "http" | "parse";
+
+/**
+ * Error thrown for every failed API call
+ * `status` is 0 when the request never got an HTTP response (network error or timeout)
+ */
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status: number;
+    readonly path: string;
+    readonly body?: unknown;
+
+    constructor(kind: ApiErrorKind, message: string, path: string, status = 0, body?: unknown) {
+        super(message);
+        this.name = "ApiError";
+        this.kind = kind;
+        this.status = status;
+        this.path = path;
+        this.body = body;
+    }
+
+    get isNotFound() {
+        return this.status === 404;
+    }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+    return error instanceof ApiError;
+}
+
+export type RequestOptions = {
+    method?: HttpMethod;
+    body?: unknown;
+    query?: Record<string, string | number | boolean | undefined | null>;
+    /** Abort the request after this many milliseconds (default 10s) */
+    timeoutMs?: number;
+    /** Number of retries on network errors / 5xx; only honoured for idempotent methods */
+    retries?: number;
+    signal?: AbortSignal;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function buildUrl(path: string, query?: RequestOptions["query"]) {
+    const url = new URL(path, API_BASE_URL);
+    Object.entries(query || {}).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== "") url.searchParams.set(key, String(value));
+    });
+    return url.toString();
+}
+
+async function readBody(res: Response, path: string) {
+    const text = await res.text();
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        if (!res.ok) return text;
+        throw new ApiError("parse", "Invalid JSON in response", path, res.status, text);
+    }
+}
+
+async function attempt<T>(path: string, options: RequestOptions): Promise<T> {
+    const { method = "GET", body, query, timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+        const headers: Record<string, string> = {};
+        if (body !== undefined) headers["Content-Type"] = "application/json";
+        const token = getAccessToken();
+        if (token) headers.Authorization = `Bearer ${token}`;
+        const res = await fetch(buildUrl(path, query), {
+            method,
+            headers,
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+            signal: controller.signal,
+        });
+        const data = await readBody(res, path);
+        if (!res.ok) {
+            const message = (data && typeof data === "object" && "message" in data && String(data.message)) || `Request failed with status ${res.status}`;
+            throw new ApiError("http", message, path, res.status, data);
+        }
+        return data as T;
+    } catch (error) {
+        if (isApiError(error)) throw error;
+        if (timedOut) throw new ApiError("timeout", `Request timed out after ${timeoutMs}ms`, path);
+        throw new ApiError("network", "Failed to connect to server", path);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+// One refresh at a time; concurrent 401s wait for the same exchange
+let refreshing: Promise<boolean> | null = null;
+
+/** Swap the stored refresh token for a new session; clears the session when it is no longer valid */
+function refreshSession(): Promise<boolean> {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return Promise.resolve(false);
+    refreshing ??= attempt<AuthSession>("/auth/refresh", { method: "POST", body: { refreshToken } })
+        .then((session) => {
+            saveSession(session);
+            return true;
+        })
+        .catch((error) => {
+            if (isApiError(error) && error.status === 401) clearSession();
+            return false;
+        })
+        .finally(() => {
+            refreshing = null;
+        });
+    return refreshing;
+}
+
+/**
+ * Perform a JSON request against the backend
+ * An expired access token is refreshed once and the request repeated
+ * @throws ApiError
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || "GET";
+    const retries = IDEMPOTENT_METHODS.includes(method) ? options.retries ?? 2 : 0;
+    let refreshed = false;
+
+    for (let i = 0; ; i++) {
+        try {
+            return await attempt<T>(path, options);
+        } catch (error) {
+            if (isApiError(error) && error.status === 401 && !refreshed && !path.startsWith("/auth/")) {
+                refreshed = true;
+                if (await refreshSession()) {
+                    i--;
+                    continue;
+                }
+            }
+            const retryable = isApiError(error) && (error.kind === "network" || error.kind === "timeout" || RETRYABLE_STATUSES.includes(error.status));
+            if (!retryable || i >= retries || options.signal?.aborted) throw error;
+            await sleep(RETRY_BASE_DELAY_MS * 2 ** i);
+        }
+    }
+}
@@ -0,0 +1,294 @@
+/**
+ * Typed wrappers around each backend endpoint
+ */
+
+import { API_BASE_URL, apiRequest, buildUrl, isApiError } from "./client";
+import type {
+    Actor,
+    AddOrderRoundRequest,
+    AddOrderRoundResponse,
+    Bill,
+    CreateBillRequest,
+    CreateBillResponse,
+    CreateOrderRequest,
+    CreateOrderResponse,
+    CreditNoteRequest,
+    CreditNoteResponse,
+    DailyReport,
+    DocumentOptions,
+    IngredientInput,
+    InventoryResponse,
+    MenuItem,
+    MenuItemInput,
+    MenuItemResponse,
+    MenuResponse,
+    Order,
+    OrderHistoryPage,
+    OrderHistoryQuery,
+    OrderLineError,
+    OrderValidationErrorBody,
+    PaymentResponse,
+    PinLoginRequest,
+    PrepTargets,
+    PrepTargetsInput,
+    RecipeLine,
+    RecordPaymentRequest,
+    RefreshSessionResponse,
+    ReopenOrderRequest,
+    ReopenOrderResponse,
+    RequestBillResponse,
+    ResolveTableResponse,
+    RotateTableLinkResponse,
+    SaveIngredientResponse,
+    SaveRecipeResponse,
+    SaveStaffResponse,
+    SaveTableResponse,
+    SplitBillRequest,
+    SplitBillResponse,
+    StaffDirectoryEntry,
+    StaffInput,
+    StaffMember,
+    StockAdjustment,
+    Table,
+    TableInput,
+    TableLink,
+    TableSession,
+    TableSessionStatus,
+    TableSessionSummary,
+    CloseSessionResponse,
+    SuccessResponse,
+    TaxConfig,
+    TaxConfigInput,
+    TelegramOtpRequest,
+    TelegramOtpResponse,
+    TelegramVerifyRequest,
+    TelegramVerifyResponse,
+    UpdateOrderRequest,
+    UpdateOrderResponse,
+    UpdatePrepTargetsResponse,
+    UpdateTaxConfigResponse,
+    VoidRequest,
+} from "./types";
+
+// ---- Menu ----
+
+export const getMenu = () => apiRequest<MenuResponse>("/menu");
+
+/** Flatten the category-grouped menu into a single list */
+export const getMenuItems = async (): Promise<MenuItem[]> => {
+    const grouped = await getMenu();
+    return Object.entries(grouped).flatMap(([category, items]) =>
+        (items || []).map((it) => ({ ...it, category, available: it.available ?? true }))
+    );
+};
+
+export const createMenuItem = (item: MenuItemInput) =>
+    apiRequest<MenuItemResponse>("/menu", { method: "POST", body: item });
+
+export const updateMenuItem = (id: string, item: Partial<MenuItemInput>) =>
+    apiRequest<MenuItemResponse>(`/menu/${encodeURIComponent(id)}`, { method: "PUT", body: item });
+
+export const deleteMenuItem = (id: string) =>
+    apiRequest<MenuItemResponse>(`/menu/${encodeURIComponent(id)}`, { method: "DELETE" });
+
+// ---- Orders ----
+
+/** Pass `openOnly` to leave out completed and cancelled orders */
+export const listOrders = (options: { openOnly?: boolean } = {}) =>
+    apiRequest<Order[]>("/orders", { query: { scope: options.openOnly ? "open" : undefined } });
+
+export const listOrderHistory = ({ status, ...query }: OrderHistoryQuery = {}, cursor?: string) =>
+    apiRequest<OrderHistoryPage>("/orders/history", { query: { ...query, status: status?.join(","), cursor } });
+
+export const getOrder = (id: string) => apiRequest<Order>(`/orders/${encodeURIComponent(id)}`);
+
+export const createOrder = (order: CreateOrderRequest) =>
+    apiRequest<CreateOrderResponse>("/orders", { method: "POST", body: order });
+
+/** Lines the server refused (unknown, unavailable, bad options or notes); [] for any other failure */
+export const orderLineErrors = (error: unknown): OrderLineError[] =>
+    isApiError(error) && error.status === 400 ? (error.body as OrderValidationErrorBody)?.errors || [] : [];
+
+export const updateOrder = (id: string, changes: UpdateOrderRequest) =>
+    apiRequest<UpdateOrderResponse>(`/orders/${encodeURIComponent(id)}`, { method: "PATCH", body: changes });
+
+/** Customer cancels their own order (with the table's QR token if they didn't sign in); 409 once the kitchen starts on it or the grace window ends */
+export const cancelOrder = (id: string, tableToken?: string) =>
+    apiRequest<UpdateOrderResponse>(`/orders/${encodeURIComponent(id)}/cancel`, { method: "POST", body: { tableToken } });
+
+/** Add more items to an order the kitchen is still preparing; 409 once it is ready */
+export const addOrderRound = (id: string, body: AddOrderRoundRequest) =>
+    apiRequest<AddOrderRoundResponse>(`/orders/${encodeURIComponent(id)}/rounds`, { method: "POST", body });
+
+/** Staff void the whole order with a reason */
+export const voidOrder = (id: string, body: VoidRequest) =>
+    apiRequest<UpdateOrderResponse>(`/orders/${encodeURIComponent(id)}/void`, { method: "POST", body });
+
+/** Staff void one line (by its index in `items`); the order total is recomputed */
+export const voidOrderLine = (id: string, index: number, body: VoidRequest) =>
+    apiRequest<UpdateOrderResponse>(`/orders/${encodeURIComponent(id)}/items/${index}/void`, { method: "POST", body });
+
+/** A KDS station marks one line done; the order turns READY once every line is bumped */
+export const bumpOrderLine = (id: string, index: number) =>
+    apiRequest<UpdateOrderResponse>(`/orders/${encodeURIComponent(id)}/items/${index}/bump`, { method: "POST", body: {} });
+
+/** Undo a bump made by mistake, while the order is still being prepared */
+export const recallOrderLine = (id: string, index: number) =>
+    apiRequest<UpdateOrderResponse>(`/orders/${encodeURIComponent(id)}/items/${index}/bump`, { method: "DELETE" });
+
+// ---- Bills ----
+
+export const createBill = (bill: CreateBillRequest) =>
+    apiRequest<CreateBillResponse>("/bills", { method: "POST", body: bill });
+
+export const getBill = (id: string) => apiRequest<Bill>(`/bills/${encodeURIComponent(id)}`);
+
+export const getBillSplits = (id: string) => apiRequest<Bill[]>(`/bills/${encodeURIComponent(id)}/splits`);
+
+/** Divide a bill into child bills; splitting again replaces the previous split */
+export const splitBill = (id: string, split: SplitBillRequest) =>
+    apiRequest<SplitBillResponse>(`/bills/${encodeURIComponent(id)}/split`, { method: "POST", body: split });
+
+/** Take a cash, card or UPI payment; UPI comes back PENDING with a QR code to scan */
+export const recordPayment = (billId: string, payment: RecordPaymentRequest) =>
+    apiRequest<PaymentResponse>(`/bills/${encodeURIComponent(billId)}/payments`, { method: "POST", body: payment });
+
+/** Capture a pending UPI payment once it has arrived */
+export const confirmPayment = (billId: string, paymentId: string) =>
+    apiRequest<PaymentResponse>(`/bills/${encodeURIComponent(billId)}/payments/${encodeURIComponent(paymentId)}/confirm`, { method: "POST" });
+
+/** Drop a pending UPI payment, e.g. when the diner pays another way */
+export const cancelPayment = (billId: string, paymentId: string) =>
+    apiRequest<PaymentResponse>(`/bills/${encodeURIComponent(billId)}/payments/${encodeURIComponent(paymentId)}`, { method: "DELETE" });
+
+/** Manager reverses a whole bill with a credit note */
+export const issueCreditNote = (id: string, credit: CreditNoteRequest) =>
+    apiRequest<CreditNoteResponse>(`/bills/${encodeURIComponent(id)}/credit-note`, { method: "POST", body: credit });
+
+/** Manager sends a completed order (and any other order on its bill) back to READY, crediting the bill */
+export const reopenOrder = (id: string, request: ReopenOrderRequest = {}) =>
+    apiRequest<ReopenOrderResponse>(`/orders/${encodeURIComponent(id)}/reopen`, { method: "POST", body: request });
+
+/** Customer declines (or re-accepts) the service charge on an unsplit bill; diners who didn't sign in send their table's QR token */
+export const setServiceChargeDeclined = (id: string, declined: boolean, tableToken?: string) =>
+    apiRequest<CreateBillResponse>(`/bills/${encodeURIComponent(id)}/service-charge`, { method: "POST", body: { declined, tableToken } });
+
+/** Diner asks for the bill with their table's QR token: moves the table's served orders to BILL_REQUESTED */
+export const requestBill = (tableNumber: number, actor?: Actor, tableToken?: string) =>
+    apiRequest<RequestBillResponse>(`/tables/${tableNumber}/bill-request`, { method: "POST", body: { actor, tableToken } });
+
+// ---- Printable documents ----
+
+const documentQuery = ({ format, width, print }: DocumentOptions) => ({ format, width, print: print ? 1 : undefined });
+
+/** GST tax invoice for a bill (HTML by default) */
+export const invoiceUrl = (billId: string, options: DocumentOptions = {}) =>
+    buildUrl(`/bills/${encodeURIComponent(billId)}/invoice`, documentQuery(options));
+
+/** Kitchen order ticket for an order (HTML by default); pass `round` for only that round's lines */
+export const kotUrl = (orderId: string, options: DocumentOptions = {}, round?: number) =>
+    buildUrl(`/orders/${encodeURIComponent(orderId)}/kot`, { ...documentQuery(options), round });
+
+// ---- Table sessions ----
+
+/** Sessions without their orders; `openOnly` leaves out closed ones on the server */
+export const listSessions = (options: { status?: TableSessionStatus; openOnly?: boolean } = {}) =>
+    apiRequest<TableSessionSummary[]>("/sessions", { query: { status: options.status, scope: options.openOnly ? "open" : undefined } });
+
+/** Staff get every order at the table; diners pass their own order ids and get only the running total */
+export const getSession = (id: string, orderIds?: string[]) =>
+    apiRequest<TableSession>(`/sessions/${encodeURIComponent(id)}`, { query: { orders: orderIds?.join(",") } });
+
+export const getTableSession = (tableNumber: number, orderIds?: string[]) =>
+    apiRequest<TableSession>(`/tables/${tableNumber}/session`, { query: { orders: orderIds?.join(",") } });
+
+/** Mark a billed session as paid */
+export const closeSession = (id: string) =>
+    apiRequest<CloseSessionResponse>(`/sessions/${encodeURIComponent(id)}/close`, { method: "POST" });
+
+// ---- Tables ----
+
+export const listTables = () => apiRequest<Table[]>("/tables");
+
+export const createTable = (table: TableInput) => apiRequest<SaveTableResponse>("/tables", { method: "POST", body: table });
+
+export const updateTable = (tableNumber: number, changes: TableInput) =>
+    apiRequest<SaveTableResponse>(`/tables/${tableNumber}`, { method: "PUT", body: changes });
+
+/** Refused (409) while the table has an unpaid session */
+export const deleteTable = (tableNumber: number) => apiRequest<SuccessResponse>(`/tables/${tableNumber}`, { method: "DELETE" });
+
+// ---- Table QR links ----
+
+/** QR link for every active table, pointing at the customer app served from `baseUrl` */
+export const listTableLinks = (baseUrl: string) => apiRequest<TableLink[]>("/tables/links", { query: { baseUrl } });
+
+/** Table number for a scanned QR token; 403 when the link is forged or has been rotated */
+export const resolveTableToken = (token: string) => apiRequest<ResolveTableResponse>("/tables/resolve", { query: { t: token } });
+
+/** Replace a table's QR link; codes printed before stop working */
+export const rotateTableLink = (tableNumber: number, baseUrl: string) =>
+    apiRequest<RotateTableLinkResponse>(`/tables/${tableNumber}/rotate-link`, { method: "POST", query: { baseUrl } });
+
+// ---- Inventory ----
+
+export const getInventory = () => apiRequest<InventoryResponse>("/inventory");
+
+export const createIngredient = (ingredient: IngredientInput) =>
+    apiRequest<SaveIngredientResponse>("/inventory/ingredients", { method: "POST", body: ingredient });
+
+export const updateIngredient = (id: string, changes: IngredientInput) =>
+    apiRequest<SaveIngredientResponse>(`/inventory/ingredients/${encodeURIComponent(id)}`, { method: "PUT", body: changes });
+
+/** Restock or recount; staff below manager can do this too */
+export const adjustStock = (id: string, adjustment: StockAdjustment) =>
+    apiRequest<SaveIngredientResponse>(`/inventory/ingredients/${encodeURIComponent(id)}/adjust`, { method: "POST", body: adjustment });
+
+/** Replace what one serving of a menu item uses; an empty list removes the recipe */
+export const saveRecipe = (menuItemId: string, lines: RecipeLine[]) =>
+    apiRequest<SaveRecipeResponse>(`/inventory/recipes/${encodeURIComponent(menuItemId)}`, { method: "PUT", body: { lines } });
+
+// ---- Settings ----
+
+export const getTaxConfig = () => apiRequest<TaxConfig>("/settings/tax");
+
+export const updateTaxConfig = (config: TaxConfigInput) =>
+    apiRequest<UpdateTaxConfigResponse>("/settings/tax", { method: "PUT", body: config });
+
+export const getPrepTargets = () => apiRequest<PrepTargets>("/settings/prep-times");
+
+export const updatePrepTargets = (config: PrepTargetsInput) =>
+    apiRequest<UpdatePrepTargetsResponse>("/settings/prep-times", { method: "PUT", body: config });
+
+// ---- Reports ----
+
+export const getDailyReport = (date: string) => apiRequest<DailyReport>("/reports/daily", { query: { date } });
+
+// ---- Staff ----
+
+export const getStaffDirectory = () => apiRequest<StaffDirectoryEntry[]>("/staff/directory");
+
+export const listStaff = () => apiRequest<StaffMember[]>("/staff");
+
+export const createStaff = (member: StaffInput) => apiRequest<SaveStaffResponse>("/staff", { method: "POST", body: member });
+
+export const updateStaff = (id: string, changes: StaffInput) =>
+    apiRequest<SaveStaffResponse>(`/staff/${encodeURIComponent(id)}`, { method: "PUT", body: changes });
+
+// ---- Auth ----
+
+export const requestTelegramOtp = (body: TelegramOtpRequest) =>
+    apiRequest<TelegramOtpResponse>("/auth/telegram/otp", { method: "POST", body });
+
+export const verifyTelegramOtp = (body: TelegramVerifyRequest) =>
+    apiRequest<TelegramVerifyResponse>("/auth/telegram/verify", { method: "POST", body });
+
+/** Staff sign-in on a shared tablet */
+export const pinLogin = (body: PinLoginRequest) => apiRequest<RefreshSessionResponse>("/auth/pin", { method: "POST", body });
+
+/** Revokes the refresh token so it cannot mint new sessions */
+export const logout = (refreshToken?: string | null) =>
+    apiRequest<SuccessResponse>("/auth/logout", { method: "POST", body: { refreshToken: refreshToken || undefined } });
+
+/** Full-page redirect target that starts the Google OAuth flow */
+export const googleAuthUrl = `${API_BASE_URL}/auth/google`;
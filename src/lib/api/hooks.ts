@@ -0,0 +1,259 @@
+/**
+ * React Query hooks for the backend API
+ * Built on the QueryClientProvider set up in App.tsx
+ */
+
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as endpoints from "./endpoints";
+import type { Bill, CreditNoteRequest, IngredientInput, MenuItemInput, Order, OrderHistoryQuery, PrepTargetsInput, RecipeLine, RecordPaymentRequest, ReopenOrderRequest, SplitBillRequest, StaffInput, StockAdjustment, TableInput, TableLink, TaxConfigInput } from "./types";
+
+export const queryKeys = {
+    menu: ["menu"] as const,
+    menuItems: ["menu", "items"] as const,
+    orderHistories: ["orders", "history"] as const,
+    orderHistory: (query: OrderHistoryQuery) => ["orders", "history", query] as const,
+    bill: (id: string) => ["bills", id] as const,
+    billSplits: (id: string) => ["bills", id, "splits"] as const,
+    dailyReport: (date: string) => ["reports", "daily", date] as const,
+    taxConfig: ["settings", "tax"] as const,
+    prepTargets: ["settings", "prep-times"] as const,
+    staff: ["staff"] as const,
+    staffDirectory: ["staff", "directory"] as const,
+    tables: ["tables"] as const,
+    tableLinks: (baseUrl: string) => ["tables", "links", baseUrl] as const,
+    inventory: ["inventory"] as const,
+};
+
+// The API client already retries idempotent calls, so don't let React Query retry on top of it
+const noRetry = { retry: false } as const;
+
+export function useMenuItems() {
+    return useQuery({ queryKey: queryKeys.menuItems, queryFn: endpoints.getMenuItems, ...noRetry });
+}
+
+/** Order history pages for `query`; fetchNextPage follows the server's cursor */
+export function useOrderHistory(query: OrderHistoryQuery) {
+    return useInfiniteQuery({
+        queryKey: queryKeys.orderHistory(query),
+        queryFn: ({ pageParam }) => endpoints.listOrderHistory(query, pageParam),
+        initialPageParam: undefined as string | undefined,
+        getNextPageParam: (page) => page.nextCursor ?? undefined,
+        ...noRetry,
+    });
+}
+
+export function useBill(id: string | null | undefined) {
+    return useQuery({
+        queryKey: queryKeys.bill(id || ""),
+        queryFn: () => endpoints.getBill(id as string),
+        enabled: !!id,
+        ...noRetry,
+    });
+}
+
+export function useBillSplits(id: string | null | undefined) {
+    return useQuery({
+        queryKey: queryKeys.billSplits(id || ""),
+        queryFn: () => endpoints.getBillSplits(id as string),
+        enabled: !!id,
+        ...noRetry,
+    });
+}
+
+// Reversals change the bill, the order history and the day's takings
+const invalidateReversal = (queryClient: ReturnType<typeof useQueryClient>, billId: string) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.bill(billId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.orderHistories });
+    queryClient.invalidateQueries({ queryKey: ["reports"] });
+};
+
+export function useIssueCreditNote() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ billId, ...credit }: CreditNoteRequest & { billId: string }) => endpoints.issueCreditNote(billId, credit),
+        onSuccess: (data) => invalidateReversal(queryClient, data.bill.id),
+    });
+}
+
+export function useReopenOrder() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ order, ...request }: ReopenOrderRequest & { order: Order }) => endpoints.reopenOrder(order.id, request),
+        onSuccess: (_data, { order }) => invalidateReversal(queryClient, order.billId || ""),
+    });
+}
+
+// A payment changes its bill, a split parent's rolled-up status and the day's takings
+const invalidatePayment = (queryClient: ReturnType<typeof useQueryClient>, bill: Bill) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.bill(bill.id) });
+    if (bill.parentBillId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.bill(bill.parentBillId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.billSplits(bill.parentBillId) });
+    }
+    queryClient.invalidateQueries({ queryKey: ["reports"] });
+};
+
+export function useRecordPayment() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ billId, ...payment }: RecordPaymentRequest & { billId: string }) => endpoints.recordPayment(billId, payment),
+        onSuccess: (data) => invalidatePayment(queryClient, data.bill),
+    });
+}
+
+export function useConfirmPayment() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ billId, paymentId }: { billId: string; paymentId: string }) => endpoints.confirmPayment(billId, paymentId),
+        onSuccess: (data) => invalidatePayment(queryClient, data.bill),
+    });
+}
+
+export function useCancelPayment() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ billId, paymentId }: { billId: string; paymentId: string }) => endpoints.cancelPayment(billId, paymentId),
+        onSuccess: (data) => invalidatePayment(queryClient, data.bill),
+    });
+}
+
+export function useDailyReport(date: string) {
+    return useQuery({ queryKey: queryKeys.dailyReport(date), queryFn: () => endpoints.getDailyReport(date), ...noRetry });
+}
+
+export function useTaxConfig() {
+    return useQuery({ queryKey: queryKeys.taxConfig, queryFn: endpoints.getTaxConfig, ...noRetry });
+}
+
+export function useUpdateTaxConfig() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (config: TaxConfigInput) => endpoints.updateTaxConfig(config),
+        onSuccess: (data) => queryClient.setQueryData(queryKeys.taxConfig, data.config),
+    });
+}
+
+export function usePrepTargets() {
+    return useQuery({ queryKey: queryKeys.prepTargets, queryFn: endpoints.getPrepTargets, ...noRetry });
+}
+
+export function useUpdatePrepTargets() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (config: PrepTargetsInput) => endpoints.updatePrepTargets(config),
+        onSuccess: (data) => queryClient.setQueryData(queryKeys.prepTargets, data.config),
+    });
+}
+
+export function useStaff() {
+    return useQuery({ queryKey: queryKeys.staff, queryFn: endpoints.listStaff, ...noRetry });
+}
+
+export function useStaffDirectory() {
+    return useQuery({ queryKey: queryKeys.staffDirectory, queryFn: endpoints.getStaffDirectory, ...noRetry });
+}
+
+export function useSaveStaff() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ id, member }: { id?: string; member: StaffInput }) => (id ? endpoints.updateStaff(id, member) : endpoints.createStaff(member)),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.staff }),
+    });
+}
+
+export function useTables() {
+    return useQuery({ queryKey: queryKeys.tables, queryFn: endpoints.listTables, ...noRetry });
+}
+
+export function useSaveTable() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ tableNumber, table }: { tableNumber?: number; table: TableInput }) =>
+            tableNumber ? endpoints.updateTable(tableNumber, table) : endpoints.createTable(table),
+        // Also refreshes the QR sheet, which lists active tables
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tables }),
+    });
+}
+
+export function useDeleteTable() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (tableNumber: number) => endpoints.deleteTable(tableNumber),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tables }),
+    });
+}
+
+export function useTableLinks(baseUrl: string) {
+    return useQuery({ queryKey: queryKeys.tableLinks(baseUrl), queryFn: () => endpoints.listTableLinks(baseUrl), ...noRetry });
+}
+
+export function useRotateTableLink() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ tableNumber, baseUrl }: { tableNumber: number; baseUrl: string }) => endpoints.rotateTableLink(tableNumber, baseUrl),
+        onSuccess: ({ table }, { baseUrl }) =>
+            queryClient.setQueryData<TableLink[]>(queryKeys.tableLinks(baseUrl), (links) =>
+                links?.map((link) => (link.tableNumber === table.tableNumber ? table : link))
+            ),
+    });
+}
+
+export function useInventory() {
+    return useQuery({ queryKey: queryKeys.inventory, queryFn: endpoints.getInventory, ...noRetry });
+}
+
+// Stock changes can switch menu items on or off, so the menu is refreshed too
+const invalidateStock = (queryClient: ReturnType<typeof useQueryClient>) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+    queryClient.invalidateQueries({ queryKey: queryKeys.menu });
+};
+
+export function useSaveIngredient() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ id, ingredient }: { id?: string; ingredient: IngredientInput }) =>
+            id ? endpoints.updateIngredient(id, ingredient) : endpoints.createIngredient(ingredient),
+        onSuccess: () => invalidateStock(queryClient),
+    });
+}
+
+export function useAdjustStock() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ id, adjustment }: { id: string; adjustment: StockAdjustment }) => endpoints.adjustStock(id, adjustment),
+        onSuccess: () => invalidateStock(queryClient),
+    });
+}
+
+export function useSaveRecipe() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ menuItemId, lines }: { menuItemId: string; lines: RecipeLine[] }) => endpoints.saveRecipe(menuItemId, lines),
+        onSuccess: () => invalidateStock(queryClient),
+    });
+}
+
+export function useSaveMenuItem() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ isNew, item }: { isNew: boolean; item: MenuItemInput & { id: string } }) =>
+            isNew ? endpoints.createMenuItem(item) : endpoints.updateMenuItem(item.id, item),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.menu }),
+    });
+}
+
+export function useDeleteMenuItem() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: endpoints.deleteMenuItem,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.menu }),
+    });
+}
+
+export function useSplitBill() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ id, split }: { id: string; split: SplitBillRequest }) => endpoints.splitBill(id, split),
+        onSuccess: (_data, { id }) => queryClient.invalidateQueries({ queryKey: queryKeys.bill(id) }),
+    });
+}
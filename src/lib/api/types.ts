@@ -0,0 +1,658 @@
+/**
+ * Request/response models for the backend API (server/index.js)
+ * Keep these in sync with the Express handlers
+ */
+
+export type SuccessResponse = { success: true };
+
+// ---- Menu ----
+
+/** One choice inside a modifier group, e.g. "Large" (+₹15) */
+export type ModifierOption = {
+    id: string;
+    name: string;
+    priceDelta: number;
+};
+
+/** Variant or add-on group on a menu item; required groups need at least one pick */
+export type ModifierGroup = {
+    id: string;
+    name: string;
+    required: boolean;
+    min: number;
+    max: number;
+    options: ModifierOption[];
+};
+
+/** A modifier option chosen for an order line */
+export type SelectedModifier = {
+    groupId: string;
+    groupName: string;
+    optionId: string;
+    name: string;
+    priceDelta: number;
+};
+
+export type MenuItem = {
+    id: string;
+    name: string;
+    category: string;
+    price: number;
+    available: boolean;
+    description?: string;
+    image?: string;
+    /** HSN/SAC code printed on tax invoices */
+    hsn?: string | null;
+    modifierGroups?: ModifierGroup[];
+    /** Switched off because an ingredient ran out; comes back on when restocked */
+    autoUnavailable?: boolean;
+};
+
+/** GET /menu returns items grouped by category name */
+export type MenuResponse = Record<string, MenuItem[]>;
+
+export type MenuItemInput = {
+    id?: string;
+    name: string;
+    category: string;
+    price: number;
+    available?: boolean;
+    hsn?: string | null;
+    modifierGroups?: ModifierGroup[];
+};
+
+export type MenuItemResponse = SuccessResponse & { item: MenuItem };
+
+// ---- Orders ----
+
+export type OrderStatus = "PENDING" | "PREPARING" | "READY" | "BILL_REQUESTED" | "COMPLETED" | "CANCELLED";
+
+/** Who performed an action; recorded on status history entries */
+export type Actor = {
+    id?: string;
+    name: string;
+    role?: string;
+};
+
+export type StatusHistoryEntry = {
+    from: OrderStatus | null;
+    to: OrderStatus;
+    at: number;
+    actor: Actor;
+    /** Set when a manager re-opened a completed order */
+    reason?: CreditReason;
+};
+
+/** Body of the 409 returned when a status change is not allowed */
+export type TransitionErrorBody = {
+    success: false;
+    message: string;
+    from: OrderStatus;
+    to: OrderStatus;
+    allowed: OrderStatus[];
+};
+
+/** Why staff voided an order or line; labels live in `@/lib/voids` */
+export type VoidReason = "OUT_OF_STOCK" | "CUSTOMER_CHANGED_MIND" | "WRONG_ITEM";
+
+/** Recorded on a voided order or line; customers cancelling their own order are CUSTOMER_CANCELLED */
+export type VoidInfo = {
+    reason: VoidReason | "CUSTOMER_CANCELLED";
+    note: string | null;
+    at: number;
+    actor: Actor;
+    /** Value removed from the order */
+    amount: number;
+};
+
+export type VoidRequest = { reason: VoidReason; note?: string };
+
+export type OrderItem = {
+    id?: string;
+    name: string;
+    /** Unit price including modifier price deltas */
+    price?: number;
+    /** Menu price before modifiers */
+    basePrice?: number;
+    quantity: number;
+    modifiers?: SelectedModifier[];
+    /** Special instructions for this line, e.g. "no onions" */
+    notes?: string | null;
+    /** Filled in on bill lines */
+    category?: string | null;
+    hsn?: string | null;
+    gstRate?: number;
+    /** Set when staff voided this line; it no longer counts towards the total */
+    voided?: VoidInfo | null;
+    /** Round the line was added in; missing means the first round */
+    round?: number;
+    /** KDS station the line was routed to; missing on orders from before KDS (main kitchen) */
+    station?: StationId;
+    /** Set when the station marked the line done */
+    bumped?: BumpInfo | null;
+};
+
+/** KDS stations; names and routing live in `@/lib/stations` */
+export type StationId = "beverage" | "fryer" | "tawa" | "kitchen";
+
+export type BumpInfo = {
+    at: number;
+    actor: Actor;
+};
+
+/** Allergy flags the kitchen is warned about; labels live in `@/lib/allergens` */
+export type Allergen = "peanuts" | "tree_nuts" | "dairy" | "gluten" | "egg" | "soy" | "sesame" | "fish" | "shellfish";
+
+export type Order = {
+    id: string;
+    /** Short number for screens and tickets (#042), restarting each day */
+    displayNumber?: string;
+    tableNumber: number | null;
+    customerName: string;
+    phone?: string | null;
+    items: OrderItem[];
+    /** Special instructions for the whole order */
+    notes?: string | null;
+    allergens?: Allergen[];
+    totalAmount: number;
+    status: OrderStatus;
+    statusHistory?: StatusHistoryEntry[];
+    sessionId?: string | null;
+    billId?: string | null;
+    /** The customer may cancel until then, while the order is still PENDING */
+    cancellableUntil?: number | null;
+    /** Set when the order was voided or cancelled by the customer */
+    voided?: VoidInfo | null;
+    /** Minutes the kitchen has to get the order READY: the slowest of its lines' category targets */
+    prepTargetMinutes?: number | null;
+    /** How long the order took from being placed to READY */
+    prepTime?: PrepTime | null;
+    /** Items added after the order was placed, one entry per round from round 2 on */
+    rounds?: OrderRound[];
+    /** Placed in KDS mode: it turns READY only once every station has bumped its lines */
+    kds?: boolean;
+    createdAt: number;
+};
+
+export type PrepTime = {
+    readyAt: number;
+    minutes: number;
+    targetMinutes: number | null;
+    breached: boolean;
+};
+
+/** A batch of items added to an order while the kitchen is preparing it */
+export type OrderRound = {
+    number: number;
+    at: number;
+    actor: Actor;
+    /** Instructions sent with this round */
+    notes: string | null;
+    itemCount: number;
+    amount: number;
+};
+
+export type AddOrderRoundRequest = {
+    items: OrderItem[];
+    notes?: string;
+    allergens?: Allergen[];
+    /** The table's QR token, when the order was placed without signing in */
+    tableToken?: string;
+};
+
+export type AddOrderRoundResponse = SuccessResponse & { order: Order; round: OrderRound };
+
+export type CreateOrderRequest = {
+    tableNumber: number;
+    /** Signed token from the table's QR link; when present the server takes the table from it */
+    tableToken?: string;
+    customerName: string;
+    phone?: string;
+    items: OrderItem[];
+    notes?: string;
+    allergens?: Allergen[];
+    totalAmount?: number;
+};
+
+/** Filters for GET /orders/history; from/to are YYYY-MM-DD and inclusive */
+export type OrderHistoryQuery = {
+    from?: string;
+    to?: string;
+    status?: OrderStatus[];
+    table?: number;
+    /** Order id, display number (#042), customer name or phone */
+    q?: string;
+    limit?: number;
+};
+
+/** One page of history, newest first; pass `nextCursor` back as `cursor` for the next page */
+export type OrderHistoryPage = {
+    orders: Order[];
+    nextCursor: string | null;
+};
+
+export type CreateOrderResponse = SuccessResponse & { orderId: string; displayNumber?: string; sessionId: string | null; cancellableUntil?: number };
+
+export type OrderLineErrorCode = "UNKNOWN_ITEM" | "UNAVAILABLE" | "INVALID_QUANTITY" | "INVALID_MODIFIERS" | "INVALID_LINE" | "INVALID_NOTES";
+
+/** One rejected line; `index` is the line's position in the request's `items` */
+export type OrderLineError = {
+    index: number;
+    itemId: string | null;
+    name: string | null;
+    code: OrderLineErrorCode;
+    message: string;
+};
+
+/** 400 body from POST /orders (and ad-hoc POST /bills) when lines fail menu pricing */
+export type OrderValidationErrorBody = {
+    success: false;
+    message: string;
+    errors: OrderLineError[];
+};
+
+export type UpdateOrderRequest = {
+    status?: OrderStatus;
+    actor?: Actor;
+};
+
+export type UpdateOrderResponse = SuccessResponse & { order: Order };
+
+// ---- Bills ----
+
+/** One printed tax line on a bill, e.g. "CGST 2.5%" */
+export type BillTaxLine = {
+    label: string;
+    kind: "GST" | "CGST" | "SGST";
+    /** Rate of this line, in percent */
+    rate: number | null;
+    /** Combined GST rate of the item group the line belongs to */
+    groupRate: number | null;
+    amount: number;
+};
+
+/** Taxable value and GST per rate */
+export type BillTaxGroup = {
+    rate: number;
+    taxable: number;
+    tax: number;
+};
+
+export type Bill = {
+    id: string;
+    /** Tax invoice number, e.g. INV/2026-27/000042 (split shares carry their parent's) */
+    invoiceNumber?: string;
+    orderId: string | null;
+    sessionId?: string | null;
+    orderIds?: string[];
+    tableNumber: number | null;
+    customerName: string;
+    items: OrderItem[];
+    subtotal: number;
+    tax: number;
+    service: number;
+    total: number;
+    taxLines?: BillTaxLine[];
+    taxBreakdown?: BillTaxGroup[];
+    /** Service charge percent actually applied (0 when declined or disabled) */
+    serviceRate?: number;
+    serviceDeclined?: boolean;
+    pricesIncludeTax?: boolean;
+    /** Rules the bill was priced under */
+    taxConfig?: TaxConfig;
+    /** Set on child bills created by a split */
+    parentBillId?: string | null;
+    splitIndex?: number;
+    splitMode?: BillSplitMode | null;
+    splitIds?: string[];
+    /** Set on credit notes, which reverse the bill `creditedBillId` */
+    kind?: "CREDIT_NOTE";
+    creditedBillId?: string;
+    creditedInvoiceNumber?: string | null;
+    credit?: { reason: CreditReason; note: string | null; actor: Actor };
+    /** Set on a bill once a credit note has reversed it */
+    creditNote?: BillCredit | null;
+    /** Bills from before payments were tracked have none of these */
+    payments?: Payment[];
+    paidAmount?: number;
+    balanceDue?: number;
+    paymentStatus?: PaymentStatus;
+    createdAt: number;
+};
+
+export type Tender = "CASH" | "UPI" | "CARD";
+
+export type PaymentStatus = "UNPAID" | "PARTIALLY_PAID" | "PAID";
+
+/**
+ * One tender taken against a bill; only CAPTURED payments count towards it.
+ * REFUNDED entries sit on credit notes and pay back a captured payment of the credited bill.
+ */
+export type Payment = {
+    id: string;
+    tender: Tender;
+    amount: number;
+    status: "PENDING" | "CAPTURED" | "CANCELLED" | "REFUNDED";
+    /** Cash handed over and the change given back */
+    tendered?: number;
+    change?: number;
+    /** Card terminal slip reference */
+    reference?: string;
+    upi?: { provider: string; providerRef: string; intentUrl: string };
+    createdAt: number;
+    capturedAt?: number;
+    /** Set on a captured payment once a credit note has paid it back */
+    refundId?: string;
+    /** On a refund: the payment it pays back and the bill that payment was on */
+    refundOf?: string;
+    billId?: string;
+    refundedAt?: number;
+    actor?: Actor;
+};
+
+/** `amount` defaults to the balance due; cash may send just `tendered` */
+export type RecordPaymentRequest = {
+    tender: Tender;
+    amount?: number;
+    tendered?: number;
+    reference?: string;
+    actor?: Actor;
+};
+
+/** `qrSvg` is the UPI intent as a QR code, returned when a UPI payment is started */
+export type PaymentResponse = SuccessResponse & { bill: Bill; payment: Payment; qrSvg?: string | null };
+
+export type CreditReason = "BILLING_ERROR" | "CUSTOMER_COMPLAINT" | "ORDER_REOPENED";
+
+export type BillCredit = {
+    /** Id of the credit note bill */
+    id: string;
+    /** Credit note number, e.g. CN/2026-27/000001 */
+    invoiceNumber: string;
+    reason: CreditReason;
+    note: string | null;
+    at: number;
+    actor: Actor;
+};
+
+export type CreditNoteRequest = { reason: CreditReason; note?: string; actor?: Actor };
+
+export type CreditNoteResponse = SuccessResponse & { bill: Bill; creditNote: Bill };
+
+/** The reason defaults to ORDER_REOPENED */
+export type ReopenOrderRequest = { reason?: CreditReason; note?: string; actor?: Actor };
+
+/** Every order on the re-opened bill, back at READY; creditNote is null if the bill was already credited */
+export type ReopenOrderResponse = SuccessResponse & { orders: Order[]; creditNote: Bill | null };
+
+export type CreateBillRequest = {
+    orderId?: string;
+    /** Bill every unbilled order in a table session as one bill (items are merged server-side) */
+    sessionId?: string;
+    tableNumber?: number | null;
+    customerName?: string;
+    phone?: string | null;
+    items?: OrderItem[];
+    actor?: Actor;
+    declineServiceCharge?: boolean;
+};
+
+export type CreateBillResponse = SuccessResponse & { bill: Bill };
+
+export type BillSplitMode = "even" | "items" | "amounts";
+
+/** One diner's share of the bill's lines when splitting by item */
+export type BillSplitAssignment = {
+    diner: string;
+    lines: { index: number; quantity: number }[];
+};
+
+export type SplitBillRequest =
+    | { mode: "even"; ways: number }
+    | { mode: "items"; assignments: BillSplitAssignment[] }
+    | { mode: "amounts"; amounts: { diner: string; amount: number }[] };
+
+export type SplitBillResponse = SuccessResponse & { bill: Bill; splits: Bill[] };
+
+// ---- Printable documents ----
+
+export type DocumentFormat = "html" | "pdf" | "text" | "escpos";
+
+/** Thermal roll width in mm */
+export type PaperWidth = 58 | 80;
+
+export type DocumentOptions = {
+    format?: DocumentFormat;
+    width?: PaperWidth;
+    /** HTML only: open the browser print dialog on load */
+    print?: boolean;
+};
+
+// ---- Tax settings ----
+
+/** Tax and service-charge rules applied when bills are generated (rates in percent) */
+export type TaxConfig = {
+    pricesIncludeTax: boolean;
+    defaultGstRate: number;
+    /** GST rate per menu category; categories not listed use defaultGstRate */
+    categoryRates: Record<string, number>;
+    /** Show GST as CGST + SGST halves */
+    splitGst: boolean;
+    serviceCharge: { enabled: boolean; rate: number; declinable: boolean };
+    /** HSN/SAC code for menu items without their own */
+    defaultHsn: string;
+    /** Seller details printed on tax invoices */
+    business: { name: string; address: string; gstin: string; invoicePrefix: string; /** VPA UPI payment QR codes pay into */ upiId: string };
+    updatedAt: number | null;
+    updatedBy: Actor | null;
+};
+
+export type TaxConfigInput = Partial<Omit<TaxConfig, "updatedAt" | "updatedBy">> & { actor?: Actor };
+
+export type UpdateTaxConfigResponse = SuccessResponse & { config: TaxConfig };
+
+/** Prep-time targets in minutes; categories not listed use defaultMinutes */
+export type PrepTargets = {
+    defaultMinutes: number;
+    categoryMinutes: Record<string, number>;
+    updatedAt: number | null;
+    updatedBy: Actor | null;
+};
+
+export type PrepTargetsInput = Partial<Omit<PrepTargets, "updatedAt" | "updatedBy">> & { actor?: Actor };
+
+export type UpdatePrepTargetsResponse = SuccessResponse & { config: PrepTargets };
+
+export type RequestBillResponse = SuccessResponse & { tableNumber: number; orderIds: string[] };
+
+// ---- Table sessions ----
+
+export type TableSessionStatus = "OPEN" | "BILLED" | "CLOSED";
+
+/** A table session as GET /sessions lists it, without its orders */
+export type TableSessionSummary = {
+    id: string;
+    tableNumber: number;
+    status: TableSessionStatus;
+    orderIds: string[];
+    billId: string | null;
+    openedAt: number;
+    billedAt: number | null;
+    closedAt: number | null;
+    orderCount: number;
+    runningTotal: number;
+    /** Open, with every order completed without a bill; only the table bill settles it */
+    needsBill?: boolean;
+};
+
+/** All orders placed at a table between the first order and payment */
+export type TableSession = TableSessionSummary & {
+    orders: Order[];
+};
+
+export type CloseSessionResponse = SuccessResponse & { session: TableSession };
+
+// ---- Tables ----
+
+export type TableArea = "indoor" | "terrace";
+
+/** A table in the registry; `tableNumber` is its id on orders, sessions and QR links */
+export type Table = {
+    tableNumber: number;
+    label: string;
+    area: TableArea;
+    seats: number;
+    active: boolean;
+};
+
+/** New table (tableNumber required) or changes to one (tableNumber ignored) */
+export type TableInput = Partial<Table>;
+
+export type SaveTableResponse = SuccessResponse & { table: Table };
+
+// ---- Table QR links ----
+
+/** A table's customer link (`/customer?t=<token>`) and its QR code as SVG markup */
+export type TableLink = {
+    tableNumber: number;
+    label: string;
+    token: string;
+    url: string;
+    qrSvg: string;
+    rotatedAt: number | null;
+};
+
+export type ResolveTableResponse = SuccessResponse & { tableNumber: number };
+
+export type RotateTableLinkResponse = SuccessResponse & { table: TableLink };
+
+// ---- Inventory ----
+
+export type IngredientUnit = "g" | "kg" | "ml" | "l" | "pcs";
+
+export type Ingredient = {
+    id: string;
+    name: string;
+    unit: IngredientUnit;
+    stock: number;
+    /** `low` is set once stock is at or below this */
+    lowStockThreshold: number;
+    low: boolean;
+    updatedAt: number;
+};
+
+export type IngredientInput = {
+    name?: string;
+    unit?: IngredientUnit;
+    stock?: number;
+    lowStockThreshold?: number;
+};
+
+/** How much of an ingredient one serving uses */
+export type RecipeLine = { ingredientId: string; quantity: number };
+
+export type Recipe = { menuItemId: string; lines: RecipeLine[]; updatedAt: number };
+
+export type InventoryResponse = { ingredients: Ingredient[]; recipes: Recipe[] };
+
+export type SaveIngredientResponse = SuccessResponse & { ingredient: Ingredient };
+
+export type SaveRecipeResponse = SuccessResponse & { recipe: Recipe };
+
+/** Add (or with a negative delta, remove) stock, or replace it with a fresh count */
+export type StockAdjustment = { delta: number } | { count: number };
+
+/** Menu items switched on or off by stock levels */
+export type MenuAvailabilityChange = { id: string; name: string; available: boolean };
+
+// ---- Reports ----
+
+export type DailyReport = {
+    date: string;
+    totalOrders: number;
+    totalRevenue: number;
+    averageOrderValue: number;
+    totalCustomers: number;
+    topItems: Array<{ name: string; quantity: number; revenue: number }>;
+    hourlyBreakdown: Array<{ hour: string; orders: number; revenue: number }>;
+    /** Credit notes issued that day; totalRevenue is already net of them */
+    credits: { count: number; amount: number };
+    /** Payments captured that day by tender net of refunds made that day, and the balance still due on the day's bills */
+    payments: {
+        byTender: Array<{ tender: Tender; count: number; amount: number; refunded: number }>;
+        collected: number;
+        refunded: number;
+        outstanding: number;
+    };
+    /** Whole orders and single lines voided that day, including customer cancellations */
+    voids: {
+        count: number;
+        amount: number;
+        byReason: Array<{ reason: VoidInfo["reason"]; count: number; amount: number }>;
+    };
+    /** Orders that became READY that day; breachRate is the percentage that missed their target */
+    prepTimes: { count: number; averageMinutes: number; breached: number; breachRate: number };
+};
+
+// ---- Auth ----
+
+/** Lowest to highest; each role can do everything the roles before it can */
+export type Role = "customer" | "kitchen" | "manager" | "admin";
+
+export type AuthUser = {
+    id?: string;
+    name?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    authMethod: "telegram" | "google" | "pin" | "dev";
+    role: Role;
+};
+
+/** Signed tokens issued at sign-in and by POST /auth/refresh */
+export type AuthSession = {
+    /** Short-lived access token, sent as `Authorization: Bearer` */
+    token: string;
+    refreshToken: string;
+    /** Epoch ms when `token` expires */
+    expiresAt: number;
+    user: AuthUser;
+};
+
+export type RefreshSessionResponse = SuccessResponse & AuthSession;
+
+// ---- Staff ----
+
+export type StaffRole = Exclude<Role, "customer">;
+
+/** Staff directory entry; PINs never leave the server */
+export type StaffMember = {
+    id: string;
+    name: string;
+    role: StaffRole;
+    active: boolean;
+    createdAt: number;
+    updatedAt: number;
+};
+
+/** Who can sign in on the PIN pad */
+export type StaffDirectoryEntry = Pick<StaffMember, "id" | "name" | "role">;
+
+/** `pin` (4–6 digits) is required when adding someone and optional when editing */
+export type StaffInput = {
+    name?: string;
+    role?: StaffRole;
+    pin?: string;
+    active?: boolean;
+};
+
+export type SaveStaffResponse = SuccessResponse & { member: StaffMember };
+
+export type PinLoginRequest = { staffId: string; pin: string };
+
+export type TelegramOtpRequest = { phone: string };
+
+export type TelegramOtpResponse = SuccessResponse & { message: string };
+
+export type TelegramVerifyRequest = { phone: string; code: string };
+
+export type TelegramVerifyResponse = SuccessResponse & AuthSession;
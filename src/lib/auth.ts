@@ -0,0 +1,47 @@
+/**
+ * Signed-in session kept in localStorage: access token, refresh token and user (with role)
+ */
+
+import type { AuthSession, AuthUser, Role } from "@/lib/api/types";
+
+const TOKEN_KEY = "auth_token";
+const REFRESH_KEY = "refresh_token";
+const USER_KEY = "user_data";
+
+const ROLE_ORDER: Role[] = ["customer", "kitchen", "manager", "admin"];
+
+export function getAccessToken(): string | null {
+    return localStorage.getItem(TOKEN_KEY);
+}
+
+export function getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_KEY);
+}
+
+export function getSessionUser(): AuthUser | null {
+    try {
+        return JSON.parse(localStorage.getItem(USER_KEY) || "null");
+    } catch {
+        return null;
+    }
+}
+
+export function saveSession(session: AuthSession) {
+    localStorage.setItem(TOKEN_KEY, session.token);
+    localStorage.setItem(REFRESH_KEY, session.refreshToken);
+    localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+}
+
+export function clearSession() {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_KEY);
+    localStorage.removeItem(USER_KEY);
+}
+
+/** Whether `user` has `role` or a higher one; mirrors the server's requireRole */
+export function hasRole(user: AuthUser | null, role: Role): boolean {
+    return !!user && ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(role);
+}
+
+/** Kitchen staff, managers and admins */
+export const isStaff = (user: AuthUser | null) => hasRole(user, "kitchen");
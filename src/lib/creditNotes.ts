@@ -0,0 +1,14 @@
+/**
+ * Reason codes for credit notes and re-opened orders; keys match server/creditNotes.js
+ */
+
+import type { CreditReason } from "@/lib/api";
+
+export const CREDIT_REASONS: { id: CreditReason; label: string }[] = [
+    { id: "BILLING_ERROR", label: "Billing error" },
+    { id: "CUSTOMER_COMPLAINT", label: "Customer complaint" },
+    { id: "ORDER_REOPENED", label: "Order re-opened" },
+];
+
+export const describeCreditReason = (reason: CreditReason): string =>
+    CREDIT_REASONS.find((r) => r.id === reason)?.label || reason;
@@ -0,0 +1,18 @@
+/**
+ * Ingredient units and stock formatting; units match server/inventory.js
+ */
+
+import type { Ingredient, IngredientUnit } from "@/lib/api";
+
+export const INGREDIENT_UNITS: { id: IngredientUnit; label: string }[] = [
+    { id: "g", label: "grams (g)" },
+    { id: "kg", label: "kilograms (kg)" },
+    { id: "ml", label: "millilitres (ml)" },
+    { id: "l", label: "litres (l)" },
+    { id: "pcs", label: "pieces (pcs)" },
+];
+
+/** "1.5 kg" */
+export function formatStock(ingredient: Pick<Ingredient, "stock" | "unit">): string {
+    return `${ingredient.stock} ${ingredient.unit}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Modifier helpers shared by the menu picker, cart and order displays
+ */
+
+import type { ModifierGroup, SelectedModifier } from "@/lib/api";
+
+/** Cart line identity: the same item with a different selection is a separate line */
+export function lineKey(itemId: string, modifiers: SelectedModifier[] = []): string {
+    const optionIds = modifiers.map((m) => m.optionId).sort();
+    return optionIds.length ? `${itemId}+${optionIds.join("+")}` : itemId;
+}
+
+/** Menu price plus the price deltas of the chosen options */
+export function unitPrice(basePrice: number, modifiers: SelectedModifier[] = []): number {
+    return modifiers.reduce((sum, m) => sum + (m.priceDelta || 0), basePrice);
+}
+
+/** Editable modifier group for the menu form; numbers stay strings so fields can be cleared while typing */
+export type ModifierOptionForm = { id?: string; name: string; priceDelta: string };
+export type ModifierGroupForm = { id?: string; name: string; required: boolean; min: string; max: string; options: ModifierOptionForm[] };
+
+export function toModifierForms(groups: ModifierGroup[] = []): ModifierGroupForm[] {
+    return groups.map((g) => ({
+        id: g.id,
+        name: g.name,
+        required: g.required,
+        min: String(g.min),
+        max: String(g.max),
+        options: g.options.map((o) => ({ id: o.id, name: o.name, priceDelta: String(o.priceDelta) })),
+    }));
+}
+
+/** The server fills missing ids and checks min/max; a blank max means "any number of options" */
+export function fromModifierForms(forms: ModifierGroupForm[]): ModifierGroup[] {
+    return forms.map((g) => ({
+        id: g.id,
+        name: g.name.trim(),
+        required: g.required,
+        min: parseInt(g.min, 10) || 0,
+        max: g.max.trim() === "" ? undefined : parseInt(g.max, 10),
+        options: g.options.map((o) => ({ id: o.id, name: o.name.trim(), priceDelta: parseFloat(o.priceDelta) || 0 })),
+    }));
+}
+
+/** "Large, Less sugar" */
+export function describeModifiers(modifiers: SelectedModifier[] = []): string {
+    return modifiers.map((m) => m.name).join(", ");
+}
+
+/**
+ * Check a selection against each group's min/max
+ * @returns A message for the first group that is not satisfied, or null
+ */
+export function selectionError(groups: ModifierGroup[], modifiers: SelectedModifier[]): string | null {
+    for (const group of groups) {
+        const picked = modifiers.filter((m) => m.groupId === group.id).length;
+        if (picked < group.min) {
+            return group.min === 1 ? `Choose a ${group.name.toLowerCase()}` : `Choose at least ${group.min} for ${group.name}`;
+        }
+        if (picked > group.max) return `Choose at most ${group.max} for ${group.name}`;
+    }
+    return null;
+}
@@ -84,3 +84,30 @@ export function getNotificationPermission(): NotificationPermissionStatus {
     }
     return Notification.permission as NotificationPermissionStatus;
 }
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short two-tone beep, e.g. when a kitchen ticket misses its target.
+ * Browsers only allow sound after the user has interacted with the page.
+ */
+export function playAlertTone(): void {
+    const Context = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Context) return;
+    try {
+        const context = (audioContext = audioContext || new Context());
+        [880, 660].forEach((frequency, i) => {
+            const oscillator = context.createOscillator();
+            const gain = context.createGain();
+            const start = context.currentTime + i * 0.25;
+            oscillator.frequency.value = frequency;
+            gain.gain.setValueAtTime(0.2, start);
+            gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+            oscillator.connect(gain).connect(context.destination);
+            oscillator.start(start);
+            oscillator.stop(start + 0.2);
+        });
+    } catch (error) {
+        console.error('Error playing alert tone:', error);
+    }
+}
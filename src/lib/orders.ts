@@ -0,0 +1,8 @@
+/**
+ * How orders are referred to on screen; mirrors orderLabel in server/documents.js
+ */
+
+import type { Order } from "@/lib/api";
+
+/** The daily display number (#042); orders placed before numbering fall back to their id */
+export const orderLabel = (order: Pick<Order, "id" | "displayNumber">): string => order.displayNumber || order.id;
@@ -0,0 +1,34 @@
+/**
+ * Payment tenders and bill payment status; keys match server/payments.js
+ */
+
+import type { Bill, PaymentStatus, Tender } from "@/lib/api";
+
+export const TENDERS: { id: Tender; label: string }[] = [
+    { id: "CASH", label: "Cash" },
+    { id: "UPI", label: "UPI" },
+    { id: "CARD", label: "Card" },
+];
+
+export const describeTender = (tender: Tender): string => TENDERS.find((t) => t.id === tender)?.label || tender;
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    UNPAID: "Unpaid",
+    PARTIALLY_PAID: "Partly paid",
+    PAID: "Paid",
+};
+
+/** What is still owed; bills from before payments were tracked owe their total */
+export const balanceDue = (bill: Bill): number => bill.balanceDue ?? bill.total;
+
+/** Change to hand back for `tendered` cash against `amount`, worked out in paise; null until it covers it */
+export function changeDue(tendered: number, amount: number): number | null {
+    const change = Math.round(tendered * 100) - Math.round(amount * 100);
+    return Number.isFinite(change) && change >= 0 ? change / 100 : null;
+}
+
+/** "Cash ₹64.2, Card ₹30" for the refunds a credit note made; null when nothing was paid back */
+export function describeRefunds(creditNote: Bill): string | null {
+    const refunds = (creditNote.payments || []).filter((p) => p.status === "REFUNDED");
+    return refunds.length ? refunds.map((p) => `${describeTender(p.tender)} ₹${p.amount}`).join(", ") : null;
+}
@@ -0,0 +1,31 @@
+/**
+ * Ticket aging against prep-time targets; targets are set per category in server/prepTimes.js
+ */
+
+import type { Order } from "@/lib/api";
+
+/** on_time (green) → due_soon (amber) → late (red, the target was missed) */
+export type TicketLevel = "on_time" | "due_soon" | "late";
+
+/** Share of the target after which a ticket turns amber */
+export const DUE_SOON_SHARE = 0.75;
+
+/** The ticket clock runs from when the order is placed until it is READY */
+export const isTicking = (order: Pick<Order, "status">): boolean => order.status === "PENDING" || order.status === "PREPARING";
+
+export const ticketAgeMs = (order: Pick<Order, "createdAt">, now: number): number => Math.max(0, now - order.createdAt);
+
+/** Orders from before targets existed fall back to `defaultMinutes` */
+export function ticketLevel(order: Pick<Order, "createdAt" | "prepTargetMinutes">, now: number, defaultMinutes: number): TicketLevel {
+    const targetMs = (order.prepTargetMinutes || defaultMinutes) * 60000;
+    const age = ticketAgeMs(order, now);
+    if (age > targetMs) return "late";
+    if (age >= targetMs * DUE_SOON_SHARE) return "due_soon";
+    return "on_time";
+}
+
+/** "7:05" */
+export function formatTicketAge(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,8 @@
+/**
+ * Rounds of items added to an order after it was placed; mirrors server/rounds.js
+ */
+
+import type { OrderItem } from "@/lib/api";
+
+/** Lines without a round belong to the first one */
+export const itemRound = (item: Pick<OrderItem, "round">): number => item.round || 1;
@@ -0,0 +1,45 @@
+/**
+ * Kitchen Display System stations; ids match server/stations.js, which routes lines by category
+ */
+
+import type { Order, OrderItem, StationId } from "@/lib/api";
+
+export const STATIONS: { id: StationId; name: string }[] = [
+    { id: "beverage", name: "Tea & Beverages" },
+    { id: "fryer", name: "Snacks Fryer" },
+    { id: "tawa", name: "Paratha Tawa" },
+    { id: "kitchen", name: "Main Kitchen" },
+];
+
+/** Lines from before KDS have no station and belong to the main kitchen */
+export const itemStation = (item: Pick<OrderItem, "station">): StationId => item.station || "kitchen";
+
+export const stationName = (id: StationId): string => STATIONS.find((s) => s.id === id)?.name || id;
+
+/** The live (not voided) lines of `order` routed to `station`, with their index in `items` */
+export function stationLines(order: Order, station: StationId): { item: OrderItem; index: number }[] {
+    return order.items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => !item.voided && itemStation(item) === station);
+}
+
+/** Lines still to bump at `station` across the given orders */
+export const stationBacklog = (orders: Order[], station: StationId): number =>
+    orders.reduce((sum, order) => sum + stationLines(order, station).filter(({ item }) => !item.bumped).length, 0);
+
+/** Bump progress for each station with lines on the order, in station order */
+export function stationProgress(order: Order): { station: StationId; total: number; bumped: number }[] {
+    return STATIONS.map(({ id }) => {
+        const lines = stationLines(order, id);
+        return { station: id, total: lines.length, bumped: lines.filter(({ item }) => item.bumped).length };
+    }).filter((p) => p.total > 0);
+}
+
+/**
+ * Stations with live lines still to bump on an order placed in KDS mode; the server won't let it be
+ * marked ready until they're done. Other orders wait on no one.
+ */
+export function waitingStations(order: Order): StationId[] {
+    if (!order.kds) return [];
+    return STATIONS.filter(({ id }) => order.items.some((item) => !item.voided && !item.bumped && itemStation(item) === id)).map(({ id }) => id);
+}
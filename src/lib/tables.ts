@@ -0,0 +1,36 @@
+/**
+ * Table areas and the live floor-plan state of a table, derived from its orders and session
+ */
+
+import type { Order, Table, TableArea, TableSessionSummary } from "@/lib/api";
+
+export const TABLE_AREAS: { id: TableArea; label: string }[] = [
+    { id: "indoor", label: "Indoor" },
+    { id: "terrace", label: "Terrace" },
+];
+
+export type TableState = "free" | "ordering" | "waiting_food" | "bill_requested";
+
+export const TABLE_STATES: { id: TableState; label: string }[] = [
+    { id: "free", label: "Free" },
+    { id: "ordering", label: "Ordering" },
+    { id: "waiting_food", label: "Waiting for food" },
+    { id: "bill_requested", label: "Bill requested" },
+];
+
+/**
+ * bill_requested — a diner asked for the bill, or it is printed and awaiting payment
+ * waiting_food   — an order is pending or being prepared
+ * ordering       — seated with everything served so far; more rounds may follow
+ * free           — no open orders or unpaid session
+ */
+export function tableState(table: Pick<Table, "tableNumber">, orders: Order[], sessions: TableSessionSummary[]): TableState {
+    const atTable = orders.filter(
+        (o) => Number(o.tableNumber) === table.tableNumber && o.status !== "COMPLETED" && o.status !== "CANCELLED"
+    );
+    const session = sessions.find((x) => x.tableNumber === table.tableNumber && x.status !== "CLOSED");
+    if (session?.status === "BILLED" || atTable.some((o) => o.status === "BILL_REQUESTED")) return "bill_requested";
+    if (atTable.some((o) => o.status === "PENDING" || o.status === "PREPARING")) return "waiting_food";
+    if (session || atTable.length > 0) return "ordering";
+    return "free";
+}
@@ -0,0 +1,17 @@
+/**
+ * Reason codes for voided orders and lines; keys match server/voids.js
+ */
+
+import type { VoidInfo, VoidReason } from "@/lib/api";
+
+export const VOID_REASONS: { id: VoidReason; label: string }[] = [
+    { id: "OUT_OF_STOCK", label: "Out of stock" },
+    { id: "CUSTOMER_CHANGED_MIND", label: "Customer changed mind" },
+    { id: "WRONG_ITEM", label: "Wrong item" },
+];
+
+/** "Out of stock"; customer cancellations read "Cancelled by customer" */
+export function describeVoidReason(reason: VoidInfo["reason"]): string {
+    if (reason === "CUSTOMER_CANCELLED") return "Cancelled by customer";
+    return VOID_REASONS.find((r) => r.id === reason)?.label || reason;
+}
@@ -5,32 +5,37 @@ import { KitchenDashboard } from "@/components/KitchenDashboard";
 import { Button } from "@/components/ui/button";
 import { ChefHat, ShoppingBag } from "lucide-react";
 import AuthModal from "@/components/AuthModal";
+import { toast } from "sonner";
+import { logout, type AuthSession, type AuthUser } from "@/lib/api";
+import { clearSession, getAccessToken, getRefreshToken, getSessionUser, isStaff, saveSession } from "@/lib/auth";
 
 const Index = () => {
   const [activeView, setActiveView] = useState<"select" | "customer" | "kitchen">("select");
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [pendingView, setPendingView] = useState<"customer" | "kitchen" | null>(null);
   const [authToken, setAuthToken] = useState<string | null>(null);
-  const [user, setUser] = useState<any>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
 
   // Check for existing auth on mount
   useEffect(() => {
-    const token = localStorage.getItem('auth_token');
-    const userData = localStorage.getItem('user_data');
+    const token = getAccessToken();
+    const userData = getSessionUser();
     if (token && userData) {
       setAuthToken(token);
-      setUser(JSON.parse(userData));
+      setUser(userData);
     }
   }, []);
 
-  const handleAuthSuccess = (token: string, userData: any) => {
-    setAuthToken(token);
-    setUser(userData);
-    localStorage.setItem('auth_token', token);
-    localStorage.setItem('user_data', JSON.stringify(userData));
+  const handleAuthSuccess = (session: AuthSession) => {
+    setAuthToken(session.token);
+    setUser(session.user);
+    saveSession(session);
     setShowAuthModal(false);
 
-    if (pendingView) {
+    if (pendingView === "kitchen" && !isStaff(session.user)) {
+      toast.error("The kitchen dashboard is for staff accounts");
+      setPendingView(null);
+    } else if (pendingView) {
       setActiveView(pendingView);
       setPendingView(null);
     }
@@ -46,10 +51,10 @@ const Index = () => {
   };
 
   const handleLogout = () => {
+    logout(getRefreshToken()).catch(() => undefined);
     setAuthToken(null);
     setUser(null);
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('user_data');
+    clearSession();
     setActiveView("select");
   };
 
@@ -112,23 +117,36 @@ const Index = () => {
           <div className="text-center">
             <Link to="/customer" target="_blank" className="text-sm text-primary underline">Open Customer in new tab</Link>
           </div>
-          <button
-            onClick={() => handleViewClick("kitchen")}
-            className="group relative overflow-hidden rounded-2xl border-2 border-border bg-card p-6 transition-all hover:border-secondary hover:shadow-lg w-full"
-          >
-            <div className="space-y-4">
-              <div className="w-20 h-20 rounded-full bg-secondary/10 flex items-center justify-center mx-auto group-hover:bg-secondary/20 transition-colors">
-                <ChefHat className="w-10 h-10 text-secondary" />
+          {isStaff(user) ? (
+            <>
+              <button
+                onClick={() => handleViewClick("kitchen")}
+                className="group relative overflow-hidden rounded-2xl border-2 border-border bg-card p-6 transition-all hover:border-secondary hover:shadow-lg w-full"
+              >
+                <div className="space-y-4">
+                  <div className="w-20 h-20 rounded-full bg-secondary/10 flex items-center justify-center mx-auto group-hover:bg-secondary/20 transition-colors">
+                    <ChefHat className="w-10 h-10 text-secondary" />
+                  </div>
+                  <h2 className="text-2xl font-bold">Kitchen Dashboard</h2>
+                  <p className="text-muted-foreground">
+                    Manage orders, update status, and process bills
+                  </p>
+                </div>
+              </button>
+              <div className="text-center">
+                <Link to="/kitchen" target="_blank" className="text-sm text-secondary underline">Open Kitchen in new tab</Link>
               </div>
-              <h2 className="text-2xl font-bold">Kitchen Dashboard</h2>
-              <p className="text-muted-foreground">
-                Manage orders, update status, and process bills
-              </p>
-            </div>
-          </button>
-          <div className="text-center">
-            <Link to="/kitchen" target="_blank" className="text-sm text-secondary underline">Open Kitchen in new tab</Link>
-          </div>
+            </>
+          ) : (
+            !user && (
+              <div className="text-center">
+                <Button variant="link" className="text-secondary" onClick={() => handleViewClick("kitchen")}>
+                  Staff sign in
+                </Button>
+                <Link to="/kitchen" className="block text-sm text-muted-foreground underline">Kitchen tablet (PIN)</Link>
+              </div>
+            )
+          )}
         </div>
       </div>
     </div>
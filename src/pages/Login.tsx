@@ -5,9 +5,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { Send, Lock } from "lucide-react";
+import { requestTelegramOtp, verifyTelegramOtp, isApiError } from "@/lib/api";
+import { saveSession } from "@/lib/auth";
 
 const Login = () => {
-    const [chatId, setChatId] = useState("");
+    const [phone, setPhone] = useState("");
     const [otp, setOtp] = useState("");
     const [step, setStep] = useState<"request" | "verify">("request");
     const [loading, setLoading] = useState(false);
@@ -15,28 +17,18 @@ const Login = () => {
 
     const handleSendOtp = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!chatId) {
-            toast.error("Please enter your Telegram Chat ID");
+        if (!phone) {
+            toast.error("Please enter your phone number");
             return;
         }
 
         setLoading(true);
         try {
-            const res = await fetch("http://localhost:4001/auth/telegram/otp", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ chatId }),
-            });
-            const data = await res.json();
-
-            if (data.success) {
-                toast.success("OTP sent to your Telegram!");
-                setStep("verify");
-            } else {
-                toast.error(data.message || "Failed to send OTP");
-            }
+            await requestTelegramOtp({ phone });
+            toast.success("OTP sent to your Telegram!");
+            setStep("verify");
         } catch (error) {
-            toast.error("Failed to connect to server");
+            toast.error(isApiError(error) && error.kind === "http" ? error.message : "Failed to connect to server");
         } finally {
             setLoading(false);
         }
@@ -51,22 +43,12 @@ const Login = () => {
 
         setLoading(true);
         try {
-            const res = await fetch("http://localhost:4001/auth/telegram/verify", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ chatId, code: otp }),
-            });
-            const data = await res.json();
-
-            if (data.success) {
-                toast.success("Login successful!");
-                // Store token if needed, e.g., localStorage.setItem("token", data.token);
-                navigate("/");
-            } else {
-                toast.error(data.message || "Invalid OTP");
-            }
+            const data = await verifyTelegramOtp({ phone, code: otp });
+            saveSession(data);
+            toast.success("Login successful!");
+            navigate("/");
         } catch (error) {
-            toast.error("Failed to connect to server");
+            toast.error(isApiError(error) && error.kind === "http" ? error.message : "Failed to connect to server");
         } finally {
             setLoading(false);
         }
@@ -79,7 +61,7 @@ const Login = () => {
                     <CardTitle className="text-2xl font-bold text-center">Telegram Login</CardTitle>
                     <CardDescription className="text-center">
                         {step === "request"
-                            ? "Enter your Telegram Chat ID to receive an OTP"
+                            ? "Enter your phone number to receive an OTP on Telegram"
                             : "Enter the code sent to your Telegram"}
                     </CardDescription>
                 </CardHeader>
@@ -88,14 +70,14 @@ const Login = () => {
                         <form onSubmit={handleSendOtp} className="space-y-4">
                             <div className="space-y-2">
                                 <Input
-                                    type="text"
-                                    placeholder="Telegram Chat ID"
-                                    value={chatId}
-                                    onChange={(e) => setChatId(e.target.value)}
+                                    type="tel"
+                                    placeholder="Phone number (e.g., +1234567890)"
+                                    value={phone}
+                                    onChange={(e) => setPhone(e.target.value)}
                                     disabled={loading}
                                 />
                                 <p className="text-xs text-muted-foreground text-center">
-                                    Don't know your Chat ID? Message <a href="https://t.me/userinfobot" target="_blank" rel="noreferrer" className="text-primary hover:underline">@userinfobot</a>
+                                    Register your phone with the Telegram bot first by sending it /start
                                 </p>
                             </div>
                             <Button type="submit" className="w-full" disabled={loading}>